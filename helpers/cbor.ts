@@ -0,0 +1,105 @@
+/**
+ * CBOR Helper
+ *
+ * Encodes and decodes the CBOR subset of mdoc structures (ISO 18013-5), so specs
+ * and the test wallet can take apart and build what the mocks produce.
+ */
+
+// Tagged data item, e.g. tag 24 for embedded CBOR
+export class Tagged {
+  constructor(
+    public readonly tag: number,
+    public readonly value: unknown
+  ) {}
+}
+
+function encodeHead(majorType: number, argument: number): Buffer {
+  const type = majorType << 5;
+  if (argument < 24) {
+    return Buffer.from([type | argument]);
+  }
+  if (argument < 0x100) {
+    return Buffer.from([type | 24, argument]);
+  }
+  if (argument < 0x10000) {
+    return Buffer.from([type | 25, argument >> 8, argument & 0xff]);
+  }
+  const head = Buffer.alloc(5);
+  head[0] = type | 26;
+  head.writeUInt32BE(argument, 1);
+  return head;
+}
+
+/**
+ * Encode the CBOR subset of mdoc structures: maps keep insertion order
+ */
+export function encodeCbor(value: unknown): Buffer {
+  if (value === null) {
+    return Buffer.from([0xf6]);
+  }
+  if (typeof value === 'boolean') {
+    return Buffer.from([value ? 0xf5 : 0xf4]);
+  }
+  if (typeof value === 'number') {
+    return value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([encodeHead(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([encodeHead(2, value.length), value]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([encodeHead(4, value.length), ...value.map(encodeCbor)]);
+  }
+  if (value instanceof Tagged) {
+    return Buffer.concat([encodeHead(6, value.tag), encodeCbor(value.value)]);
+  }
+  const entries = value instanceof Map ? [...value.entries()] : Object.entries(value as Record<string, unknown>);
+  return Buffer.concat([encodeHead(5, entries.length), ...entries.flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)])]);
+}
+
+/**
+ * Decode the CBOR subset the mock issuer produces; maps are decoded into Maps
+ */
+export function decodeCbor(input: Buffer): unknown {
+  let offset = 0;
+  const take = (length: number) => input.subarray(offset, (offset += length));
+  const readItem = (): unknown => {
+    const initial = take(1)[0];
+    const majorType = initial >> 5;
+    const additional = initial & 0x1f;
+    if (majorType === 7) {
+      if (additional === 27) {
+        return take(8).readDoubleBE(0);
+      }
+      return ({ 20: false, 21: true, 22: null } as Record<number, unknown>)[additional];
+    }
+    const argument =
+      additional < 24 ? additional : additional === 24 ? take(1)[0] : additional === 25 ? take(2).readUInt16BE(0) : take(4).readUInt32BE(0);
+    switch (majorType) {
+      case 0:
+        return argument;
+      case 1:
+        return -1 - argument;
+      case 2:
+        return Buffer.from(take(argument));
+      case 3:
+        return take(argument).toString('utf8');
+      case 4:
+        return Array.from({ length: argument }, readItem);
+      case 5: {
+        const map = new Map<unknown, unknown>();
+        for (let i = 0; i < argument; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      default:
+        return new Tagged(argument, readItem());
+    }
+  };
+  return readItem();
+}
@@ -0,0 +1,127 @@
+/**
+ * Credential Offer Helper
+ *
+ * Creates OpenID4VCI credential offers at the mock issuer and turns them into
+ * what a real user would receive: an openid-credential-offer:// deep link,
+ * a QR code PNG, or a wallet-frontend URL carrying the offer.
+ *
+ * Offers are created at:
+ *   POST /offers                 (mock issuer)
+ *   GET  /offers/:id             (credential_offer_uri target)
+ *   GET  /offers/:id/qr.png      (QR code of the deep link)
+ */
+
+import { APIRequestContext } from '@playwright/test';
+
+// Mock issuer URL (defaults to localhost:9000)
+const MOCK_ISSUER_URL = process.env.MOCK_ISSUER_URL || 'http://localhost:9000';
+// Wallet frontend URL (defaults to localhost:3000)
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+export const PRE_AUTHORIZED_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+export const AUTHORIZATION_CODE_GRANT_TYPE = 'authorization_code';
+
+export type OfferGrantType = typeof PRE_AUTHORIZED_GRANT_TYPE | typeof AUTHORIZATION_CODE_GRANT_TYPE;
+
+export interface TxCodeRequest {
+  length?: number;
+  input_mode?: 'numeric' | 'text';
+  description?: string;
+  // Fixed code instead of a generated one
+  value?: string;
+}
+
+export interface CreateCredentialOfferRequest {
+  credential_configuration_ids?: string[];
+  grant_types?: OfferGrantType[];
+  tx_code?: boolean | TxCodeRequest;
+  by_reference?: boolean;
+  deferred?: boolean | { pending_count?: number; interval?: number };
+}
+
+export interface CredentialOffer {
+  credential_issuer: string;
+  credential_configuration_ids: string[];
+  grants: {
+    [PRE_AUTHORIZED_GRANT_TYPE]?: {
+      'pre-authorized_code': string;
+      tx_code?: { length: number; input_mode: 'numeric' | 'text'; description?: string };
+    };
+    authorization_code?: {
+      issuer_state: string;
+    };
+  };
+}
+
+export interface CreatedCredentialOffer {
+  credential_offer: CredentialOffer;
+  credential_offer_uri?: string;
+  deep_link: string;
+  // data:image/png;base64 URI of the deep link's QR code
+  qr_code: string;
+  qr_code_uri: string;
+  pre_authorized_code?: string;
+  // The transaction code the user has to enter, when the offer requires one
+  tx_code_value?: string;
+  issuer_state?: string;
+}
+
+/**
+ * CredentialOfferHelper creates credential offers at the mock issuer
+ */
+export class CredentialOfferHelper {
+  private request: APIRequestContext;
+  private mockIssuerUrl: string;
+
+  constructor(request: APIRequestContext, mockIssuerUrl: string = MOCK_ISSUER_URL) {
+    this.request = request;
+    this.mockIssuerUrl = mockIssuerUrl;
+  }
+
+  /**
+   * Create a credential offer; by default a by-value offer for all configurations
+   * with the pre-authorized code grant
+   */
+  async createOffer(offer: CreateCredentialOfferRequest = {}): Promise<CreatedCredentialOffer> {
+    const response = await this.request.post(`${this.mockIssuerUrl}/offers`, { data: offer });
+    if (!response.ok()) {
+      const error = await response.text();
+      throw new Error(`Failed to create credential offer: ${response.status()} - ${error}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Create an offer passed by reference (credential_offer_uri)
+   */
+  async createOfferByReference(offer: CreateCredentialOfferRequest = {}): Promise<CreatedCredentialOffer> {
+    return this.createOffer({ ...offer, by_reference: true });
+  }
+
+  /**
+   * Fetch the offer behind a credential_offer_uri, as the wallet does
+   */
+  async resolveOfferUri(credentialOfferUri: string): Promise<CredentialOffer> {
+    const response = await this.request.get(credentialOfferUri);
+    if (!response.ok()) {
+      throw new Error(`Failed to resolve credential offer: ${response.status()}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Decode the QR code PNG of an offer
+   */
+  getQrCodePng(offer: CreatedCredentialOffer): Buffer {
+    return Buffer.from(offer.qr_code.replace(/^data:image\/png;base64,/, ''), 'base64');
+  }
+
+  /**
+   * Wallet-frontend URL carrying the offer in its query, the way the deep link
+   * reaches the wallet when the OS hands it over
+   */
+  getWalletUrl(offer: CreatedCredentialOffer, frontendUrl: string = FRONTEND_URL): string {
+    const query = offer.deep_link.slice(offer.deep_link.indexOf('?'));
+    return `${frontendUrl.replace(/\/$/, '')}/${query}`;
+  }
+}
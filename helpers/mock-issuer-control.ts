@@ -0,0 +1,176 @@
+/**
+ * Mock Issuer Control Helper
+ *
+ * Switches the scenario of a running mock issuer, so specs can test an issuer
+ * without IACA, with broken metadata or with a flaky token endpoint against
+ * the same container. Call reset() when done, e.g. in afterEach.
+ *
+ * The scenario is controlled at:
+ *   GET  /__control          (current scenario and defaults)
+ *   POST /__control          (change scenario fields)
+ *   POST /__control/reset    (back to the startup scenario)
+ *
+ * It also creates virtual issuers, served by the same container under
+ * /issuers/{name} with their own metadata, keys and trust status:
+ *   GET    /admin/issuers         (list virtual issuers)
+ *   POST   /admin/issuers         (create a virtual issuer)
+ *   DELETE /admin/issuers/{name}  (delete a virtual issuer)
+ */
+
+import { APIRequestContext } from '@playwright/test';
+import type { Fault as ScenarioFault, MalformedMetadata, Scenario as MockIssuerScenario } from '../mocks/issuer/scenario';
+
+// Mock issuer URL (defaults to localhost:9000)
+const MOCK_ISSUER_URL = process.env.MOCK_ISSUER_URL || 'http://localhost:9000';
+// Bearer token of the control API (CONTROL_TOKEN of the mock)
+const MOCK_ISSUER_CONTROL_TOKEN = process.env.MOCK_ISSUER_CONTROL_TOKEN || 'mock-issuer-control';
+
+// The scenario type is the mock's own, so the helper cannot drift from what the mock accepts
+export type { Fault as ScenarioFault, MalformedMetadata, Scenario as MockIssuerScenario } from '../mocks/issuer/scenario';
+
+export interface VirtualIssuerOptions {
+  // Lower case letters, digits and dashes; the issuer is served at /issuers/{name}
+  name: string;
+  // A single name for every locale, or names by locale
+  display_name?: string | Record<string, string>;
+  // Untrusted issuers sign their metadata with a key that does not chain to /metadata_trust_anchors
+  trusted?: boolean;
+  credential_configuration_ids?: string[];
+}
+
+export interface VirtualIssuer {
+  name: string;
+  // Credential issuer identifier, e.g. http://localhost:9000/issuers/acme
+  credential_issuer: string;
+  display_name: Record<string, string>;
+  trusted: boolean;
+  credential_configuration_ids: string[];
+  created_at: string;
+}
+
+/**
+ * MockIssuerControlHelper changes the scenario of the mock issuer at runtime
+ */
+export class MockIssuerControlHelper {
+  private request: APIRequestContext;
+  private mockIssuerUrl: string;
+  private controlToken: string;
+
+  constructor(
+    request: APIRequestContext,
+    mockIssuerUrl: string = MOCK_ISSUER_URL,
+    controlToken: string = MOCK_ISSUER_CONTROL_TOKEN
+  ) {
+    this.request = request;
+    this.mockIssuerUrl = mockIssuerUrl;
+    this.controlToken = controlToken;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${this.controlToken}` };
+  }
+
+  /**
+   * Get the current scenario
+   */
+  async getScenario(): Promise<MockIssuerScenario> {
+    const response = await this.request.get(`${this.mockIssuerUrl}/__control`, { headers: this.getHeaders() });
+    if (!response.ok()) {
+      throw new Error(`Failed to get scenario: ${response.status()}`);
+    }
+    return (await response.json()).scenario;
+  }
+
+  /**
+   * Change scenario fields; the others keep their current value
+   */
+  async setScenario(scenario: Partial<MockIssuerScenario>): Promise<MockIssuerScenario> {
+    const response = await this.request.post(`${this.mockIssuerUrl}/__control`, {
+      headers: this.getHeaders(),
+      data: scenario,
+    });
+    if (!response.ok()) {
+      const error = await response.text();
+      throw new Error(`Failed to set scenario: ${response.status()} - ${error}`);
+    }
+    return (await response.json()).scenario;
+  }
+
+  /**
+   * Go back to the scenario the mock issuer started with
+   */
+  async reset(): Promise<MockIssuerScenario> {
+    const response = await this.request.post(`${this.mockIssuerUrl}/__control/reset`, { headers: this.getHeaders() });
+    if (!response.ok()) {
+      throw new Error(`Failed to reset scenario: ${response.status()}`);
+    }
+    return (await response.json()).scenario;
+  }
+
+  /**
+   * Answer requests to these paths with 404, as if the endpoints did not exist
+   */
+  async disableEndpoints(...paths: string[]): Promise<MockIssuerScenario> {
+    return this.setScenario({ disabled_endpoints: paths });
+  }
+
+  /**
+   * Add a latency and/or 5xx fault, keeping the faults already injected
+   */
+  async injectFault(fault: ScenarioFault): Promise<MockIssuerScenario> {
+    const { faults } = await this.getScenario();
+    return this.setScenario({ faults: [...faults, fault] });
+  }
+
+  /**
+   * Serve broken credential issuer metadata, or correct metadata again with null
+   */
+  async setMalformedMetadata(kind: MalformedMetadata | null): Promise<MockIssuerScenario> {
+    return this.setScenario({ malformed_metadata: kind });
+  }
+
+  /**
+   * Advertise and issue only these credential configurations
+   */
+  async setCredentialConfigurations(ids: string[]): Promise<MockIssuerScenario> {
+    return this.setScenario({ credential_configuration_ids: ids });
+  }
+
+  /**
+   * List the virtual issuers
+   */
+  async listIssuers(): Promise<VirtualIssuer[]> {
+    const response = await this.request.get(`${this.mockIssuerUrl}/admin/issuers`);
+    if (!response.ok()) {
+      throw new Error(`Failed to list virtual issuers: ${response.status()}`);
+    }
+    return (await response.json()).issuers;
+  }
+
+  /**
+   * Create a virtual issuer with its own metadata and keys
+   */
+  async createIssuer(options: VirtualIssuerOptions): Promise<VirtualIssuer> {
+    const response = await this.request.post(`${this.mockIssuerUrl}/admin/issuers`, { data: options });
+    if (!response.ok()) {
+      const error = await response.text();
+      throw new Error(`Failed to create virtual issuer: ${response.status()} - ${error}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Delete a virtual issuer
+   * @returns true if deleted, false if it did not exist
+   */
+  async deleteIssuer(name: string): Promise<boolean> {
+    const response = await this.request.delete(`${this.mockIssuerUrl}/admin/issuers/${encodeURIComponent(name)}`);
+    if (response.status() === 404) {
+      return false;
+    }
+    if (!response.ok()) {
+      throw new Error(`Failed to delete virtual issuer: ${response.status()}`);
+    }
+    return true;
+  }
+}
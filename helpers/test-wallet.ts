@@ -0,0 +1,326 @@
+/**
+ * Test Wallet Helper
+ *
+ * Plays the holder against the mock issuer and mock verifier, so specs can
+ * drive a presentation end to end without a wallet: it obtains credentials
+ * through the pre-authorized code flow, bound to its own key, and builds
+ * OpenID4VP presentations from them.
+ *
+ *   issue()          (credential from the mock issuer)
+ *   presentSdJwt()   (SD-JWT VC with the chosen disclosures and a KB-JWT)
+ *   presentMdoc()    (DeviceResponse signed over the OpenID4VP session transcript)
+ *   encryptResponse() (JWE for direct_post.jwt, to the key in client_metadata)
+ *   respond()        (direct_post to the response_uri)
+ *
+ * Options that override what a correct wallet would send allow negative tests.
+ */
+
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import {
+  createCipheriv,
+  createHash,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+  type JsonWebKey,
+  type KeyObject,
+} from 'crypto';
+import { decodeCbor, encodeCbor, Tagged } from './cbor';
+
+// Mock issuer URL (defaults to localhost:9000)
+const MOCK_ISSUER_URL = process.env.MOCK_ISSUER_URL || 'http://localhost:9000';
+
+const PRE_AUTHORIZED_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+
+export type ClaimPath = (string | number | null)[];
+
+export interface SdJwtPresentationOptions {
+  clientId: string;
+  nonce: string;
+  // Claims to disclose; every disclosure when omitted
+  disclose?: ClaimPath[];
+  // Encoded transaction_data entries of the request to confirm in the KB-JWT, and the hash algorithm
+  transactionData?: string[];
+  transactionDataHashesAlg?: 'sha-256' | 'sha-384' | 'sha-512';
+  // KB-JWT header and claim overrides
+  keyBinding?: { header?: Record<string, unknown>; payload?: Record<string, unknown> };
+}
+
+export interface MdocPresentationOptions {
+  clientId: string;
+  nonce: string;
+  responseUri: string;
+  // JWK thumbprint of the verifier's response encryption key, for encrypted responses
+  jwkThumbprint?: Buffer;
+  // Data elements to disclose, by namespace; every element when omitted
+  disclose?: Record<string, string[]>;
+}
+
+export interface ResponseEncryptionOptions {
+  // Content encryption; the first of encrypted_response_enc_values_supported when omitted
+  enc?: string;
+  // Key to encrypt to instead of the one in client_metadata
+  jwk?: JsonWebKey;
+  // kid header; the kid of the key when omitted
+  kid?: string;
+}
+
+export interface PresentationResponse {
+  vp_token?: Record<string, string[]>;
+  state?: string;
+  error?: string;
+  error_description?: string;
+  // JWE of the other parameters, for direct_post.jwt
+  response?: string;
+}
+
+function sha256(input: Buffer | string): Buffer {
+  return createHash('sha256').update(input).digest();
+}
+
+function signJwt(key: KeyObject, header: Record<string, unknown>, payload: Record<string, unknown>): string {
+  const signingInput = [header, payload].map(part => Buffer.from(JSON.stringify(part)).toString('base64url')).join('.');
+  const signature = sign('sha256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Concat KDF of ECDH-ES (RFC 7518, 4.6.2) with empty apu and apv
+ */
+function concatKdf(sharedSecret: Buffer, enc: string, keyBits: number): Buffer {
+  const otherInfo = Buffer.alloc(4 + enc.length + 12);
+  otherInfo.writeUInt32BE(enc.length, 0);
+  otherInfo.write(enc, 4, 'ascii');
+  otherInfo.writeUInt32BE(keyBits, 4 + enc.length + 8);
+  const rounds: Buffer[] = [];
+  for (let counter = 1; rounds.length * 256 < keyBits; counter++) {
+    const round = Buffer.alloc(4);
+    round.writeUInt32BE(counter);
+    rounds.push(sha256(Buffer.concat([round, sharedSecret, otherInfo])));
+  }
+  return Buffer.concat(rounds).subarray(0, keyBits / 8);
+}
+
+/**
+ * Collect the disclosures a claims path needs: those of the claim and of every
+ * object or array it is nested in. An exhausted path takes the whole subtree.
+ */
+function selectDisclosures(value: unknown, path: ClaimPath, disclosures: Map<string, unknown[]>, selected: Set<string>) {
+  const disclosed = (digest: string): unknown => {
+    selected.add(digest);
+    const disclosure = disclosures.get(digest)!;
+    return disclosure[disclosure.length - 1];
+  };
+  const [segment, ...rest] = path;
+
+  if (Array.isArray(value)) {
+    value.forEach((element, index) => {
+      if (path.length > 0 && segment !== null && segment !== index) {
+        return;
+      }
+      const digest = element !== null && typeof element === 'object' ? (element as Record<string, string>)['...'] : undefined;
+      if (digest && disclosures.has(digest)) {
+        selectDisclosures(disclosed(digest), rest, disclosures, selected);
+      } else {
+        selectDisclosures(element, rest, disclosures, selected);
+      }
+    });
+    return;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const digest of Array.isArray(object._sd) ? (object._sd as string[]) : []) {
+      const disclosure = disclosures.get(digest);
+      if (disclosure && (path.length === 0 || disclosure[1] === segment)) {
+        selectDisclosures(disclosed(digest), rest, disclosures, selected);
+      }
+    }
+    for (const [name, claim] of Object.entries(object)) {
+      if (name !== '_sd' && (path.length === 0 || name === segment)) {
+        selectDisclosures(claim, rest, disclosures, selected);
+      }
+    }
+  }
+}
+
+export class TestWalletHelper {
+  readonly privateKey: KeyObject;
+  readonly publicJwk: JsonWebKey;
+
+  constructor(
+    private request: APIRequestContext,
+    private issuerUrl: string = MOCK_ISSUER_URL
+  ) {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    this.privateKey = privateKey;
+    this.publicJwk = publicKey.export({ format: 'jwk' });
+  }
+
+  /**
+   * Obtain a credential bound to the wallet key through the pre-authorized code flow
+   */
+  async issue(credentialConfigurationId: string): Promise<string> {
+    const offerResponse = await this.request.post(`${this.issuerUrl}/offers`, {
+      data: { credential_configuration_ids: [credentialConfigurationId] },
+    });
+    const { pre_authorized_code } = await offerResponse.json();
+    const token = await (
+      await this.request.post(`${this.issuerUrl}/token`, {
+        form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': pre_authorized_code },
+      })
+    ).json();
+
+    const proof = signJwt(
+      this.privateKey,
+      { typ: 'openid4vci-proof+jwt', alg: 'ES256', jwk: this.publicJwk },
+      { aud: this.issuerUrl, iat: Math.floor(Date.now() / 1000), nonce: token.c_nonce }
+    );
+    const response = await this.request.post(`${this.issuerUrl}/credential`, {
+      headers: { Authorization: `Bearer ${token.access_token}` },
+      data: { credential_configuration_id: credentialConfigurationId, proof: { proof_type: 'jwt', jwt: proof } },
+    });
+    if (!response.ok()) {
+      throw new Error(`Failed to issue ${credentialConfigurationId}: ${response.status()} ${await response.text()}`);
+    }
+    return (await response.json()).credentials[0].credential;
+  }
+
+  /**
+   * Present an SD-JWT VC: the issuer-signed JWT, the selected disclosures and a KB-JWT
+   */
+  presentSdJwt(sdJwt: string, options: SdJwtPresentationOptions): string {
+    const [issuerJwt, ...encoded] = sdJwt.split('~').filter(Boolean);
+    const disclosures = new Map(
+      encoded.map(disclosure => [sha256(disclosure).toString('base64url'), JSON.parse(Buffer.from(disclosure, 'base64url').toString('utf8'))])
+    );
+    const payload = JSON.parse(Buffer.from(issuerJwt.split('.')[1], 'base64url').toString('utf8'));
+
+    const selected = new Set<string>();
+    for (const path of options.disclose ?? [[]]) {
+      selectDisclosures(payload, path, disclosures, selected);
+    }
+    const presented = `${[issuerJwt, ...encoded.filter(disclosure => selected.has(sha256(disclosure).toString('base64url')))].join('~')}~`;
+
+    const keyBinding = signJwt(
+      this.privateKey,
+      { typ: 'kb+jwt', alg: 'ES256', ...options.keyBinding?.header },
+      {
+        iat: Math.floor(Date.now() / 1000),
+        aud: options.clientId,
+        nonce: options.nonce,
+        sd_hash: sha256(presented).toString('base64url'),
+        ...(options.transactionData
+          ? {
+              transaction_data_hashes: options.transactionData.map(entry =>
+                createHash((options.transactionDataHashesAlg ?? 'sha-256').replace('-', ''))
+                  .update(entry)
+                  .digest('base64url')
+              ),
+              ...(options.transactionDataHashesAlg ? { transaction_data_hashes_alg: options.transactionDataHashesAlg } : {}),
+            }
+          : {}),
+        ...options.keyBinding?.payload,
+      }
+    );
+    return `${presented}${keyBinding}`;
+  }
+
+  /**
+   * Present an mdoc: a DeviceResponse with the selected data elements, device-signed
+   * over the OpenID4VP session transcript
+   */
+  presentMdoc(issuerSignedCredential: string, options: MdocPresentationOptions): string {
+    const issuerSigned = decodeCbor(Buffer.from(issuerSignedCredential, 'base64url')) as Map<string, any>;
+    const issuerAuth: unknown[] = issuerSigned.get('issuerAuth');
+    const mso = decodeCbor((decodeCbor(issuerAuth[2] as Buffer) as Tagged).value as Buffer) as Map<string, any>;
+    const docType: string = mso.get('docType');
+
+    const nameSpaces = new Map<string, Tagged[]>();
+    for (const [nameSpace, items] of issuerSigned.get('nameSpaces') as Map<string, Tagged[]>) {
+      const elements = options.disclose ? options.disclose[nameSpace] ?? [] : undefined;
+      const disclosed = items.filter(item => {
+        const identifier = (decodeCbor(item.value as Buffer) as Map<string, unknown>).get('elementIdentifier') as string;
+        return !elements || elements.includes(identifier);
+      });
+      if (disclosed.length > 0) {
+        nameSpaces.set(nameSpace, disclosed);
+      }
+    }
+
+    const handoverInfo = encodeCbor([options.clientId, options.nonce, options.jwkThumbprint ?? null, options.responseUri]);
+    const sessionTranscript = [null, null, ['OpenID4VPHandover', sha256(handoverInfo)]];
+    const deviceNameSpaces = new Tagged(24, encodeCbor(new Map()));
+    const deviceAuthenticationBytes = encodeCbor(
+      new Tagged(24, encodeCbor(['DeviceAuthentication', sessionTranscript, docType, deviceNameSpaces]))
+    );
+    // Detached COSE_Sign1 with ES256
+    const protectedHeader = encodeCbor(new Map([[1, -7]]));
+    const signature = sign('sha256', encodeCbor(['Signature1', protectedHeader, Buffer.alloc(0), deviceAuthenticationBytes]), {
+      key: this.privateKey,
+      dsaEncoding: 'ieee-p1363',
+    });
+
+    const deviceResponse = new Map<string, unknown>([
+      ['version', '1.0'],
+      [
+        'documents',
+        [
+          new Map<string, unknown>([
+            ['docType', docType],
+            ['issuerSigned', new Map<string, unknown>([['nameSpaces', nameSpaces], ['issuerAuth', issuerAuth]])],
+            [
+              'deviceSigned',
+              new Map<string, unknown>([
+                ['nameSpaces', deviceNameSpaces],
+                ['deviceAuth', new Map([['deviceSignature', [protectedHeader, new Map(), null, signature]]])],
+              ]),
+            ],
+          ]),
+        ],
+      ],
+      ['status', 0],
+    ]);
+    return encodeCbor(deviceResponse).toString('base64url');
+  }
+
+  /**
+   * Encrypt response parameters to the verifier's key (ECDH-ES with an AES-GCM enc),
+   * returning the compact JWE for the response parameter
+   */
+  encryptResponse(response: PresentationResponse, clientMetadata: Record<string, any>, options: ResponseEncryptionOptions = {}): string {
+    const jwk = options.jwk ?? clientMetadata.jwks.keys[0];
+    const enc = options.enc ?? clientMetadata.encrypted_response_enc_values_supported?.[0] ?? 'A128GCM';
+    const keyBits = parseInt(enc.slice(1, 4), 10);
+    const ephemeral = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const { kty, crv, x, y } = ephemeral.publicKey.export({ format: 'jwk' });
+
+    const header = { alg: 'ECDH-ES', enc, kid: options.kid ?? jwk.kid, epk: { kty, crv, x, y } };
+    const encodedHeader = Buffer.from(JSON.stringify(header)).toString('base64url');
+    const sharedSecret = diffieHellman({
+      privateKey: ephemeral.privateKey,
+      publicKey: createPublicKey({ key: { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y }, format: 'jwk' }),
+    });
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(`aes-${keyBits}-gcm` as 'aes-128-gcm', concatKdf(sharedSecret, enc, keyBits), iv);
+    cipher.setAAD(Buffer.from(encodedHeader, 'ascii'));
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(response)), cipher.final()]);
+    return [encodedHeader, '', iv.toString('base64url'), ciphertext.toString('base64url'), cipher.getAuthTag().toString('base64url')].join('.');
+  }
+
+  /**
+   * Post an authorization response to the response_uri (response_mode direct_post, or
+   * direct_post.jwt with only the response parameter)
+   */
+  async respond(responseUri: string, response: PresentationResponse): Promise<APIResponse> {
+    const form: Record<string, string> = {};
+    for (const [name, value] of Object.entries(response)) {
+      if (value !== undefined) {
+        form[name] = typeof value === 'string' ? value : JSON.stringify(value);
+      }
+    }
+    return this.request.post(responseUri, { form });
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Verifier API Helper
+ *
+ * Creates presentation requests at the mock verifier and follows their
+ * sessions, so specs can start a presentation, wait for the wallet to
+ * complete it and inspect what was disclosed.
+ *
+ * Sessions are driven through:
+ *   POST /presentation_request   (create a presentation request)
+ *   GET  /sessions/:id           (session state and, once completed, the result)
+ *   GET  /results/:id            (verification result of the response)
+ *
+ * or started at a relying party page, which a browser opens like a user would:
+ *   GET  /rp/cross-device        (page with the QR code of a new request)
+ *   GET  /rp/same-device         (page redirecting to the wallet)
+ *   GET  /rp/sessions/:id        (page of a session)
+ */
+
+import { APIRequestContext } from '@playwright/test';
+
+// Mock verifier URL (defaults to localhost:9001)
+const MOCK_VERIFIER_URL = process.env.MOCK_VERIFIER_URL || 'http://localhost:9001';
+
+export type ClientIdPrefix =
+  | 'redirect_uri'
+  | 'x509_san_dns'
+  | 'x509_hash'
+  | 'decentralized_identifier'
+  | 'verifier_attestation'
+  | 'openid_federation';
+
+export type RelyingPartyFlow = 'cross_device' | 'same_device';
+
+export type SessionStatus = 'created' | 'request_fetched' | 'response_received' | 'verified' | 'failed' | 'expired';
+
+// Statuses a session does not leave
+export const FINAL_SESSION_STATUSES: SessionStatus[] = ['verified', 'failed', 'expired'];
+
+export type TransactionDataType = 'payment_data' | 'qes_authorization' | 'qcert_creation_acceptance';
+
+export interface TransactionDataOptions {
+  type: TransactionDataType;
+  // Credential queries the entry applies to; every SD-JWT VC query by default
+  credential_ids?: string[];
+  transaction_data_hashes_alg?: string[];
+  // Overrides of the type-specific fields (GET /transaction_data_types)
+  [field: string]: unknown;
+}
+
+export interface PresentationRequestOptions {
+  request_uri_method?: 'get' | 'post';
+  client_id_prefix?: ClientIdPrefix;
+  response_mode?: 'direct_post' | 'direct_post.jwt';
+  // Name of a catalog query (GET /queries)
+  query?: string;
+  presentation_type?: string;
+  dcql_query?: Record<string, unknown>;
+  trusted_authorities?: { type: 'aki' | 'etsi_tl' | 'openid_federation'; values: string[] }[];
+  transaction_data?: TransactionDataOptions[];
+  expires_in?: number;
+}
+
+export interface RelyingPartyPageOptions
+  extends Omit<PresentationRequestOptions, 'presentation_type' | 'dcql_query' | 'trusted_authorities' | 'transaction_data'> {
+  // Transaction data types to confirm, with the default fields
+  transaction_data?: TransactionDataType[];
+  // Wallet the same-device page opens (default: the verifier's WALLET_URL)
+  wallet_url?: string;
+}
+
+export interface CreatedPresentationRequest {
+  request_id: string;
+  client_id: string;
+  client_id_prefix: ClientIdPrefix;
+  request_uri: string;
+  request_uri_method: 'get' | 'post';
+  response_mode: 'direct_post' | 'direct_post.jwt';
+  query?: string;
+  dcql_query: Record<string, any>;
+  // Encoded transaction_data entries, as sent to the wallet
+  transaction_data?: string[];
+  authorization_request: string;
+  expires_in: number;
+}
+
+export interface CredentialVerdict {
+  format: 'dc+sd-jwt' | 'mso_mdoc';
+  valid: boolean;
+  checks: Record<string, boolean>;
+  failures: string[];
+  issuer?: string;
+  vct?: string;
+  doctype?: string;
+  // SD-JWT VC claims, or mdoc data elements by namespace
+  claims?: Record<string, any>;
+}
+
+export interface PresentationResult {
+  request_id: string;
+  received_at: string;
+  valid: boolean;
+  checks: Record<string, boolean>;
+  failures: string[];
+  // Verdicts by credential query id
+  credentials: Record<string, CredentialVerdict[]>;
+  wallet_error?: { error: string; error_description?: string };
+}
+
+export interface PresentationSession {
+  request_id: string;
+  // Set for sessions started at a relying party page
+  flow?: RelyingPartyFlow;
+  status: SessionStatus;
+  created_at: string;
+  expires_at: string;
+  request_fetched_at?: string;
+  response_received_at?: string;
+  result?: PresentationResult;
+}
+
+/**
+ * VerifierApiHelper drives presentation sessions of the mock verifier
+ */
+export class VerifierApiHelper {
+  private request: APIRequestContext;
+  private mockVerifierUrl: string;
+
+  constructor(request: APIRequestContext, mockVerifierUrl: string = MOCK_VERIFIER_URL) {
+    this.request = request;
+    this.mockVerifierUrl = mockVerifierUrl;
+  }
+
+  /**
+   * Create a presentation request
+   */
+  async createPresentationRequest(options: PresentationRequestOptions = {}): Promise<CreatedPresentationRequest> {
+    const response = await this.request.post(`${this.mockVerifierUrl}/presentation_request`, { data: options });
+    if (!response.ok()) {
+      const error = await response.text();
+      throw new Error(`Failed to create presentation request: ${response.status()} - ${error}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * URL starting a presentation at a relying party page; opening it creates the request and
+   * redirects to the page of its session
+   */
+  relyingPartyUrl(flow: RelyingPartyFlow, options: RelyingPartyPageOptions = {}): string {
+    const query = new URLSearchParams(Object.entries(options).map(([name, value]): [string, string] => [name, String(value)])).toString();
+    const path = flow === 'cross_device' ? 'cross-device' : 'same-device';
+    return `${this.mockVerifierUrl}/rp/${path}${query ? `?${query}` : ''}`;
+  }
+
+  /**
+   * Request id of a relying party page URL
+   */
+  requestIdOfPage(pageUrl: string): string {
+    const match = new URL(pageUrl).pathname.match(/^\/rp\/sessions\/([^/]+)$/);
+    if (!match) {
+      throw new Error(`Not a relying party session page: ${pageUrl}`);
+    }
+    return decodeURIComponent(match[1]);
+  }
+
+  /**
+   * Get the state of a session
+   */
+  async getSession(requestId: string): Promise<PresentationSession> {
+    const response = await this.request.get(`${this.mockVerifierUrl}/sessions/${encodeURIComponent(requestId)}`);
+    if (!response.ok()) {
+      throw new Error(`Failed to get session ${requestId}: ${response.status()}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Get the verification result of a session, or null while no response was received
+   */
+  async getResult(requestId: string): Promise<PresentationResult | null> {
+    const response = await this.request.get(`${this.mockVerifierUrl}/results/${encodeURIComponent(requestId)}`);
+    if (response.status() === 404) {
+      return null;
+    }
+    if (!response.ok()) {
+      throw new Error(`Failed to get result ${requestId}: ${response.status()}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Poll a session until it reaches one of the statuses, by default a final one
+   */
+  async waitForStatus(
+    requestId: string,
+    statuses: SessionStatus[] = FINAL_SESSION_STATUSES,
+    options: { timeout?: number; interval?: number } = {}
+  ): Promise<PresentationSession> {
+    const { timeout = 30000, interval = 250 } = options;
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const session = await this.getSession(requestId);
+      if (statuses.includes(session.status)) {
+        return session;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Session ${requestId} did not reach ${statuses.join(' or ')} within ${timeout}ms (status: ${session.status})`);
+      }
+      await new Promise(resolve => setTimeout(resolve, interval));
+    }
+  }
+
+  /**
+   * Wait until the presentation is completed and verified, returning the verification result.
+   * Throws if the session fails or expires instead.
+   */
+  async waitForPresentation(requestId: string, options: { timeout?: number; interval?: number } = {}): Promise<PresentationResult> {
+    const session = await this.waitForStatus(requestId, FINAL_SESSION_STATUSES, options);
+    if (session.status !== 'verified') {
+      const reason = session.result?.failures.join('; ') || session.status;
+      throw new Error(`Presentation ${requestId} was not verified: ${reason}`);
+    }
+    return session.result!;
+  }
+
+  /**
+   * Decode the transaction_data entries of a request
+   */
+  transactionData(created: CreatedPresentationRequest): TransactionDataOptions[] {
+    return (created.transaction_data || []).map(entry => JSON.parse(Buffer.from(entry, 'base64url').toString('utf8')));
+  }
+
+  /**
+   * Claims disclosed for a credential query of a result, one entry per presentation
+   */
+  disclosedClaims(result: PresentationResult, credentialQueryId: string): Record<string, any>[] {
+    return (result.credentials[credentialQueryId] || []).map(verdict => verdict.claims || {});
+  }
+}
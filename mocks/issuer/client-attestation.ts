@@ -0,0 +1,162 @@
+/**
+ * OAuth 2.0 Attestation-Based Client Authentication (draft-ietf-oauth-attestation-based-client-auth)
+ * for the mock issuer
+ *
+ * The wallet presents a client attestation signed by its wallet provider in the
+ * OAuth-Client-Attestation header, and proves possession of the attested key with
+ * a PoP JWT in the OAuth-Client-Attestation-PoP header. Like key proofs, every
+ * check is evaluated so the error description lists everything that is wrong.
+ */
+
+import * as crypto from 'crypto';
+import { decodeJwt, signJwt, verifyJwtSignature, type DecodedJwt, type SigningKey } from '../shared/crypto';
+
+export const CLIENT_ATTESTATION_TYP = 'oauth-client-attestation+jwt';
+export const CLIENT_ATTESTATION_POP_TYP = 'oauth-client-attestation-pop+jwt';
+
+export type ClientAttestationCheck =
+  | 'attestation_typ'
+  | 'attestation_alg'
+  | 'attestation_signature'
+  | 'attestation_exp'
+  | 'sub'
+  | 'cnf'
+  | 'pop_typ'
+  | 'pop_alg'
+  | 'pop_signature'
+  | 'pop_iss'
+  | 'aud'
+  | 'iat'
+  | 'jti'
+  | 'client_id';
+
+export interface ClientAttestationOptions {
+  // Authorization server identifier the PoP must be addressed to
+  audience: string;
+  // Public keys of the trusted wallet providers
+  trustedKeys: crypto.JsonWebKey[];
+  // Allowed distance of the PoP iat from the current time, in seconds
+  iatWindow: number;
+  // client_id sent with the request, if any; must be the attested client
+  clientId?: string;
+  isReplayedJti: (jti: string) => boolean;
+}
+
+export interface ClientAttestationVerdict {
+  valid: boolean;
+  error_description?: string;
+  checks: Partial<Record<ClientAttestationCheck, boolean>>;
+  // Attested client_id (sub of the attestation)
+  clientId?: string;
+  attestation?: Record<string, any>;
+  pop?: Record<string, any>;
+}
+
+/**
+ * Verify the client attestation and its PoP sent with a request
+ */
+export function verifyClientAttestation(attestationJwt: unknown, popJwt: unknown, options: ClientAttestationOptions): ClientAttestationVerdict {
+  let attestation: DecodedJwt;
+  let pop: DecodedJwt;
+  try {
+    if (typeof attestationJwt !== 'string' || typeof popJwt !== 'string') {
+      throw new Error('OAuth-Client-Attestation and OAuth-Client-Attestation-PoP headers must both be sent once');
+    }
+    attestation = decodeJwt(attestationJwt);
+    pop = decodeJwt(popJwt);
+  } catch (e) {
+    return { valid: false, error_description: `Client attestation cannot be decoded: ${(e as Error).message}`, checks: {} };
+  }
+
+  const checks: Partial<Record<ClientAttestationCheck, boolean>> = {};
+  const failures: string[] = [];
+  const check = (name: ClientAttestationCheck, passed: boolean, failure: string) => {
+    checks[name] = passed;
+    if (!passed) {
+      failures.push(failure);
+    }
+  };
+  const verifies = (jwt: DecodedJwt, jwk: crypto.JsonWebKey) => {
+    try {
+      return verifyJwtSignature(jwt, jwk);
+    } catch {
+      return false;
+    }
+  };
+  const now = Math.floor(Date.now() / 1000);
+
+  check('attestation_typ', attestation.header.typ === CLIENT_ATTESTATION_TYP, `attestation typ must be ${CLIENT_ATTESTATION_TYP}, got ${attestation.header.typ}`);
+  check('attestation_alg', attestation.header.alg === 'ES256', `attestation alg must be ES256, got ${attestation.header.alg}`);
+  check(
+    'attestation_signature',
+    checks.attestation_alg! && options.trustedKeys.some(jwk => verifies(attestation, jwk)),
+    'attestation is not signed by a trusted wallet provider'
+  );
+  check('attestation_exp', typeof attestation.payload.exp === 'number' && attestation.payload.exp > now, 'attestation is expired or has no exp');
+
+  const clientId = attestation.payload.sub;
+  check('sub', typeof clientId === 'string' && clientId.length > 0, 'attestation sub (client_id) is missing');
+
+  const cnfJwk: crypto.JsonWebKey | undefined = attestation.payload.cnf?.jwk;
+  check('cnf', typeof cnfJwk === 'object' && cnfJwk !== null && !('d' in cnfJwk), 'attestation cnf.jwk must hold a public key');
+
+  check('pop_typ', pop.header.typ === CLIENT_ATTESTATION_POP_TYP, `PoP typ must be ${CLIENT_ATTESTATION_POP_TYP}, got ${pop.header.typ}`);
+  check('pop_alg', pop.header.alg === 'ES256', `PoP alg must be ES256, got ${pop.header.alg}`);
+  check('pop_signature', checks.cnf! && checks.pop_alg! && verifies(pop, cnfJwk!), 'PoP signature does not verify against the attested key');
+  check('pop_iss', pop.payload.iss === clientId, `PoP iss must be the attested client ${clientId}, got ${pop.payload.iss}`);
+
+  const aud = pop.payload.aud;
+  check('aud', aud === options.audience || (Array.isArray(aud) && aud.includes(options.audience)), `PoP aud must be ${options.audience}, got ${aud}`);
+  check(
+    'iat',
+    typeof pop.payload.iat === 'number' && Math.abs(now - pop.payload.iat) <= options.iatWindow,
+    `PoP iat must be within ${options.iatWindow}s of the current time`
+  );
+  check(
+    'jti',
+    typeof pop.payload.jti === 'string' && pop.payload.jti.length > 0 && !options.isReplayedJti(pop.payload.jti),
+    'PoP jti is missing or was already used'
+  );
+
+  if (options.clientId !== undefined) {
+    check('client_id', options.clientId === clientId, `client_id ${options.clientId} is not the attested client ${clientId}`);
+  }
+
+  const valid = failures.length === 0;
+  return {
+    valid,
+    ...(valid ? {} : { error_description: failures.join('; ') }),
+    checks,
+    clientId: typeof clientId === 'string' ? clientId : undefined,
+    attestation: attestation.payload,
+    pop: pop.payload,
+  };
+}
+
+export interface ClientAttestationIssuance {
+  walletProviderKey: SigningKey;
+  // Wallet provider identifier
+  issuer: string;
+  clientId: string;
+  // Public key of the wallet instance
+  jwk: crypto.JsonWebKey;
+  lifetimeSeconds: number;
+}
+
+/**
+ * Sign a client attestation for a wallet instance, as a wallet provider does
+ */
+export function createClientAttestation(issuance: ClientAttestationIssuance): string {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt(
+    { typ: CLIENT_ATTESTATION_TYP, kid: issuance.walletProviderKey.kid },
+    {
+      iss: issuance.issuer,
+      sub: issuance.clientId,
+      iat: now,
+      exp: now + issuance.lifetimeSeconds,
+      cnf: { jwk: issuance.jwk },
+    },
+    issuance.walletProviderKey.privateKey
+  );
+}
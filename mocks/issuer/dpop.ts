@@ -0,0 +1,121 @@
+/**
+ * DPoP proof verification (RFC 9449) for the mock issuer
+ *
+ * Like key proofs, every check is evaluated so the error description lists
+ * everything that is wrong with a proof.
+ */
+
+import * as crypto from 'crypto';
+import { base64UrlEncode, decodeJwt, jwkThumbprint, sha256, verifyJwtSignature, type DecodedJwt } from '../shared/crypto';
+
+export type DpopCheck = 'typ' | 'alg' | 'key' | 'signature' | 'htm' | 'htu' | 'iat' | 'jti' | 'ath' | 'nonce';
+
+export interface DpopVerificationOptions {
+  method: string;
+  // Target URI of the request, without query and fragment
+  url: string;
+  // Allowed distance of iat from the current time, in seconds
+  iatWindow: number;
+  // Access token presented with the proof; requires a matching ath claim
+  accessToken?: string;
+  // Omit to accept proofs without a server-provided nonce
+  isValidNonce?: (nonce: unknown) => boolean;
+  isReplayedJti: (jti: string) => boolean;
+}
+
+export interface DpopVerdict {
+  valid: boolean;
+  error?: 'invalid_dpop_proof' | 'use_dpop_nonce';
+  error_description?: string;
+  checks: Partial<Record<DpopCheck, boolean>>;
+  // RFC 7638 thumbprint of the proof key
+  jkt?: string;
+  payload?: Record<string, any>;
+}
+
+/**
+ * Verify the dpop+jwt sent in the DPoP header of a request
+ */
+export function verifyDpopProof(proof: unknown, options: DpopVerificationOptions): DpopVerdict {
+  let jwt: DecodedJwt;
+  try {
+    if (typeof proof !== 'string') {
+      throw new Error('DPoP header is missing or repeated');
+    }
+    jwt = decodeJwt(proof);
+  } catch (e) {
+    return {
+      valid: false,
+      error: 'invalid_dpop_proof',
+      error_description: `DPoP proof cannot be decoded: ${(e as Error).message}`,
+      checks: {},
+    };
+  }
+
+  const { header, payload } = jwt;
+  const checks: Partial<Record<DpopCheck, boolean>> = {};
+  const failures: string[] = [];
+  const check = (name: DpopCheck, passed: boolean, failure: string) => {
+    checks[name] = passed;
+    if (!passed) {
+      failures.push(failure);
+    }
+  };
+
+  check('typ', header.typ === 'dpop+jwt', `typ must be dpop+jwt, got ${header.typ}`);
+  check('alg', header.alg === 'ES256', `alg must be ES256, got ${header.alg}`);
+
+  const jwk: crypto.JsonWebKey | undefined = header.jwk;
+  check('key', typeof jwk === 'object' && jwk !== null && !('d' in jwk), 'jwk header must hold a public key');
+
+  let signatureValid = false;
+  if (checks.key && checks.alg) {
+    try {
+      signatureValid = verifyJwtSignature(jwt, jwk!);
+    } catch {
+      signatureValid = false;
+    }
+  }
+  check('signature', signatureValid, 'signature does not verify against the jwk header');
+
+  check('htm', payload.htm === options.method, `htm must be ${options.method}, got ${payload.htm}`);
+  check('htu', payload.htu === options.url, `htu must be ${options.url}, got ${payload.htu}`);
+
+  const now = Math.floor(Date.now() / 1000);
+  check(
+    'iat',
+    typeof payload.iat === 'number' && Math.abs(now - payload.iat) <= options.iatWindow,
+    `iat must be within ${options.iatWindow}s of the current time`
+  );
+
+  check(
+    'jti',
+    typeof payload.jti === 'string' && payload.jti.length > 0 && !options.isReplayedJti(payload.jti),
+    'jti is missing or was already used'
+  );
+
+  if (options.accessToken !== undefined) {
+    const ath = base64UrlEncode(sha256(options.accessToken));
+    check('ath', payload.ath === ath, 'ath does not match the access token');
+  }
+
+  if (options.isValidNonce) {
+    check('nonce', options.isValidNonce(payload.nonce), 'nonce is missing, unknown or expired');
+  }
+
+  const valid = failures.length === 0;
+  // A proof that is only missing a fresh server nonce gets use_dpop_nonce so the client retries with one
+  const onlyNonceFailed = failures.length === 1 && checks.nonce === false;
+  return {
+    valid,
+    ...(valid
+      ? {}
+      : {
+          error: onlyNonceFailed ? 'use_dpop_nonce' : 'invalid_dpop_proof',
+          error_description: failures.join('; '),
+        }),
+    checks,
+    ...(signatureValid ? { jkt: jwkThumbprint(jwk!) } : {}),
+    payload,
+  };
+}
@@ -2,9 +2,36 @@
  * Mock Issuer Service for E2E Testing
  *
  * Simulates an OpenID4VCI credential issuer with:
- * - /.well-known/openid-credential-issuer endpoint
+ * - /.well-known/openid-credential-issuer endpoint, optionally with signed_metadata
  * - /.well-known/oauth-authorization-server endpoint
+ * - /.well-known/jwt-vc-issuer endpoint publishing the SD-JWT VC signing key
  * - /mdoc_iacas endpoint for IACA certificates
+ * - /metadata_trust_anchors endpoint for the root certificate of the metadata signer
+ * - the logos referenced by the display metadata (/logo.png, /pid-logo.png, ...)
+ * - /offers endpoint minting credential offers, by value or by reference, with their
+ *   openid-credential-offer:// deep link and QR code (/offers/{id}, /offers/{id}/qr.png)
+ * - /par and /authorize endpoints for the authorization code flow with PKCE
+ * - /token endpoint for the pre-authorized and authorization code grants,
+ *   issuing DPoP-bound access tokens when the request carries a DPoP proof
+ * - attestation-based client authentication (OAuth-Client-Attestation and
+ *   OAuth-Client-Attestation-PoP headers) at /par and /token
+ * - /credential endpoint issuing credentials for valid access tokens and key proofs,
+ *   one instance per proof when a batch of proofs is sent
+ * - /deferred_credential endpoint delivering credentials whose issuance was deferred
+ * - /notification endpoint receiving credential_accepted, credential_failure and credential_deleted events
+ * - /nonce endpoint handing out c_nonce values for key proofs
+ * - /status-lists/1 endpoint publishing the Token Status List of all issued credentials (JWT or CWT)
+ * - /admin/status endpoint listing and changing credential statuses (valid, invalid, suspended)
+ * - /debug/wallet-attestations endpoint signing client attestations with the built-in wallet provider key
+ * - /debug/proofs endpoint exposing the verdict of every key proof verification
+ * - /debug/notifications endpoint exposing the notification events received
+ * - /__control API switching the scenario at runtime (see scenario.ts): dropped endpoints,
+ *   malformed metadata, injected latency and 5xx, credential configurations and all the
+ *   settings below except PORT and ISSUER_ID
+ * - /admin/issuers endpoint creating and deleting virtual issuers, each served under
+ *   /issuers/{name} with its own metadata, keys, stores and trust status. Their
+ *   metadata is also found at /.well-known/{document}/issuers/{name}; only trusted
+ *   virtual issuers have a metadata signer chaining to /metadata_trust_anchors
  *
  * Usage:
  *   npx ts-node mocks/issuer/index.ts
@@ -13,125 +40,1902 @@
  *   PORT - Server port (default: 9000)
  *   ISSUER_ID - Issuer identifier URL (default: http://localhost:9000)
  *   INCLUDE_IACA - Whether to include IACA certificates (default: true)
+ *   SIGNED_METADATA - Add signed_metadata to the credential issuer metadata (default: false)
+ *   PRE_AUTHORIZED_CODE_LIFETIME - Pre-authorized code lifetime in seconds (default: 300)
+ *   TX_CODE_MAX_ATTEMPTS - Wrong tx_code attempts before a pre-authorized code is locked (default: 3)
+ *   ACCESS_TOKEN_LIFETIME - Access token lifetime in seconds (default: 300)
+ *   C_NONCE_LIFETIME - c_nonce lifetime in seconds (default: 300)
+ *   LEGACY_C_NONCE - Also return c_nonce in token, credential and error responses (default: true)
+ *   BATCH_SIZE - Maximum number of proofs, and so credential instances, per credential request (default: 5)
+ *   PROOF_IAT_WINDOW - Allowed clock difference for key proof and DPoP proof iat in seconds (default: 300)
+ *   DPOP_MODE - optional (bearer tokens unless a DPoP proof is sent) or required (default: optional)
+ *   DPOP_NONCE - Require a server-provided nonce in DPoP proofs (default: true)
+ *   CLIENT_ATTESTATION_MODE - optional (verified when sent) or required (default: optional)
+ *   WALLET_PROVIDER_JWKS - JWKS (or single JWK) of trusted wallet providers (default: the built-in wallet provider key)
+ *   REDIRECT_URIS - Comma-separated redirect URIs accepted at /par (default: http://localhost:3000/)
+ *   AUTHORIZE_MODE - auto (redirect immediately), consent (render consent page) or deny (default: auto)
+ *   DEFERRED_ISSUANCE - Defer every credential request to the deferred credential endpoint (default: false)
+ *   DEFERRED_PENDING_COUNT - Deferred credential requests answered with issuance_pending before delivery (default: 2)
+ *   DEFERRED_INTERVAL - Polling interval in seconds suggested to the wallet (default: 5)
+ *   CONTROL_TOKEN - Bearer token required by the /__control API (default: mock-issuer-control)
  */
 
+import * as crypto from 'crypto';
 import * as http from 'http';
+import { verifyClientAttestation, createClientAttestation } from './client-attestation';
+import { base64UrlEncode, generateSigningKey, randomCode, randomToken, sha256, signJwt } from '../shared/crypto';
+import { fullDate } from '../shared/cbor';
+import { issueMdoc } from './mdoc';
+import { verifyDpopProof } from './dpop';
+import { createIssuerKeys, createRootCertificateAuthority, type IssuerKeys } from './issuer-keys';
+import { encodePng, parseHexColor } from '../shared/png';
+import { verifyKeyProof, type ProofVerdict } from './proof';
+import { qrCodePng } from '../shared/qr';
+import { applyScenarioPatch, matchesPath, scenarioFromEnv, type MalformedMetadata, type Scenario } from './scenario';
+import { issueSdJwt } from './sd-jwt';
+import { allocateStatusIndex, statusListCwt, statusListJwt, STATUS_VALUES, type StatusList, type StatusName } from './status-list';
+import { toPem } from '../shared/x509';
 
 const PORT = parseInt(process.env.PORT || '9000', 10);
 const ISSUER_ID = process.env.ISSUER_ID || `http://localhost:${PORT}`;
-const INCLUDE_IACA = process.env.INCLUDE_IACA !== 'false';
-
-// Test IACA certificate (self-signed for testing)
-const TEST_IACA_CERTIFICATE = `-----BEGIN CERTIFICATE-----
-MIICojCCAimgAwIBAgIUFakeIacaCertificateForTesting123456Aww0GCSqGSIb3DQEBCwUA
-MFoxCzAJBgNVBAYTAlVTMRMwEQYDVQQIDApXYXNoaW5ndG9uMRAwDgYDVQQHDAdT
-ZWF0dGxlMRAwDgYDVQQKDAdUZXN0IENBMR IwEAYDVQQDDAlUZXN0IFJPT1QwHhcN
-MjQwMTAxMDAwMDAwWhcNMjUwMTAxMDAwMDAwWjBaMQswCQYDVQQGEwJVUzETMBEG
-A1UECAwKV2FzaGluZ3RvbjEQMA4GA1UEBwwHU2VhdHRsZTEQMA4GA1UECgwHVGVz
-dCBDQTESMBAGA1UEAwwJVGVzdCBJQUNBMIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8A
-MIIBCgKCAQEA0VX7fL1r7sP2aDe0ZzCJN5E3UcSPLAT9pM5tWiPW+nLqmJ9nHFrY
-dU3w9H+k7rSJk5bXnV1K2R3YJh0PkHqYpMl/zs+9pPyJ3Td6E8EChJjS4KL+D5bQ
-w3S8xJk0bFMYwAFJ9Y4bJ8lM6pV4RZ0nH5cJpMqY8H9FjJQH0S2JkK9xX5mLBw+1
-TnQ2pXr8pJ2P0yLM9xJfHcR8RpKjK2n3Z4R2dJpQJ8K9xLJ0dJ3V4mJz5H9rJQPm
-KDQJQ2R3dM5kpJk4rJ2L4xJ4dM5rJQPmKDQJQ2R3dM5kpJk4rJ2L4xJ4dM5rJQPm
-KDQJQ2R3dM5kpJk4rJ2L4xJ4dM5rJQPmKDQJQ2R3dM5kpJk4rwIDAQABo4IBADCC
-APwwCQYDVR0TBAIwADALBgNVHQ8EBAMCBaAwHQYDVR0OBBYEFEFakeTestCertifi
-cateForTestingMB8GA1UdIwQYMBaAFEFakeTestCertificateForTestingMA0GCSqG
-SIb3DQEBCwUAA4IBAQBfakeSignatureDataForTestPurposesOnly123456789
------END CERTIFICATE-----`;
-
-// Credential issuer metadata
-const credentialIssuerMetadata = {
-  credential_issuer: ISSUER_ID,
-  authorization_servers: [`${ISSUER_ID}`],
-  credential_endpoint: `${ISSUER_ID}/credential`,
-  batch_credential_endpoint: `${ISSUER_ID}/batch_credential`,
-  deferred_credential_endpoint: `${ISSUER_ID}/deferred_credential`,
-  display: [
+const WALLET_PROVIDER_JWKS = process.env.WALLET_PROVIDER_JWKS;
+const CONTROL_TOKEN = process.env.CONTROL_TOKEN || 'mock-issuer-control';
+
+// Behavior that specs can change at runtime through /__control; the environment sets the defaults
+const defaultScenario = scenarioFromEnv(process.env);
+let scenario: Scenario = structuredClone(defaultScenario);
+
+// Lifetimes of PAR request URIs and authorization codes, in seconds
+const REQUEST_URI_LIFETIME = 60;
+const AUTHORIZATION_CODE_LIFETIME = 60;
+
+// Lifetime of server-provided DPoP nonces, in seconds
+const DPOP_NONCE_LIFETIME = 300;
+
+// Validity of client attestations signed by the built-in wallet provider, in seconds
+const CLIENT_ATTESTATION_LIFETIME = 24 * 60 * 60;
+
+// Validity of issued credentials, in seconds
+const CREDENTIAL_LIFETIME = 365 * 24 * 60 * 60;
+
+// The status list token is signed on every request, so status changes are visible immediately
+const STATUS_LIST_PATH = '/status-lists/1';
+const STATUS_LIST_TOKEN_LIFETIME = 300;
+
+const PRE_AUTHORIZED_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+
+// Trust anchor of the signed credential issuer metadata, shared by every trusted issuer
+const metadataTrustAnchor = createRootCertificateAuthority({
+  country: 'UT',
+  organization: 'Test Trust Framework',
+  commonName: 'Test Metadata Trust Anchor',
+});
+
+// Locales of all display metadata; wallets pick the one matching the user's language
+type Localized = Record<'en-US' | 'de-DE' | 'fr-FR' | 'sv-SE', string>;
+
+interface LogoStyle {
+  background_color: string;
+  text_color: string;
+}
+
+// Logos served by the mock, by file name; each is a colored tile in the style of its credential
+const logos: Record<string, LogoStyle> = {
+  'logo.png': { background_color: '#1f6f43', text_color: '#FFFFFF' },
+  'pid-logo.png': { background_color: '#12107c', text_color: '#FFFFFF' },
+  'mdl-logo.png': { background_color: '#8a1538', text_color: '#FFFFFF' },
+  'ehic-logo.png': { background_color: '#003399', text_color: '#FFCC00' },
+};
+
+/**
+ * Display entries for every locale, sharing the logo and colors of the file's style.
+ * Logos are served by each issuer under its own identifier.
+ */
+function localizedDisplay(issuer: IssuerContext, names: Localized, logo: string, colors = true) {
+  return Object.entries(names).map(([locale, name]) => ({
+    name,
+    locale,
+    logo: { uri: `${issuer.issuerId}/${logo}`, alt_text: name },
+    ...(colors ? logos[logo] : {}),
+  }));
+}
+
+/**
+ * Render a logo: a tile in the background color with a disc in the text color
+ */
+function renderLogo(style: LogoStyle, size = 96): Buffer {
+  const background = parseHexColor(style.background_color);
+  const foreground = parseHexColor(style.text_color);
+  const center = (size - 1) / 2;
+  return encodePng(size, size, (x, y) =>
+    Math.hypot(x - center, y - center) < size / 4 ? foreground : background
+  );
+}
+
+const logoImages: Record<string, Buffer> = Object.fromEntries(
+  Object.entries(logos).map(([file, style]) => [file, renderLogo(style)])
+);
+
+interface CredentialConfiguration {
+  format: 'mso_mdoc' | 'dc+sd-jwt';
+  doctype?: string;
+  vct?: string;
+  scope: string;
+  cryptographic_binding_methods_supported?: string[];
+  credential_signing_alg_values_supported: string[];
+  proof_types_supported?: Record<string, { proof_signing_alg_values_supported: string[] }>;
+  display: Record<string, unknown>[];
+  claims?: Record<string, unknown>[];
+}
+
+// A supported credential configuration, with the display names and logo file it is shown with
+type CredentialConfigurationTemplate = Omit<CredentialConfiguration, 'display'> & {
+  display: { names: Localized; logo: string };
+};
+
+function claimMetadata(path: string[], name: string, mandatory = false) {
+  return { path, mandatory, display: [{ name, locale: 'en-US' }] };
+}
+
+// Supported credential configurations, keyed by credential_configuration_id
+const credentialConfigurations: Record<string, CredentialConfigurationTemplate> = {
+  'eu.europa.ec.eudi.pid.1': {
+    format: 'mso_mdoc',
+    doctype: 'eu.europa.ec.eudi.pid.1',
+    scope: 'eu.europa.ec.eudi.pid.1',
+    cryptographic_binding_methods_supported: ['cose_key'],
+    credential_signing_alg_values_supported: ['ES256'],
+    proof_types_supported: {
+      jwt: {
+        proof_signing_alg_values_supported: ['ES256'],
+      },
+    },
+    display: {
+      names: {
+        'en-US': 'EU Digital Identity',
+        'de-DE': 'EU-Digitale Identität',
+        'fr-FR': 'Identité numérique européenne',
+        'sv-SE': 'EU:s digitala identitet',
+      },
+      logo: 'pid-logo.png',
+    },
+  },
+  'org.iso.18013.5.1.mDL': {
+    format: 'mso_mdoc',
+    doctype: 'org.iso.18013.5.1.mDL',
+    scope: 'org.iso.18013.5.1.mDL',
+    cryptographic_binding_methods_supported: ['cose_key'],
+    credential_signing_alg_values_supported: ['ES256'],
+    proof_types_supported: {
+      jwt: {
+        proof_signing_alg_values_supported: ['ES256'],
+      },
+    },
+    display: {
+      names: {
+        'en-US': "Mobile Driver's License",
+        'de-DE': 'Mobiler Führerschein',
+        'fr-FR': 'Permis de conduire mobile',
+        'sv-SE': 'Mobilt körkort',
+      },
+      logo: 'mdl-logo.png',
+    },
+  },
+  'eu.europa.ec.eudi.pid_vc_sd_jwt': {
+    format: 'dc+sd-jwt',
+    vct: 'urn:eudi:pid:1',
+    scope: 'eu.europa.ec.eudi.pid_vc_sd_jwt',
+    cryptographic_binding_methods_supported: ['jwk'],
+    credential_signing_alg_values_supported: ['ES256'],
+    proof_types_supported: {
+      jwt: {
+        proof_signing_alg_values_supported: ['ES256'],
+      },
+    },
+    display: {
+      names: {
+        'en-US': 'EU Digital Identity (SD-JWT)',
+        'de-DE': 'EU-Digitale Identität (SD-JWT)',
+        'fr-FR': 'Identité numérique européenne (SD-JWT)',
+        'sv-SE': 'EU:s digitala identitet (SD-JWT)',
+      },
+      logo: 'pid-logo.png',
+    },
+    claims: [
+      claimMetadata(['given_name'], 'Given name', true),
+      claimMetadata(['family_name'], 'Family name', true),
+      claimMetadata(['birthdate'], 'Date of birth', true),
+      claimMetadata(['nationalities'], 'Nationalities'),
+      claimMetadata(['address'], 'Address'),
+      claimMetadata(['address', 'street_address'], 'Street address'),
+      claimMetadata(['address', 'locality'], 'Locality'),
+      claimMetadata(['address', 'postal_code'], 'Postal code'),
+      claimMetadata(['address', 'country'], 'Country'),
+      claimMetadata(['age_equal_or_over', '18'], 'Age over 18'),
+    ],
+  },
+  'eu.europa.ec.eudi.ehic_vc_sd_jwt': {
+    format: 'dc+sd-jwt',
+    vct: 'urn:eudi:ehic:1',
+    scope: 'eu.europa.ec.eudi.ehic_vc_sd_jwt',
+    cryptographic_binding_methods_supported: ['jwk'],
+    credential_signing_alg_values_supported: ['ES256'],
+    proof_types_supported: {
+      jwt: {
+        proof_signing_alg_values_supported: ['ES256'],
+      },
+    },
+    display: {
+      names: {
+        'en-US': 'European Health Insurance Card',
+        'de-DE': 'Europäische Krankenversicherungskarte',
+        'fr-FR': "Carte européenne d'assurance maladie",
+        'sv-SE': 'Europeiskt sjukförsäkringskort',
+      },
+      logo: 'ehic-logo.png',
+    },
+    claims: [
+      claimMetadata(['personal_administrative_number'], 'Personal administrative number', true),
+      claimMetadata(['issuing_authority', 'id'], 'Issuing authority ID'),
+      claimMetadata(['issuing_authority', 'name'], 'Issuing authority'),
+      claimMetadata(['issuing_country'], 'Issuing country'),
+      claimMetadata(['date_of_expiry'], 'Expiry date'),
+    ],
+  },
+};
+
+/**
+ * Credential configurations of an issuer in the current scenario: the selected ones, with their overrides merged in
+ */
+function activeCredentialConfigurations(issuer: IssuerContext): Record<string, CredentialConfiguration> {
+  const ids = scenario.credential_configuration_ids ?? Object.keys(credentialConfigurations);
+  return Object.fromEntries(
+    ids
+      .filter(id => Object.prototype.hasOwnProperty.call(credentialConfigurations, id))
+      .filter(id => !issuer.credentialConfigurationIds || issuer.credentialConfigurationIds.includes(id))
+      .map(id => {
+        const { display, ...configuration } = credentialConfigurations[id];
+        return [
+          id,
+          { ...configuration, display: localizedDisplay(issuer, display.names, display.logo), ...scenario.credential_configuration_overrides[id] },
+        ];
+      })
+  );
+}
+
+/**
+ * Credential issuer metadata
+ */
+const credentialIssuerMetadata = (issuer: IssuerContext) => ({
+  credential_issuer: issuer.issuerId,
+  authorization_servers: [`${issuer.issuerId}`],
+  credential_endpoint: `${issuer.issuerId}/credential`,
+  nonce_endpoint: `${issuer.issuerId}/nonce`,
+  batch_credential_issuance: {
+    batch_size: scenario.batch_size,
+  },
+  deferred_credential_endpoint: `${issuer.issuerId}/deferred_credential`,
+  notification_endpoint: `${issuer.issuerId}/notification`,
+  display: localizedDisplay(issuer, issuer.displayName, 'logo.png', false),
+  credential_configurations_supported: activeCredentialConfigurations(issuer),
+  // mdoc_iacas_uri points to the IACA certificates endpoint
+  ...(scenario.include_iaca ? { mdoc_iacas_uri: `${issuer.issuerId}/mdoc_iacas` } : {}),
+});
+
+/**
+ * OAuth authorization server metadata
+ */
+const authorizationServerMetadata = (issuer: IssuerContext) => ({
+  issuer: issuer.issuerId,
+  authorization_endpoint: `${issuer.issuerId}/authorize`,
+  token_endpoint: `${issuer.issuerId}/token`,
+  pushed_authorization_request_endpoint: `${issuer.issuerId}/par`,
+  require_pushed_authorization_requests: true,
+  response_types_supported: ['code'],
+  response_modes_supported: ['query'],
+  grant_types_supported: ['authorization_code', PRE_AUTHORIZED_GRANT_TYPE],
+  code_challenge_methods_supported: ['S256'],
+  authorization_response_iss_parameter_supported: true,
+  token_endpoint_auth_methods_supported:
+    scenario.client_attestation_mode === 'required' ? ['attest_jwt_client_auth'] : ['attest_jwt_client_auth', 'none'],
+  client_attestation_signing_alg_values_supported: ['ES256'],
+  client_attestation_pop_signing_alg_values_supported: ['ES256'],
+  scopes_supported: Object.values(activeCredentialConfigurations(issuer)).map(configuration => configuration.scope),
+  dpop_signing_alg_values_supported: ['ES256'],
+});
+
+/**
+ * Send the credential issuer metadata broken the way the scenario asks for
+ */
+function sendMalformedMetadata(issuer: IssuerContext, res: http.ServerResponse, kind: MalformedMetadata) {
+  const metadata = credentialIssuerMetadata(issuer);
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  switch (kind) {
+    case 'invalid_json':
+      // Truncated in the middle of the document
+      res.end(JSON.stringify(metadata, null, 2).slice(0, 120));
+      break;
+    case 'missing_fields': {
+      const { credential_endpoint, credential_configurations_supported, ...rest } = metadata;
+      res.end(JSON.stringify(rest, null, 2));
+      break;
+    }
+    case 'wrong_issuer':
+      res.end(JSON.stringify({ ...metadata, credential_issuer: 'https://wrong-issuer.example' }, null, 2));
+      break;
+  }
+}
+
+/**
+ * signed_metadata: the metadata as JWT claims, signed by a certificate chained to the metadata trust anchor
+ */
+function signCredentialIssuerMetadata(issuer: IssuerContext): string {
+  return signJwt(
+    {
+      typ: 'openid-credential-issuer-metadata+jwt',
+      x5c: [issuer.keys.metadataSignerCertificate.toString('base64')],
+    },
+    { ...credentialIssuerMetadata(issuer), iss: issuer.issuerId, sub: issuer.issuerId, iat: nowSeconds() },
+    issuer.keys.metadataSignerKey.privateKey
+  );
+}
+
+/**
+ * IACA certificates response
+ */
+const iacaCertificates = (issuer: IssuerContext) => ({
+  certificates: [toPem(issuer.keys.iaca.certificate)],
+  metadata: {
+    issuer: issuer.issuerId,
+    updated: issuer.createdAt,
+  },
+});
+
+// Test subject whose attributes are put into every issued credential
+const TEST_SUBJECT = {
+  given_name: 'Erika',
+  family_name: 'Mustermann',
+  birth_date: '1964-08-12',
+  nationality: 'DE',
+  issuing_country: 'DE',
+  document_number: 'T22000129',
+};
+
+// SD-JWT VC claims of the test subject, keyed by vct
+const SD_JWT_CLAIMS: Record<string, Record<string, unknown>> = {
+  'urn:eudi:pid:1': {
+    given_name: TEST_SUBJECT.given_name,
+    family_name: TEST_SUBJECT.family_name,
+    birthdate: TEST_SUBJECT.birth_date,
+    nationalities: [TEST_SUBJECT.nationality],
+    address: {
+      street_address: 'Heidestrasse 17',
+      locality: 'Koeln',
+      postal_code: '51147',
+      country: 'DE',
+    },
+    age_equal_or_over: { '18': true },
+  },
+  'urn:eudi:ehic:1': {
+    personal_administrative_number: '80276001234567890',
+    issuing_authority: { id: 'DE-101575519', name: 'Test Health Insurance' },
+    issuing_country: TEST_SUBJECT.issuing_country,
+    date_of_expiry: '2030-12-31',
+  },
+};
+
+// mdoc data elements of the test subject, keyed by doctype and then namespace
+const MDOC_NAMESPACES: Record<string, Record<string, Record<string, unknown>>> = {
+  'eu.europa.ec.eudi.pid.1': {
+    'eu.europa.ec.eudi.pid.1': {
+      family_name: TEST_SUBJECT.family_name,
+      given_name: TEST_SUBJECT.given_name,
+      birth_date: fullDate(TEST_SUBJECT.birth_date),
+      age_over_18: true,
+      nationality: TEST_SUBJECT.nationality,
+      issuing_authority: 'Test Issuer',
+      issuing_country: TEST_SUBJECT.issuing_country,
+      issuance_date: fullDate('2025-01-01'),
+      expiry_date: fullDate('2030-12-31'),
+    },
+  },
+  'org.iso.18013.5.1.mDL': {
+    'org.iso.18013.5.1': {
+      family_name: TEST_SUBJECT.family_name,
+      given_name: TEST_SUBJECT.given_name,
+      birth_date: fullDate(TEST_SUBJECT.birth_date),
+      issue_date: fullDate('2025-01-01'),
+      expiry_date: fullDate('2030-12-31'),
+      issuing_country: TEST_SUBJECT.issuing_country,
+      issuing_authority: 'Test Issuer',
+      document_number: TEST_SUBJECT.document_number,
+      driving_privileges: [
+        { vehicle_category_code: 'B', issue_date: fullDate('2025-01-01'), expiry_date: fullDate('2030-12-31') },
+      ],
+      un_distinguishing_sign: 'D',
+      age_over_18: true,
+    },
+  },
+};
+
+// Built-in wallet provider, signing client attestations for test wallets through /debug/wallet-attestations
+const walletProviderKey = generateSigningKey();
+
+/**
+ * Public keys of the wallet providers whose client attestations are accepted
+ */
+function trustedWalletProviderKeys(): crypto.JsonWebKey[] {
+  if (!WALLET_PROVIDER_JWKS) {
+    return [walletProviderKey.publicJwk];
+  }
+  const jwks = JSON.parse(WALLET_PROVIDER_JWKS);
+  return Array.isArray(jwks.keys) ? jwks.keys : [jwks];
+}
+
+const walletProviderKeys = trustedWalletProviderKeys();
+
+// How a deferred issuance behaves: pendingCount polls are answered with issuance_pending
+interface DeferredIssuance {
+  pendingCount: number;
+  interval: number;
+}
+
+interface TxCode {
+  length: number;
+  input_mode: 'numeric' | 'text';
+  description?: string;
+}
+
+interface CredentialOfferOptions {
+  credentialConfigurationIds: string[];
+  grantTypes: string[];
+  txCode?: TxCode;
+  // The transaction code the user has to enter, sent out of band
+  txCodeValue?: string;
+  deferred?: DeferredIssuance;
+}
+
+interface CredentialOffer {
+  credential_issuer: string;
+  credential_configuration_ids: string[];
+  grants: Record<string, Record<string, unknown>>;
+}
+
+interface StoredCredentialOffer {
+  id: string;
+  credentialOffer: CredentialOffer;
+  byReference: boolean;
+  expiresAt: number;
+}
+
+interface PreAuthorizedCode {
+  code: string;
+  credentialConfigurationIds: string[];
+  deferred?: DeferredIssuance;
+  txCode?: string;
+  failedTxCodeAttempts: number;
+  expiresAt: number;
+}
+
+interface PushedAuthorizationRequest {
+  requestUri: string;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  state?: string;
+  issuerState?: string;
+  credentialConfigurationIds: string[];
+  expiresAt: number;
+}
+
+interface AuthorizationCode {
+  code: string;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  credentialConfigurationIds: string[];
+  expiresAt: number;
+}
+
+interface AccessToken {
+  token: string;
+  credentialConfigurationIds: string[];
+  deferred?: DeferredIssuance;
+  // JWK thumbprint of the DPoP key the token is bound to; bearer token when absent
+  dpopJkt?: string;
+  expiresAt: number;
+}
+
+interface DeferredTransaction {
+  transactionId: string;
+  accessToken: string;
+  credentials: { credential: string }[];
+  notificationId: string;
+  pendingRemaining: number;
+  interval: number;
+}
+
+interface IssuedCredentials {
+  notificationId: string;
+  accessToken: string;
+  credentialConfigurationId: string;
+}
+
+const NOTIFICATION_EVENTS = ['credential_accepted', 'credential_failure', 'credential_deleted'];
+
+interface RecordedNotification {
+  timestamp: string;
+  notification_id: string;
+  credential_configuration_id: string;
+  event: string;
+  event_description?: string;
+}
+
+interface RecordedProofVerdict extends Omit<ProofVerdict, 'holderJwk'> {
+  timestamp: string;
+  credential_configuration_id: string;
+}
+
+interface StatusListEntry {
+  idx: number;
+  credential_configuration_id: string;
+  issued_at: string;
+}
+
+/**
+ * An issuer hosted by the mock: the root issuer at ISSUER_ID or a virtual issuer
+ * at ISSUER_ID/issuers/{name}, with its own identity, keys and issuance state
+ */
+interface IssuerContext {
+  // Path segment of a virtual issuer; undefined for the root issuer
+  name?: string;
+  issuerId: string;
+  displayName: Localized;
+  // Whether the metadata signer chains to the published metadata trust anchor
+  trusted: boolean;
+  // Configurations this issuer offers, within those of the scenario; all of them when undefined
+  credentialConfigurationIds?: string[];
+  createdAt: string;
+  keys: IssuerKeys;
+
+  // In-memory issuance state, keyed by the opaque values handed out to the wallet
+  credentialOffers: Map<string, StoredCredentialOffer>;
+  preAuthorizedCodes: Map<string, PreAuthorizedCode>;
+  pushedAuthorizationRequests: Map<string, PushedAuthorizationRequest>;
+  authorizationCodes: Map<string, AuthorizationCode>;
+  accessTokens: Map<string, AccessToken>;
+  cNonces: Map<string, number>;
+  deferredTransactions: Map<string, DeferredTransaction>;
+  dpopNonces: Map<string, number>;
+  // jti of accepted DPoP proofs, with the time after which their iat is out of the window anyway
+  dpopJtis: Map<string, number>;
+  // jti of accepted client attestation PoPs, likewise
+  clientAttestationJtis: Map<string, number>;
+  // Issuances the wallet can send notifications about, keyed by notification_id
+  issuedCredentials: Map<string, IssuedCredentials>;
+  // Notification events received from wallets, oldest first, for specs to inspect
+  notifications: RecordedNotification[];
+  // Verdicts of all key proof verifications, oldest first, for specs to inspect
+  proofVerdicts: RecordedProofVerdict[];
+  // Status of every issued credential instance, by status list index
+  statusList: StatusList;
+  statusListEntries: StatusListEntry[];
+}
+
+/**
+ * Create an issuer with fresh keys and empty state. Untrusted issuers get a metadata
+ * signer from a trust anchor of their own, which is never published.
+ */
+function createIssuerContext(options: {
+  name?: string;
+  issuerId: string;
+  displayName: Localized;
+  trusted: boolean;
+  credentialConfigurationIds?: string[];
+}): IssuerContext {
+  const anchor = options.trusted
+    ? metadataTrustAnchor
+    : createRootCertificateAuthority({ country: 'UT', organization: 'Untrusted Framework', commonName: 'Untrusted Metadata Trust Anchor' });
+  return {
+    ...options,
+    createdAt: new Date().toISOString(),
+    keys: createIssuerKeys(options.issuerId, options.displayName['en-US'], anchor),
+    credentialOffers: new Map(),
+    preAuthorizedCodes: new Map(),
+    pushedAuthorizationRequests: new Map(),
+    authorizationCodes: new Map(),
+    accessTokens: new Map(),
+    cNonces: new Map(),
+    deferredTransactions: new Map(),
+    dpopNonces: new Map(),
+    dpopJtis: new Map(),
+    clientAttestationJtis: new Map(),
+    issuedCredentials: new Map(),
+    notifications: [],
+    proofVerdicts: [],
+    statusList: { bits: 2, statuses: [] },
+    statusListEntries: [],
+  };
+}
+
+const rootIssuer = createIssuerContext({
+  issuerId: ISSUER_ID,
+  displayName: {
+    'en-US': 'Test Issuer',
+    'de-DE': 'Testaussteller',
+    'fr-FR': 'Émetteur de test',
+    'sv-SE': 'Testutfärdare',
+  },
+  trusted: true,
+});
+
+// Virtual issuers created through /admin/issuers, by name
+const virtualIssuers = new Map<string, IssuerContext>();
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function isCredentialConfigurationId(issuer: IssuerContext, id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(activeCredentialConfigurations(issuer), id);
+}
+
+/**
+ * Issue a fresh c_nonce that the wallet must put into its key proof
+ */
+function issueCNonce(issuer: IssuerContext): string {
+  const nonce = randomToken(16);
+  issuer.cNonces.set(nonce, nowSeconds() + scenario.c_nonce_lifetime);
+  return nonce;
+}
+
+/**
+ * c_nonce fields for responses of wallets on drafts before the nonce endpoint existed
+ */
+function legacyCNonce(issuer: IssuerContext): { c_nonce?: string; c_nonce_expires_in?: number } {
+  return scenario.legacy_c_nonce ? { c_nonce: issueCNonce(issuer), c_nonce_expires_in: scenario.c_nonce_lifetime } : {};
+}
+
+/**
+ * Check that a nonce is an unexpired c_nonce issued by this issuer
+ */
+function isValidCNonce(issuer: IssuerContext, nonce: unknown): boolean {
+  const expiresAt = typeof nonce === 'string' ? issuer.cNonces.get(nonce) : undefined;
+  return expiresAt !== undefined && expiresAt >= nowSeconds();
+}
+
+/**
+ * Deferred issuance settings for new access tokens, unless an offer asks for its own
+ */
+function defaultDeferredIssuance(): DeferredIssuance | undefined {
+  return scenario.deferred_issuance ? { pendingCount: scenario.deferred_pending_count, interval: scenario.deferred_interval } : undefined;
+}
+
+/**
+ * Issue a fresh server-provided nonce for DPoP proofs
+ */
+function issueDpopNonce(issuer: IssuerContext): string {
+  const nonce = randomToken(16);
+  issuer.dpopNonces.set(nonce, nowSeconds() + DPOP_NONCE_LIFETIME);
+  return nonce;
+}
+
+function isValidDpopNonce(issuer: IssuerContext, nonce: unknown): boolean {
+  const expiresAt = typeof nonce === 'string' ? issuer.dpopNonces.get(nonce) : undefined;
+  return expiresAt !== undefined && expiresAt >= nowSeconds();
+}
+
+function isReplayedDpopJti(issuer: IssuerContext, jti: string): boolean {
+  const expiresAt = issuer.dpopJtis.get(jti);
+  return expiresAt !== undefined && expiresAt >= nowSeconds();
+}
+
+function isReplayedClientAttestationJti(issuer: IssuerContext, jti: string): boolean {
+  const expiresAt = issuer.clientAttestationJtis.get(jti);
+  return expiresAt !== undefined && expiresAt >= nowSeconds();
+}
+
+/**
+ * Create a credential offer with the requested grants; the pre-authorized code is single use
+ */
+function createCredentialOffer(issuer: IssuerContext, options: CredentialOfferOptions): CredentialOffer {
+  const grants: Record<string, Record<string, unknown>> = {};
+
+  if (options.grantTypes.includes('authorization_code')) {
+    grants.authorization_code = { issuer_state: randomToken(16) };
+  }
+  if (options.grantTypes.includes(PRE_AUTHORIZED_GRANT_TYPE)) {
+    const code = randomToken();
+    issuer.preAuthorizedCodes.set(code, {
+      code,
+      credentialConfigurationIds: options.credentialConfigurationIds,
+      deferred: options.deferred,
+      txCode: options.txCodeValue,
+      failedTxCodeAttempts: 0,
+      expiresAt: nowSeconds() + scenario.pre_authorized_code_lifetime,
+    });
+    grants[PRE_AUTHORIZED_GRANT_TYPE] = {
+      'pre-authorized_code': code,
+      ...(options.txCode ? { tx_code: options.txCode } : {}),
+    };
+  }
+
+  return {
+    credential_issuer: issuer.issuerId,
+    credential_configuration_ids: options.credentialConfigurationIds,
+    grants,
+  };
+}
+
+/**
+ * openid-credential-offer:// deep link carrying the offer by value or by reference
+ */
+function credentialOfferDeepLink(issuer: IssuerContext, stored: StoredCredentialOffer): string {
+  return stored.byReference
+    ? `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(`${issuer.issuerId}/offers/${stored.id}`)}`
+    : `openid-credential-offer://?credential_offer=${encodeURIComponent(JSON.stringify(stored.credentialOffer))}`;
+}
+
+/**
+ * Build the credential for a configuration as the issuer advertises it, bound to the holder key
+ * if one was proven and referencing its own entry in the status list. The claims are those of the
+ * configuration's own type, also when the scenario overrides its vct or doctype.
+ */
+function issueCredential(issuer: IssuerContext, configurationId: string, holderJwk?: Record<string, unknown>): string {
+  const configuration = activeCredentialConfigurations(issuer)[configurationId];
+  const { vct, doctype } = credentialConfigurations[configurationId];
+  const idx = allocateStatusIndex(issuer.statusList);
+  issuer.statusListEntries.push({ idx, credential_configuration_id: configurationId, issued_at: new Date().toISOString() });
+  const status = { status_list: { idx, uri: `${issuer.issuerId}${STATUS_LIST_PATH}` } };
+
+  if (configuration.format === 'dc+sd-jwt') {
+    return issueSdJwt({
+      issuer: issuer.issuerId,
+      vct: configuration.vct!,
+      claims: SD_JWT_CLAIMS[vct!],
+      signingKey: issuer.keys.credentialSigningKey,
+      holderJwk,
+      lifetimeSeconds: CREDENTIAL_LIFETIME,
+      status,
+    });
+  }
+  if (!holderJwk) {
+    throw new Error('mdoc issuance requires a device key');
+  }
+  return issueMdoc({
+    docType: configuration.doctype!,
+    nameSpaces: MDOC_NAMESPACES[doctype!],
+    deviceJwk: holderJwk,
+    documentSigner: { privateKey: issuer.keys.documentSignerKey.privateKey, certificate: issuer.keys.documentSignerCertificate },
+    validFrom: new Date(),
+    validUntil: new Date(Date.now() + CREDENTIAL_LIFETIME * 1000),
+    status,
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Send an OAuth / OpenID4VCI error response
+ */
+function sendError(res: http.ServerResponse, status: number, error: string, description: string, extra: Record<string, unknown> = {}) {
+  console.log(`  -> ${status} ${error}: ${description}`);
+  sendJson(res, status, { error, error_description: description, ...extra }, { 'Cache-Control': 'no-store' });
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Parse a JSON or form-encoded request body
+ */
+async function parseBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const body = await readBody(req);
+  if (!body) {
+    return {};
+  }
+  if ((req.headers['content-type'] || '').includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+  return JSON.parse(body);
+}
+
+/**
+ * A string parameter of a request body. Throws if it is present but not a string.
+ */
+function optionalString(body: Record<string, unknown>, name: string): string | undefined {
+  const value = body[name];
+  if (value !== undefined && typeof value !== 'string') {
+    throw new Error(`${name} must be a string`);
+  }
+  return value as string | undefined;
+}
+
+/**
+ * A string array parameter of a request body. Throws if it is present but not an array of strings.
+ */
+function optionalStringArray(body: Record<string, unknown>, name: string): string[] | undefined {
+  const value = body[name];
+  if (value !== undefined && (!Array.isArray(value) || !value.every(item => typeof item === 'string'))) {
+    throw new Error(`${name} must be an array of strings`);
+  }
+  return value as string[] | undefined;
+}
+
+/**
+ * An object parameter of a request body. Throws if it is present but not an object.
+ */
+function optionalObject(body: Record<string, unknown>, name: string): Record<string, unknown> | undefined {
+  const value = body[name];
+  if (value !== undefined && (typeof value !== 'object' || value === null || Array.isArray(value))) {
+    throw new Error(`${name} must be an object`);
+  }
+  return value as Record<string, unknown> | undefined;
+}
+
+/**
+ * POST /offers - mint a credential offer and return it with its deep link and QR code.
+ * `grant_types` selects the pre-authorized code (default) and/or authorization code grant,
+ * `tx_code` (true or {length, input_mode, description, value}) requires a transaction code
+ * for the pre-authorized grant, generated unless a value is given, `by_reference` passes the offer as credential_offer_uri and
+ * `deferred` (true or {pending_count, interval}) defers issuance for this offer only.
+ */
+async function handleCreateOffer(req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  const body = await parseBody(req);
+  const credentialConfigurationIds =
+    optionalStringArray(body, 'credential_configuration_ids') || Object.keys(activeCredentialConfigurations(issuer));
+
+  const unknown = credentialConfigurationIds.filter(id => !isCredentialConfigurationId(issuer, id));
+  if (credentialConfigurationIds.length === 0 || unknown.length > 0) {
+    sendError(res, 400, 'invalid_request', `Unknown credential configurations: ${unknown.join(', ') || '(none given)'}`);
+    return;
+  }
+
+  const grantTypes = optionalStringArray(body, 'grant_types') || [PRE_AUTHORIZED_GRANT_TYPE];
+  const unsupportedGrants = grantTypes.filter(grant => grant !== PRE_AUTHORIZED_GRANT_TYPE && grant !== 'authorization_code');
+  if (grantTypes.length === 0 || unsupportedGrants.length > 0) {
+    sendError(res, 400, 'invalid_request', `Unsupported grant types: ${unsupportedGrants.join(', ') || '(none given)'}`);
+    return;
+  }
+
+  let txCode: TxCode | undefined;
+  let txCodeValue: string | undefined;
+  const txCodeRequest = body.tx_code === true ? {} : body.tx_code === false ? undefined : optionalObject(body, 'tx_code');
+  if (txCodeRequest) {
+    if (!grantTypes.includes(PRE_AUTHORIZED_GRANT_TYPE)) {
+      sendError(res, 400, 'invalid_request', 'tx_code requires the pre-authorized code grant');
+      return;
+    }
+    const inputMode = txCodeRequest.input_mode ?? 'numeric';
+    if (inputMode !== 'numeric' && inputMode !== 'text') {
+      sendError(res, 400, 'invalid_request', `Unsupported tx_code input_mode: ${inputMode}`);
+      return;
+    }
+    const value = typeof txCodeRequest.value === 'string' ? txCodeRequest.value : undefined;
+    if (txCodeRequest.value !== undefined && !value) {
+      sendError(res, 400, 'invalid_request', 'tx_code value must be a non-empty string');
+      return;
+    }
+    if (value !== undefined && inputMode === 'numeric' && !/^[0-9]+$/.test(value)) {
+      sendError(res, 400, 'invalid_request', 'tx_code value must be digits for input_mode numeric');
+      return;
+    }
+    const requestedLength = typeof txCodeRequest.length === 'number' ? txCodeRequest.length : undefined;
+    if (txCodeRequest.length !== undefined && (requestedLength === undefined || !Number.isInteger(requestedLength) || requestedLength <= 0)) {
+      sendError(res, 400, 'invalid_request', 'tx_code length must be a positive integer');
+      return;
+    }
+    if (value !== undefined && requestedLength !== undefined && requestedLength !== value.length) {
+      sendError(res, 400, 'invalid_request', `tx_code length ${requestedLength} does not match the length of its value`);
+      return;
+    }
+    const length = value?.length ?? requestedLength ?? 6;
+    txCodeValue = value ?? randomCode(length, inputMode === 'numeric' ? '0123456789' : 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789');
+    txCode = {
+      length,
+      input_mode: inputMode,
+      ...(typeof txCodeRequest.description === 'string' && txCodeRequest.description ? { description: txCodeRequest.description } : {}),
+    };
+  }
+
+  let deferred = defaultDeferredIssuance();
+  const deferredRequest = body.deferred === true ? {} : body.deferred === false ? undefined : optionalObject(body, 'deferred');
+  if (deferredRequest) {
+    const { pending_count: pendingCount, interval } = deferredRequest;
+    deferred = {
+      pendingCount: typeof pendingCount === 'number' ? pendingCount : scenario.deferred_pending_count,
+      interval: typeof interval === 'number' ? interval : scenario.deferred_interval,
+    };
+  } else if (body.deferred === false) {
+    deferred = undefined;
+  }
+
+  const stored: StoredCredentialOffer = {
+    id: randomToken(16),
+    credentialOffer: createCredentialOffer(issuer, { credentialConfigurationIds, grantTypes, txCode, txCodeValue, deferred }),
+    byReference: body.by_reference === true,
+    expiresAt: nowSeconds() + scenario.pre_authorized_code_lifetime,
+  };
+  issuer.credentialOffers.set(stored.id, stored);
+
+  const { grants } = stored.credentialOffer;
+  const deepLink = credentialOfferDeepLink(issuer, stored);
+  sendJson(res, 201, {
+    credential_offer: stored.credentialOffer,
+    ...(stored.byReference ? { credential_offer_uri: `${issuer.issuerId}/offers/${stored.id}` } : {}),
+    deep_link: deepLink,
+    qr_code: `data:image/png;base64,${qrCodePng(deepLink).toString('base64')}`,
+    qr_code_uri: `${issuer.issuerId}/offers/${stored.id}/qr.png`,
+    ...(grants[PRE_AUTHORIZED_GRANT_TYPE] ? { pre_authorized_code: grants[PRE_AUTHORIZED_GRANT_TYPE]['pre-authorized_code'] } : {}),
+    ...(txCodeValue ? { tx_code_value: txCodeValue } : {}),
+    ...(grants.authorization_code ? { issuer_state: grants.authorization_code.issuer_state } : {}),
+  });
+}
+
+/**
+ * GET /offers/{id} - the offer behind a credential_offer_uri
+ * GET /offers/{id}/qr.png - QR code of the offer's deep link
+ */
+async function handleGetOffer(_req: http.IncomingMessage, res: http.ServerResponse, url: URL, issuer: IssuerContext) {
+  const [, , id, resource] = url.pathname.split('/');
+  const stored = issuer.credentialOffers.get(id);
+  if (!stored || stored.expiresAt < nowSeconds()) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Credential offer not found or expired' }));
+    return;
+  }
+
+  if (resource === 'qr.png') {
+    res.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'no-store' });
+    res.end(qrCodePng(credentialOfferDeepLink(issuer, stored)));
+    return;
+  }
+  sendJson(res, 200, stored.credentialOffer, { 'Cache-Control': 'no-store' });
+}
+
+/**
+ * Resolve the credential configurations requested through scope or authorization_details
+ */
+function resolveRequestedConfigurations(issuer: IssuerContext, body: Record<string, unknown>): string[] {
+  const configurations = activeCredentialConfigurations(issuer);
+  const requested = new Set<string>();
+
+  for (const scope of (optionalString(body, 'scope') || '').split(' ').filter(Boolean)) {
+    const id = Object.keys(configurations).find(id => configurations[id].scope === scope);
+    if (!id) {
+      throw new Error(`Unknown scope: ${scope}`);
+    }
+    requested.add(id);
+  }
+
+  if (body.authorization_details) {
+    const details: unknown = typeof body.authorization_details === 'string'
+      ? JSON.parse(body.authorization_details)
+      : body.authorization_details;
+    if (!Array.isArray(details)) {
+      throw new Error('authorization_details must be an array');
+    }
+    for (const detail of details) {
+      if (detail.type !== 'openid_credential' || !isCredentialConfigurationId(issuer, detail.credential_configuration_id)) {
+        throw new Error(`Unsupported authorization_details entry: ${JSON.stringify(detail)}`);
+      }
+      requested.add(detail.credential_configuration_id);
+    }
+  }
+
+  return [...requested];
+}
+
+/**
+ * Authenticate the client with its wallet attestation and remember the PoP jti. Returns false
+ * after sending the error response. Requests without attestation headers are public clients,
+ * which the required client attestation mode rejects.
+ */
+function authenticateClient(issuer: IssuerContext, req: http.IncomingMessage, res: http.ServerResponse, clientId?: string): boolean {
+  const attestation = req.headers['oauth-client-attestation'];
+  const pop = req.headers['oauth-client-attestation-pop'];
+  if (attestation === undefined && pop === undefined) {
+    if (scenario.client_attestation_mode === 'required') {
+      sendError(res, 401, 'invalid_client', 'Client attestation is required');
+      return false;
+    }
+    return true;
+  }
+
+  const verdict = verifyClientAttestation(attestation, pop, {
+    audience: issuer.issuerId,
+    trustedKeys: walletProviderKeys,
+    iatWindow: scenario.proof_iat_window,
+    clientId,
+    isReplayedJti: jti => isReplayedClientAttestationJti(issuer, jti),
+  });
+  if (!verdict.valid) {
+    console.log(`  -> client attestation rejected: ${verdict.error_description}`);
+    sendError(res, 401, 'invalid_client', verdict.error_description!);
+    return false;
+  }
+
+  issuer.clientAttestationJtis.set(verdict.pop!.jti, nowSeconds() + 2 * scenario.proof_iat_window);
+  console.log(`  -> client ${verdict.clientId} authenticated by wallet attestation`);
+  return true;
+}
+
+/**
+ * POST /par - store a pushed authorization request and hand out its request_uri
+ */
+async function handlePushedAuthorizationRequest(req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  const body = await parseBody(req);
+
+  const clientId = optionalString(body, 'client_id');
+  if (!clientId) {
+    sendError(res, 400, 'invalid_request', 'client_id is required');
+    return;
+  }
+  if (!authenticateClient(issuer, req, res, clientId)) {
+    return;
+  }
+  if (body.response_type !== 'code') {
+    sendError(res, 400, 'unsupported_response_type', `Unsupported response_type: ${body.response_type}`);
+    return;
+  }
+  const redirectUri = optionalString(body, 'redirect_uri') || scenario.redirect_uris[0];
+  if (!scenario.redirect_uris.includes(redirectUri)) {
+    sendError(res, 400, 'invalid_request', `redirect_uri is not registered: ${redirectUri}`);
+    return;
+  }
+  const codeChallenge = optionalString(body, 'code_challenge');
+  if (!codeChallenge || body.code_challenge_method !== 'S256') {
+    sendError(res, 400, 'invalid_request', 'PKCE with code_challenge_method S256 is required');
+    return;
+  }
+
+  let credentialConfigurationIds: string[];
+  try {
+    credentialConfigurationIds = resolveRequestedConfigurations(issuer, body);
+  } catch (e) {
+    sendError(res, 400, 'invalid_scope', (e as Error).message);
+    return;
+  }
+  if (credentialConfigurationIds.length === 0) {
+    sendError(res, 400, 'invalid_request', 'Either scope or authorization_details is required');
+    return;
+  }
+
+  const par: PushedAuthorizationRequest = {
+    requestUri: `urn:ietf:params:oauth:request_uri:${randomToken(16)}`,
+    clientId,
+    redirectUri,
+    codeChallenge,
+    state: optionalString(body, 'state'),
+    issuerState: optionalString(body, 'issuer_state'),
+    credentialConfigurationIds,
+    expiresAt: nowSeconds() + REQUEST_URI_LIFETIME,
+  };
+  issuer.pushedAuthorizationRequests.set(par.requestUri, par);
+
+  sendJson(res, 201, { request_uri: par.requestUri, expires_in: REQUEST_URI_LIFETIME }, { 'Cache-Control': 'no-store' });
+}
+
+/**
+ * Redirect back to the wallet with either an authorization code or an error
+ */
+function redirectToClient(issuer: IssuerContext, res: http.ServerResponse, par: PushedAuthorizationRequest, approved: boolean) {
+  const location = new URL(par.redirectUri);
+  if (approved) {
+    const code: AuthorizationCode = {
+      code: randomToken(),
+      clientId: par.clientId,
+      redirectUri: par.redirectUri,
+      codeChallenge: par.codeChallenge,
+      credentialConfigurationIds: par.credentialConfigurationIds,
+      expiresAt: nowSeconds() + AUTHORIZATION_CODE_LIFETIME,
+    };
+    issuer.authorizationCodes.set(code.code, code);
+    location.searchParams.set('code', code.code);
+  } else {
+    location.searchParams.set('error', 'access_denied');
+    location.searchParams.set('error_description', 'The user denied the authorization request');
+  }
+  if (par.state) {
+    location.searchParams.set('state', par.state);
+  }
+  location.searchParams.set('iss', issuer.issuerId);
+
+  console.log(`  -> redirecting to ${location.toString()}`);
+  res.writeHead(302, { Location: location.toString() });
+  res.end();
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Render a minimal consent page whose buttons post the decision back to /authorize of the issuer
+ */
+function renderConsentPage(issuer: IssuerContext, res: http.ServerResponse, par: PushedAuthorizationRequest) {
+  const credentials = par.credentialConfigurationIds.map(id => `<li>${escapeHtml(id)}</li>`).join('');
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!DOCTYPE html>
+<html>
+<head><title>Test Issuer - Authorize</title></head>
+<body>
+  <h1>Test Issuer</h1>
+  <p>${escapeHtml(par.clientId)} requests the following credentials:</p>
+  <ul>${credentials}</ul>
+  <form method="post" action="${escapeHtml(`${issuer.issuerId}/authorize`)}">
+    <input type="hidden" name="request_uri" value="${escapeHtml(par.requestUri)}">
+    <button type="submit" name="decision" value="approve" id="approve">Approve</button>
+    <button type="submit" name="decision" value="deny" id="deny">Deny</button>
+  </form>
+</body>
+</html>`);
+}
+
+/**
+ * Take a pushed authorization request out of the store, rejecting unknown or expired ones
+ */
+function consumePushedAuthorizationRequest(issuer: IssuerContext, requestUri: string | undefined): PushedAuthorizationRequest | undefined {
+  const par = requestUri ? issuer.pushedAuthorizationRequests.get(requestUri) : undefined;
+  if (!par) {
+    return undefined;
+  }
+  issuer.pushedAuthorizationRequests.delete(par.requestUri);
+  return par.expiresAt < nowSeconds() ? undefined : par;
+}
+
+/**
+ * GET /authorize - resolve the pushed request and consent according to the authorize mode
+ * POST /authorize - decision submitted from the consent page
+ */
+async function handleAuthorize(req: http.IncomingMessage, res: http.ServerResponse, url: URL, issuer: IssuerContext) {
+  if (req.method === 'POST') {
+    const body = await parseBody(req);
+    const par = consumePushedAuthorizationRequest(issuer, optionalString(body, 'request_uri'));
+    if (!par) {
+      sendError(res, 400, 'invalid_request', 'request_uri is invalid or expired');
+      return;
+    }
+    redirectToClient(issuer, res, par, body.decision === 'approve');
+    return;
+  }
+
+  const requestUri = url.searchParams.get('request_uri') || undefined;
+  if (!requestUri) {
+    sendError(res, 400, 'invalid_request', 'Pushed authorization requests are required; request_uri is missing');
+    return;
+  }
+  const par = issuer.pushedAuthorizationRequests.get(requestUri);
+  if (!par || par.expiresAt < nowSeconds() || par.clientId !== url.searchParams.get('client_id')) {
+    sendError(res, 400, 'invalid_request', 'request_uri is invalid, expired or issued to another client');
+    return;
+  }
+
+  if (scenario.authorize_mode === 'consent') {
+    renderConsentPage(issuer, res, par);
+    return;
+  }
+  consumePushedAuthorizationRequest(issuer, requestUri);
+  redirectToClient(issuer, res, par, scenario.authorize_mode !== 'deny');
+}
+
+/**
+ * Issue an access token with a fresh c_nonce for the authorized configurations
+ */
+function sendAccessToken(issuer: IssuerContext, 
+  res: http.ServerResponse,
+  credentialConfigurationIds: string[],
+  deferred: DeferredIssuance | undefined,
+  dpopJkt: string | undefined
+) {
+  const accessToken: AccessToken = {
+    token: randomToken(),
+    credentialConfigurationIds,
+    deferred,
+    dpopJkt,
+    expiresAt: nowSeconds() + scenario.access_token_lifetime,
+  };
+  issuer.accessTokens.set(accessToken.token, accessToken);
+
+  sendJson(
+    res,
+    200,
+    {
+      access_token: accessToken.token,
+      token_type: dpopJkt ? 'DPoP' : 'Bearer',
+      expires_in: scenario.access_token_lifetime,
+      ...legacyCNonce(issuer),
+      authorization_details: credentialConfigurationIds.map(id => ({
+        type: 'openid_credential',
+        credential_configuration_id: id,
+        credential_identifiers: [id],
+      })),
+    },
+    { 'Cache-Control': 'no-store' }
+  );
+}
+
+/**
+ * Send a DPoP error: 400 at the token endpoint, 401 with a DPoP challenge at protected resources.
+ * use_dpop_nonce responses carry the nonce to retry with.
+ */
+function sendDpopError(issuer: IssuerContext, res: http.ServerResponse, error: string, description: string, resource: boolean) {
+  if (error === 'use_dpop_nonce') {
+    res.setHeader('DPoP-Nonce', issueDpopNonce(issuer));
+  }
+  if (resource) {
+    res.setHeader('WWW-Authenticate', `DPoP error="${error}", error_description="${description}", algs="ES256"`);
+  }
+  sendError(res, resource ? 401 : 400, error, description);
+}
+
+/**
+ * Verify the DPoP proof of a request and remember its jti. Returns the thumbprint
+ * of the proof key, or undefined after sending the error response.
+ * Requests to protected resources pass the presented access token for the ath check.
+ */
+function verifyDpop(issuer: IssuerContext, req: http.IncomingMessage, res: http.ServerResponse, url: URL, accessToken?: string): string | undefined {
+  const verdict = verifyDpopProof(req.headers['dpop'], {
+    method: req.method || 'GET',
+    url: `${issuer.issuerId}${url.pathname}`,
+    iatWindow: scenario.proof_iat_window,
+    accessToken,
+    isValidNonce: scenario.dpop_nonce ? nonce => isValidDpopNonce(issuer, nonce) : undefined,
+    isReplayedJti: jti => isReplayedDpopJti(issuer, jti),
+  });
+  if (!verdict.valid) {
+    sendDpopError(issuer, res, verdict.error!, verdict.error_description!, accessToken !== undefined);
+    return undefined;
+  }
+
+  issuer.dpopJtis.set(verdict.payload!.jti, nowSeconds() + 2 * scenario.proof_iat_window);
+  if (scenario.dpop_nonce) {
+    res.setHeader('DPoP-Nonce', issueDpopNonce(issuer));
+  }
+  return verdict.jkt;
+}
+
+/**
+ * POST /token - exchange a pre-authorized code, or an authorization code with its
+ * PKCE verifier, for an access token and c_nonce. The token is DPoP-bound when the
+ * request carries a DPoP proof, which the required DPoP mode demands. Clients are
+ * authenticated by wallet attestation when they send one.
+ */
+async function handleToken(req: http.IncomingMessage, res: http.ServerResponse, url: URL, issuer: IssuerContext) {
+  // Checked before the code is consumed, so the client can retry after a nonce challenge
+  let dpopJkt: string | undefined;
+  if (req.headers['dpop'] !== undefined) {
+    dpopJkt = verifyDpop(issuer, req, res, url);
+    if (!dpopJkt) {
+      return;
+    }
+  } else if (scenario.dpop_mode === 'required') {
+    sendDpopError(issuer, res, 'invalid_dpop_proof', 'A DPoP proof is required', false);
+    return;
+  }
+
+  const body = await parseBody(req);
+  const clientId = optionalString(body, 'client_id');
+  if (!authenticateClient(issuer, req, res, clientId)) {
+    return;
+  }
+
+  if (body.grant_type === PRE_AUTHORIZED_GRANT_TYPE) {
+    const code = issuer.preAuthorizedCodes.get(optionalString(body, 'pre-authorized_code') ?? '');
+    if (!code || code.expiresAt < nowSeconds()) {
+      sendError(res, 400, 'invalid_grant', 'Pre-authorized code is invalid, expired, locked or already used');
+      return;
+    }
+    if (code.txCode === undefined && body.tx_code !== undefined) {
+      sendError(res, 400, 'invalid_request', 'tx_code was sent but the offer does not require one');
+      return;
+    }
+    if (code.txCode !== undefined && body.tx_code === undefined) {
+      sendError(res, 400, 'invalid_request', 'The offer requires a tx_code');
+      return;
+    }
+    if (code.txCode !== undefined && body.tx_code !== code.txCode) {
+      code.failedTxCodeAttempts++;
+      const remaining = scenario.tx_code_max_attempts - code.failedTxCodeAttempts;
+      if (remaining <= 0) {
+        // Locked: the offer cannot be redeemed any more, not even with the right code
+        issuer.preAuthorizedCodes.delete(code.code);
+        sendError(res, 400, 'invalid_grant', 'tx_code is wrong; too many failed attempts, the pre-authorized code is locked');
+        return;
+      }
+      sendError(res, 400, 'invalid_grant', `tx_code is wrong; ${remaining} attempt(s) left`);
+      return;
+    }
+    // Pre-authorized codes are single use
+    issuer.preAuthorizedCodes.delete(code.code);
+    sendAccessToken(issuer, res, code.credentialConfigurationIds, code.deferred, dpopJkt);
+    return;
+  }
+
+  if (body.grant_type === 'authorization_code') {
+    const code = issuer.authorizationCodes.get(optionalString(body, 'code') ?? '');
+    if (!code || code.expiresAt < nowSeconds()) {
+      sendError(res, 400, 'invalid_grant', 'Authorization code is invalid, expired or already used');
+      return;
+    }
+    // Authorization codes are single use, even when the exchange fails
+    issuer.authorizationCodes.delete(code.code);
+
+    if (clientId && clientId !== code.clientId) {
+      sendError(res, 400, 'invalid_grant', 'Authorization code was issued to another client');
+      return;
+    }
+    if (body.redirect_uri !== code.redirectUri) {
+      sendError(res, 400, 'invalid_grant', 'redirect_uri does not match the authorization request');
+      return;
+    }
+    const codeVerifier = optionalString(body, 'code_verifier');
+    if (!codeVerifier || base64UrlEncode(sha256(codeVerifier)) !== code.codeChallenge) {
+      sendError(res, 400, 'invalid_grant', 'PKCE verification failed');
+      return;
+    }
+    sendAccessToken(issuer, res, code.credentialConfigurationIds, defaultDeferredIssuance(), dpopJkt);
+    return;
+  }
+
+  sendError(res, 400, 'unsupported_grant_type', `Unsupported grant_type: ${body.grant_type}`);
+}
+
+/**
+ * Resolve the requested credential configuration from a credential request.
+ * Accepts credential_configuration_id, credential_identifier and the legacy format/doctype or format/vct pairs.
+ */
+function resolveCredentialConfigurationId(issuer: IssuerContext, body: Record<string, unknown>): string | undefined {
+  const requested = optionalString(body, 'credential_configuration_id') || optionalString(body, 'credential_identifier');
+  if (requested) {
+    return requested;
+  }
+  const configurations = activeCredentialConfigurations(issuer);
+  return Object.keys(configurations).find(
+    id =>
+      configurations[id].format === body.format &&
+      (body.vct ? configurations[id].vct === body.vct : configurations[id].doctype === body.doctype)
+  );
+}
+
+/**
+ * Resolve the access token of a request, answering 401 when it is missing, expired or
+ * presented without the DPoP proof it is bound to
+ */
+function authenticate(issuer: IssuerContext, req: http.IncomingMessage, res: http.ServerResponse, url: URL): AccessToken | undefined {
+  const [scheme = '', token = ''] = (req.headers['authorization'] || '').split(/\s+/, 2);
+  const accessToken = issuer.accessTokens.get(token);
+  const challenge = (accessToken?.dpopJkt || scenario.dpop_mode === 'required') ? 'DPoP' : 'Bearer';
+  const reject = (description: string) => {
+    res.setHeader('WWW-Authenticate', `${challenge} error="invalid_token"${challenge === 'DPoP' ? ', algs="ES256"' : ''}`);
+    sendError(res, 401, 'invalid_token', description);
+  };
+
+  if (!accessToken || accessToken.expiresAt < nowSeconds()) {
+    reject('Access token is missing, invalid or expired');
+    return undefined;
+  }
+  if (scheme.toLowerCase() !== challenge.toLowerCase()) {
+    reject(`Access token must be presented with the ${challenge} scheme`);
+    return undefined;
+  }
+  if (accessToken.dpopJkt) {
+    const jkt = verifyDpop(issuer, req, res, url, accessToken.token);
+    if (!jkt) {
+      return undefined;
+    }
+    if (jkt !== accessToken.dpopJkt) {
+      reject('DPoP proof key does not match the key the access token is bound to');
+      return undefined;
+    }
+  }
+  return accessToken;
+}
+
+/**
+ * POST /credential - issue a credential for a valid access token, or defer it
+ * when the access token was granted for deferred issuance
+ */
+async function handleCredential(req: http.IncomingMessage, res: http.ServerResponse, url: URL, issuer: IssuerContext) {
+  const accessToken = authenticate(issuer, req, res, url);
+  if (!accessToken) {
+    return;
+  }
+
+  const body = await parseBody(req);
+  const configurationId = resolveCredentialConfigurationId(issuer, body);
+  if (!configurationId || !isCredentialConfigurationId(issuer, configurationId)) {
+    sendError(res, 400, 'unsupported_credential_type', 'Requested credential configuration is not supported');
+    return;
+  }
+  if (!accessToken.credentialConfigurationIds.includes(configurationId)) {
+    sendError(res, 400, 'invalid_credential_request', `Access token does not cover ${configurationId}`);
+    return;
+  }
+
+  let proofJwts: unknown[] = [];
+  const proof = optionalObject(body, 'proof');
+  const proofs = optionalObject(body, 'proofs');
+  if (proof && proofs) {
+    sendError(res, 400, 'invalid_credential_request', 'Only one of proof and proofs may be present');
+    return;
+  }
+  if (proof) {
+    if (proof.proof_type !== 'jwt') {
+      sendError(res, 400, 'invalid_proof', `Unsupported proof_type: ${proof.proof_type}`, legacyCNonce(issuer));
+      return;
+    }
+    proofJwts = [proof.jwt];
+  } else if (proofs) {
+    if (!Array.isArray(proofs.jwt) || Object.keys(proofs).length !== 1) {
+      sendError(res, 400, 'invalid_proof', 'proofs must contain a jwt array and nothing else', legacyCNonce(issuer));
+      return;
+    }
+    if (proofs.jwt.length === 0 || proofs.jwt.length > scenario.batch_size) {
+      sendError(res, 400, 'invalid_credential_request', `proofs must contain between 1 and ${scenario.batch_size} proofs`);
+      return;
+    }
+    proofJwts = proofs.jwt;
+  } else if (activeCredentialConfigurations(issuer)[configurationId].cryptographic_binding_methods_supported) {
+    sendError(res, 400, 'invalid_proof', 'A key proof is required for this credential configuration', legacyCNonce(issuer));
+    return;
+  }
+
+  // One credential instance per proven key; all proofs of a batch share the same c_nonce
+  const holderJwks: (Record<string, unknown> | undefined)[] = [];
+  const usedNonces: string[] = [];
+  for (const proofJwt of proofJwts) {
+    const verdict = verifyKeyProof(proofJwt, {
+      audience: issuer.issuerId,
+      iatWindow: scenario.proof_iat_window,
+      isValidNonce: nonce => isValidCNonce(issuer, nonce),
+    });
+    const { holderJwk, ...recorded } = verdict;
+    issuer.proofVerdicts.push({ timestamp: new Date().toISOString(), credential_configuration_id: configurationId, ...recorded });
+
+    if (!verdict.valid) {
+      sendError(res, 400, verdict.error!, verdict.error_description!, legacyCNonce(issuer));
+      return;
+    }
+    holderJwks.push(holderJwk as Record<string, unknown>);
+    usedNonces.push(verdict.payload!.nonce as string);
+  }
+  // A c_nonce is accepted only once
+  for (const nonce of usedNonces) {
+    issuer.cNonces.delete(nonce);
+  }
+  if (holderJwks.length === 0) {
+    holderJwks.push(undefined);
+  }
+
+  const credentials = holderJwks.map(holderJwk => ({ credential: issueCredential(issuer, configurationId, holderJwk) }));
+  const notificationId = randomToken(16);
+  issuer.issuedCredentials.set(notificationId, {
+    notificationId,
+    accessToken: accessToken.token,
+    credentialConfigurationId: configurationId,
+  });
+
+  if (accessToken.deferred) {
+    // The credentials are ready but withheld until the wallet has polled often enough
+    const transaction: DeferredTransaction = {
+      transactionId: randomToken(16),
+      accessToken: accessToken.token,
+      credentials,
+      notificationId,
+      pendingRemaining: accessToken.deferred.pendingCount,
+      interval: accessToken.deferred.interval,
+    };
+    issuer.deferredTransactions.set(transaction.transactionId, transaction);
+    sendJson(
+      res,
+      202,
+      { transaction_id: transaction.transactionId, interval: transaction.interval, ...legacyCNonce(issuer) },
+      { 'Cache-Control': 'no-store' }
+    );
+    return;
+  }
+
+  sendJson(
+    res,
+    200,
     {
-      name: 'Test Issuer',
-      locale: 'en-US',
-      logo: {
-        uri: `${ISSUER_ID}/logo.png`,
-        alt_text: 'Test Issuer Logo',
-      },
-    },
-  ],
-  credential_configurations_supported: {
-    'eu.europa.ec.eudi.pid.1': {
-      format: 'mso_mdoc',
-      doctype: 'eu.europa.ec.eudi.pid.1',
-      scope: 'eu.europa.ec.eudi.pid.1',
-      cryptographic_binding_methods_supported: ['cose_key'],
-      credential_signing_alg_values_supported: ['ES256'],
-      proof_types_supported: {
-        jwt: {
-          proof_signing_alg_values_supported: ['ES256'],
-        },
-      },
-      display: [
-        {
-          name: 'EU Digital Identity',
-          locale: 'en-US',
-          logo: {
-            uri: `${ISSUER_ID}/pid-logo.png`,
-            alt_text: 'PID Logo',
-          },
-          background_color: '#12107c',
-          text_color: '#FFFFFF',
-        },
-      ],
+      credentials,
+      // Single credential field kept for wallets implementing earlier drafts
+      ...(credentials.length === 1 ? { credential: credentials[0].credential } : {}),
+      notification_id: notificationId,
+      ...legacyCNonce(issuer),
     },
-    'org.iso.18013.5.1.mDL': {
-      format: 'mso_mdoc',
-      doctype: 'org.iso.18013.5.1.mDL',
-      scope: 'org.iso.18013.5.1.mDL',
-      cryptographic_binding_methods_supported: ['cose_key'],
-      credential_signing_alg_values_supported: ['ES256'],
-      display: [
-        {
-          name: "Mobile Driver's License",
-          locale: 'en-US',
-        },
-      ],
+    { 'Cache-Control': 'no-store' }
+  );
+}
+
+/**
+ * POST /deferred_credential - deliver a deferred credential once its transaction is no longer pending
+ */
+async function handleDeferredCredential(req: http.IncomingMessage, res: http.ServerResponse, url: URL, issuer: IssuerContext) {
+  const accessToken = authenticate(issuer, req, res, url);
+  if (!accessToken) {
+    return;
+  }
+
+  const body = await parseBody(req);
+  const transaction = issuer.deferredTransactions.get(optionalString(body, 'transaction_id') ?? '');
+  if (!transaction || transaction.accessToken !== accessToken.token) {
+    sendError(res, 400, 'invalid_transaction_id', 'transaction_id is unknown, already redeemed or bound to another access token');
+    return;
+  }
+
+  if (transaction.pendingRemaining > 0) {
+    transaction.pendingRemaining--;
+    sendError(res, 400, 'issuance_pending', 'Credential issuance is still pending', { interval: transaction.interval });
+    return;
+  }
+
+  // A transaction is redeemed only once
+  issuer.deferredTransactions.delete(transaction.transactionId);
+  const { credentials } = transaction;
+  sendJson(
+    res,
+    200,
+    {
+      credentials,
+      ...(credentials.length === 1 ? { credential: credentials[0].credential } : {}),
+      notification_id: transaction.notificationId,
     },
-  },
-  // mdoc_iacas_uri points to the IACA certificates endpoint
-  ...(INCLUDE_IACA ? { mdoc_iacas_uri: `${ISSUER_ID}/mdoc_iacas` } : {}),
-};
+    { 'Cache-Control': 'no-store' }
+  );
+}
 
-// OAuth authorization server metadata
-const authorizationServerMetadata = {
-  issuer: ISSUER_ID,
-  authorization_endpoint: `${ISSUER_ID}/authorize`,
-  token_endpoint: `${ISSUER_ID}/token`,
-  pushed_authorization_request_endpoint: `${ISSUER_ID}/par`,
-  require_pushed_authorization_requests: true,
-  response_types_supported: ['code'],
-  response_modes_supported: ['query'],
-  grant_types_supported: ['authorization_code', 'urn:ietf:params:oauth:grant-type:pre-authorized_code'],
-  code_challenge_methods_supported: ['S256'],
-  token_endpoint_auth_methods_supported: ['none'],
-  scopes_supported: ['eu.europa.ec.eudi.pid.1', 'org.iso.18013.5.1.mDL'],
-  dpop_signing_alg_values_supported: ['ES256'],
-};
+/**
+ * POST /notification - record a wallet's notification about issued credentials
+ */
+async function handleNotification(req: http.IncomingMessage, res: http.ServerResponse, url: URL, issuer: IssuerContext) {
+  const accessToken = authenticate(issuer, req, res, url);
+  if (!accessToken) {
+    return;
+  }
 
-// IACA certificates response
-const iacaCertificates = {
-  certificates: [TEST_IACA_CERTIFICATE],
-  metadata: {
-    issuer: ISSUER_ID,
-    updated: new Date().toISOString(),
-  },
+  const body = await parseBody(req);
+  const issued = issuer.issuedCredentials.get(optionalString(body, 'notification_id') ?? '');
+  if (!issued || issued.accessToken !== accessToken.token) {
+    sendError(res, 400, 'invalid_notification_id', 'notification_id is unknown or bound to another access token');
+    return;
+  }
+  const { event } = body;
+  if (typeof event !== 'string' || !NOTIFICATION_EVENTS.includes(event)) {
+    sendError(res, 400, 'invalid_notification_request', `Unsupported event: ${event}`);
+    return;
+  }
+  const eventDescription = body.event_description;
+  if (eventDescription !== undefined && typeof eventDescription !== 'string') {
+    sendError(res, 400, 'invalid_notification_request', 'event_description must be a string');
+    return;
+  }
+
+  issuer.notifications.push({
+    timestamp: new Date().toISOString(),
+    notification_id: issued.notificationId,
+    credential_configuration_id: issued.credentialConfigurationId,
+    event,
+    ...(typeof eventDescription === 'string' ? { event_description: eventDescription } : {}),
+  });
+  res.writeHead(204);
+  res.end();
+}
+
+/**
+ * POST /nonce - hand out a fresh c_nonce
+ */
+async function handleNonce(_req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  sendJson(res, 200, { c_nonce: issueCNonce(issuer) }, { 'Cache-Control': 'no-store' });
+}
+
+/**
+ * POST /debug/nonces/expire - expire one c_nonce, or all outstanding ones when none is given,
+ * so the next proof using it is answered with invalid_nonce
+ */
+async function handleExpireNonces(req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  const body = await parseBody(req);
+  const cNonce = optionalString(body, 'c_nonce');
+  const expired = cNonce ? [cNonce].filter(nonce => issuer.cNonces.has(nonce)) : [...issuer.cNonces.keys()];
+  for (const nonce of expired) {
+    issuer.cNonces.set(nonce, 0);
+  }
+  sendJson(res, 200, { expired: expired.length });
+}
+
+/**
+ * POST /debug/wallet-attestations - sign a client attestation for a wallet instance key
+ * with the built-in wallet provider: {"client_id": "...", "jwk": {...}}
+ */
+async function handleCreateWalletAttestation(req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  const body = await parseBody(req);
+  const { client_id: clientId, jwk } = body;
+  if (typeof clientId !== 'string' || !clientId) {
+    sendError(res, 400, 'invalid_request', 'client_id is required');
+    return;
+  }
+  if (typeof jwk !== 'object' || jwk === null || 'd' in jwk) {
+    sendError(res, 400, 'invalid_request', 'jwk must be the public key of the wallet instance');
+    return;
+  }
+  sendJson(res, 200, {
+    client_attestation: createClientAttestation({
+      walletProviderKey,
+      issuer: `${ISSUER_ID}/wallet-provider`,
+      clientId,
+      jwk: jwk as crypto.JsonWebKey,
+      lifetimeSeconds: CLIENT_ATTESTATION_LIFETIME,
+    }),
+    // Attestations of the built-in wallet provider are only accepted without WALLET_PROVIDER_JWKS
+    trusted: !WALLET_PROVIDER_JWKS,
+  });
+}
+
+/**
+ * GET /debug/proofs - verdicts of all key proof verifications
+ */
+async function handleGetProofVerdicts(_req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  sendJson(res, 200, { verdicts: issuer.proofVerdicts });
+}
+
+/**
+ * DELETE /debug/proofs - forget recorded verdicts
+ */
+async function handleClearProofVerdicts(_req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  issuer.proofVerdicts.length = 0;
+  res.writeHead(204);
+  res.end();
+}
+
+/**
+ * GET /status-lists/1 - the status list token; CWT for Accept: application/statuslist+cwt, JWT otherwise
+ */
+async function handleStatusList(req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  const options = { list: issuer.statusList, uri: `${issuer.issuerId}${STATUS_LIST_PATH}`, lifetimeSeconds: STATUS_LIST_TOKEN_LIFETIME };
+  if ((req.headers['accept'] || '').includes('application/statuslist+cwt')) {
+    res.writeHead(200, { 'Content-Type': 'application/statuslist+cwt', 'Cache-Control': 'no-cache' });
+    res.end(statusListCwt({ ...options, signer: { privateKey: issuer.keys.documentSignerKey.privateKey, certificate: issuer.keys.documentSignerCertificate } }));
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': 'application/statuslist+jwt', 'Cache-Control': 'no-cache' });
+  res.end(statusListJwt({ ...options, issuer: issuer.issuerId, signingKey: issuer.keys.credentialSigningKey }));
+}
+
+function statusName(value: number): StatusName {
+  return (Object.keys(STATUS_VALUES) as StatusName[]).find(name => STATUS_VALUES[name] === value)!;
+}
+
+/**
+ * GET /admin/status - status list entries of all issued credentials
+ */
+async function handleGetStatuses(_req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  sendJson(res, 200, {
+    uri: `${issuer.issuerId}${STATUS_LIST_PATH}`,
+    entries: issuer.statusListEntries.map(entry => ({ ...entry, status: statusName(issuer.statusList.statuses[entry.idx]) })),
+  });
+}
+
+/**
+ * POST /admin/status - set the status of a credential: {"idx": 3, "status": "invalid"}
+ */
+async function handleSetStatus(req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  const body = await parseBody(req);
+  const { idx, status } = body;
+  if (typeof idx !== 'number' || !Number.isInteger(idx) || idx < 0 || idx >= issuer.statusList.statuses.length) {
+    sendError(res, 400, 'invalid_request', `idx must be the index of an issued credential (0-${issuer.statusList.statuses.length - 1})`);
+    return;
+  }
+  if (typeof status !== 'string' || !Object.prototype.hasOwnProperty.call(STATUS_VALUES, status)) {
+    sendError(res, 400, 'invalid_request', `status must be one of ${Object.keys(STATUS_VALUES).join(', ')}`);
+    return;
+  }
+  issuer.statusList.statuses[idx] = STATUS_VALUES[status as StatusName];
+  console.log(`  -> status list entry ${idx} is now ${status}`);
+  sendJson(res, 200, { idx, status });
+}
+
+/**
+ * GET /debug/notifications - notification events received from wallets
+ */
+async function handleGetNotifications(_req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  sendJson(res, 200, { notifications: issuer.notifications });
+}
+
+/**
+ * DELETE /debug/notifications - forget recorded notification events
+ */
+async function handleClearNotifications(_req: http.IncomingMessage, res: http.ServerResponse, _url: URL, issuer: IssuerContext) {
+  issuer.notifications.length = 0;
+  res.writeHead(204);
+  res.end();
+}
+
+function describeIssuer(issuer: IssuerContext) {
+  return {
+    name: issuer.name,
+    credential_issuer: issuer.issuerId,
+    display_name: issuer.displayName,
+    trusted: issuer.trusted,
+    credential_configuration_ids: Object.keys(activeCredentialConfigurations(issuer)),
+    created_at: issuer.createdAt,
+  };
+}
+
+/**
+ * GET /admin/issuers - the virtual issuers
+ */
+async function handleListIssuers(_req: http.IncomingMessage, res: http.ServerResponse) {
+  sendJson(res, 200, { issuers: [...virtualIssuers.values()].map(describeIssuer) });
+}
+
+/**
+ * POST /admin/issuers - create a virtual issuer at ISSUER_ID/issuers/{name} with its own keys and state:
+ * {"name": "acme", "display_name": "ACME" or {"en-US": ...}, "trusted": true, "credential_configuration_ids": [...]}
+ */
+async function handleCreateIssuer(req: http.IncomingMessage, res: http.ServerResponse) {
+  const body = await parseBody(req);
+  if (typeof body.name !== 'string' || !/^[a-z0-9][a-z0-9-]{0,62}$/.test(body.name)) {
+    sendError(res, 400, 'invalid_request', 'name must be lower case letters, digits and dashes');
+    return;
+  }
+  if (virtualIssuers.has(body.name)) {
+    sendError(res, 400, 'invalid_request', `Issuer ${body.name} already exists`);
+    return;
+  }
+  const trusted = body.trusted ?? true;
+  if (typeof trusted !== 'boolean') {
+    sendError(res, 400, 'invalid_request', 'trusted must be a boolean');
+    return;
+  }
+  const credentialConfigurationIds = optionalStringArray(body, 'credential_configuration_ids');
+  const unknown = (credentialConfigurationIds || []).filter(
+    id => !Object.prototype.hasOwnProperty.call(credentialConfigurations, id)
+  );
+  if (unknown.length > 0) {
+    sendError(res, 400, 'invalid_request', `Unknown credential configurations: ${unknown.join(', ')}`);
+    return;
+  }
+
+  const displayName = body.display_name ?? `Test Issuer ${body.name}`;
+  if (
+    typeof displayName !== 'string' &&
+    (typeof displayName !== 'object' || displayName === null || Array.isArray(displayName) ||
+      !Object.values(displayName).every(value => typeof value === 'string'))
+  ) {
+    sendError(res, 400, 'invalid_request', 'display_name must be a string or an object of strings by locale');
+    return;
+  }
+  const issuer = createIssuerContext({
+    name: body.name,
+    issuerId: `${ISSUER_ID}/issuers/${body.name}`,
+    displayName: typeof displayName === 'string'
+      ? { 'en-US': displayName, 'de-DE': displayName, 'fr-FR': displayName, 'sv-SE': displayName }
+      : { ...rootIssuer.displayName, ...displayName },
+    trusted,
+    credentialConfigurationIds,
+  });
+  virtualIssuers.set(body.name, issuer);
+  console.log(`  -> virtual issuer ${issuer.issuerId} created (${issuer.trusted ? 'trusted' : 'untrusted'})`);
+  sendJson(res, 201, describeIssuer(issuer));
+}
+
+/**
+ * DELETE /admin/issuers/{name} - remove a virtual issuer and all its state
+ */
+async function handleDeleteIssuer(_req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+  const name = decodeURIComponent(url.pathname.split('/').pop()!);
+  if (!virtualIssuers.delete(name)) {
+    sendError(res, 404, 'not_found', `Unknown issuer: ${name}`);
+    return;
+  }
+  res.writeHead(204);
+  res.end();
+}
+
+type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse, url: URL, issuer: IssuerContext) => Promise<void>;
+
+// Endpoints with a path parameter, which the handler reads from the URL
+const parameterizedRoutes: [RegExp, Record<string, RouteHandler>][] = [
+  [/^\/offers\/[^/]+(\/qr\.png)?$/, { GET: handleGetOffer }],
+];
+
+// Issuance flow endpoints, by path and HTTP method
+const routes: Record<string, Record<string, RouteHandler>> = {
+  '/offers': { POST: handleCreateOffer },
+  '/par': { POST: handlePushedAuthorizationRequest },
+  '/authorize': { GET: handleAuthorize, POST: handleAuthorize },
+  '/token': { POST: handleToken },
+  '/credential': { POST: handleCredential },
+  '/deferred_credential': { POST: handleDeferredCredential },
+  '/notification': { POST: handleNotification },
+  '/nonce': { POST: handleNonce },
+  [STATUS_LIST_PATH]: { GET: handleStatusList },
+  '/admin/status': { GET: handleGetStatuses, POST: handleSetStatus },
+  '/debug/nonces/expire': { POST: handleExpireNonces },
+  '/debug/wallet-attestations': { POST: handleCreateWalletAttestation },
+  '/debug/proofs': { GET: handleGetProofVerdicts, DELETE: handleClearProofVerdicts },
+  '/debug/notifications': { GET: handleGetNotifications, DELETE: handleClearNotifications },
 };
 
-function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+// Routes of the mock itself rather than of one issuer, not available under /issuers/{name}
+const mockRoutes: [RegExp, Record<string, RouteHandler>][] = [
+  [/^\/admin\/issuers$/, { GET: handleListIssuers, POST: handleCreateIssuer }],
+  [/^\/admin\/issuers\/[^/]+$/, { DELETE: handleDeleteIssuer }],
+];
+
+/**
+ * Run the handler of a route for the request method, answering 405 for other methods
+ */
+async function dispatch(
+  route: Record<string, RouteHandler>,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL,
+  issuer: IssuerContext
+) {
+  const handler = route[req.method || 'GET'];
+  if (!handler) {
+    res.writeHead(405, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Method not allowed' }));
+    return;
+  }
+  try {
+    await handler(req, res, url, issuer);
+  } catch (e) {
+    sendError(res, 400, 'invalid_request', `Malformed request: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Resolve the issuer a path belongs to and the path within that issuer. Virtual issuers are
+ * served under /issuers/{name}; their well-known documents also at /.well-known/{document}/issuers/{name}.
+ * Returns undefined for an unknown or malformed virtual issuer name.
+ */
+function resolveIssuer(pathname: string): { issuer: IssuerContext; path: string } | undefined {
+  const match = /^(\/\.well-known\/[^/]+)?\/issuers\/([^/]+)(\/.*)?$/.exec(pathname);
+  if (!match || (match[1] && match[3])) {
+    return { issuer: rootIssuer, path: pathname };
+  }
+  let name: string;
+  try {
+    name = decodeURIComponent(match[2]);
+  } catch {
+    // A malformed percent-encoding names no issuer
+    return undefined;
+  }
+  const issuer = virtualIssuers.get(name);
+  return issuer && { issuer, path: match[1] || match[3] || '/' };
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
   const url = req.url || '/';
+  let requestUrl: URL;
+  try {
+    requestUrl = new URL(url, ISSUER_ID);
+  } catch {
+    sendError(res, 400, 'invalid_request', `Malformed request target: ${url}`);
+    return;
+  }
 
   // CORS headers for testing
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, DPoP, OAuth-Client-Attestation, OAuth-Client-Attestation-PoP');
+  res.setHeader('Access-Control-Expose-Headers', 'DPoP-Nonce, WWW-Authenticate');
 
   if (req.method === 'OPTIONS') {
     res.writeHead(204);
@@ -141,36 +1945,170 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
 
   console.log(`[${new Date().toISOString()}] ${req.method} ${url}`);
 
-  switch (url) {
+  const controlRoute = controlRoutes[requestUrl.pathname];
+  if (controlRoute) {
+    if (req.headers['authorization'] !== `Bearer ${CONTROL_TOKEN}`) {
+      sendError(res, 401, 'unauthorized', 'The control API requires Authorization: Bearer <CONTROL_TOKEN>');
+      return;
+    }
+    await dispatch(controlRoute, req, res, requestUrl, rootIssuer);
+    return;
+  }
+
+  // The health check stays up so specs can tell a broken scenario from a dead container
+  if (requestUrl.pathname !== '/health' && (await injectFaults(res, requestUrl.pathname))) {
+    return;
+  }
+
+  const mockRoute = mockRoutes.find(([pattern]) => pattern.test(requestUrl.pathname))?.[1];
+  if (mockRoute) {
+    await dispatch(mockRoute, req, res, requestUrl, rootIssuer);
+    return;
+  }
+
+  const resolved = resolveIssuer(requestUrl.pathname);
+  if (!resolved) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Unknown issuer', path: url }));
+    return;
+  }
+  // Handlers see paths relative to their issuer
+  const { issuer } = resolved;
+  requestUrl.pathname = resolved.path;
+  const { pathname } = requestUrl;
+
+  switch (pathname) {
     case '/.well-known/openid-credential-issuer':
+      if (scenario.malformed_metadata) {
+        sendMalformedMetadata(issuer, res, scenario.malformed_metadata);
+        break;
+      }
+      if (scenario.signed_metadata && (req.headers['accept'] || '').includes('application/jwt')) {
+        res.writeHead(200, { 'Content-Type': 'application/jwt' });
+        res.end(signCredentialIssuerMetadata(issuer));
+        break;
+      }
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify(credentialIssuerMetadata, null, 2));
+      res.end(
+        JSON.stringify(
+          { ...credentialIssuerMetadata(issuer), ...(scenario.signed_metadata ? { signed_metadata: signCredentialIssuerMetadata(issuer) } : {}) },
+          null,
+          2
+        )
+      );
       break;
 
     case '/.well-known/oauth-authorization-server':
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify(authorizationServerMetadata, null, 2));
+      res.end(JSON.stringify(authorizationServerMetadata(issuer), null, 2));
+      break;
+
+    case '/.well-known/jwt-vc-issuer':
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ issuer: issuer.issuerId, jwks: { keys: [issuer.keys.credentialSigningKey.publicJwk] } }, null, 2));
       break;
 
     case '/mdoc_iacas':
-      if (INCLUDE_IACA) {
+      if (scenario.include_iaca) {
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(iacaCertificates, null, 2));
+        res.end(JSON.stringify(iacaCertificates(issuer), null, 2));
       } else {
         res.writeHead(404, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: 'IACA certificates not available' }));
       }
       break;
 
+    case '/metadata_trust_anchors':
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ certificates: [toPem(metadataTrustAnchor.certificate)] }, null, 2));
+      break;
+
     case '/health':
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ status: 'ok', issuer: ISSUER_ID }));
       break;
 
-    default:
-      res.writeHead(404, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Not found', path: url }));
+    default: {
+      const logo = logoImages[pathname.slice(1)];
+      if (logo && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'public, max-age=3600' });
+        res.end(logo);
+        break;
+      }
+      const route = routes[pathname] || parameterizedRoutes.find(([pattern]) => pattern.test(pathname))?.[1];
+      if (!route) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Not found', path: url }));
+        break;
+      }
+      await dispatch(route, req, res, requestUrl, issuer);
+    }
+  }
+}
+
+/**
+ * GET /__control - the current scenario and the defaults it resets to
+ */
+async function handleGetScenario(_req: http.IncomingMessage, res: http.ServerResponse) {
+  sendJson(res, 200, { scenario, defaults: defaultScenario });
+}
+
+/**
+ * POST /__control - change the scenario; fields not in the body keep their value
+ */
+async function handleUpdateScenario(req: http.IncomingMessage, res: http.ServerResponse) {
+  const body = await parseBody(req);
+  try {
+    scenario = applyScenarioPatch(scenario, body);
+  } catch (e) {
+    sendError(res, 400, 'invalid_request', (e as Error).message);
+    return;
+  }
+  console.log(`  -> scenario changed: ${Object.keys(body).join(', ')}`);
+  sendJson(res, 200, { scenario });
+}
+
+/**
+ * POST /__control/reset - back to the scenario the mock started with
+ */
+async function handleResetScenario(_req: http.IncomingMessage, res: http.ServerResponse) {
+  scenario = structuredClone(defaultScenario);
+  console.log('  -> scenario reset');
+  sendJson(res, 200, { scenario });
+}
+
+// Scenario control, authenticated with CONTROL_TOKEN and exempt from the scenario's faults
+const controlRoutes: Record<string, Record<string, RouteHandler>> = {
+  '/__control': { GET: handleGetScenario, POST: handleUpdateScenario },
+  '/__control/reset': { POST: handleResetScenario },
+};
+
+/**
+ * Apply disabled endpoints and faults of the scenario. Returns true when the
+ * request has been answered and must not reach its handler.
+ */
+async function injectFaults(res: http.ServerResponse, pathname: string): Promise<boolean> {
+  if (scenario.disabled_endpoints.some(pattern => matchesPath(pattern, pathname))) {
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found', path: pathname }));
+    return true;
+  }
+
+  const fault = scenario.faults.find(candidate => matchesPath(candidate.path, pathname));
+  if (!fault) {
+    return false;
+  }
+  if (fault.times !== undefined && --fault.times === 0) {
+    scenario.faults.splice(scenario.faults.indexOf(fault), 1);
+  }
+  if (fault.latency_ms) {
+    await new Promise(resolve => setTimeout(resolve, fault.latency_ms));
+  }
+  if (fault.status) {
+    sendError(res, fault.status, 'server_error', `Fault injected by the scenario for ${fault.path}`);
+    return true;
   }
+  return false;
 }
 
 const server = http.createServer(handleRequest);
@@ -179,9 +2117,30 @@ server.listen(PORT, () => {
   console.log(`Mock Issuer Service running on ${ISSUER_ID}`);
   console.log(`  /.well-known/openid-credential-issuer - Credential issuer metadata`);
   console.log(`  /.well-known/oauth-authorization-server - Authorization server metadata`);
-  if (INCLUDE_IACA) {
+  console.log(`  /.well-known/jwt-vc-issuer - SD-JWT VC issuer signing keys`);
+  if (scenario.include_iaca) {
     console.log(`  /mdoc_iacas - IACA certificates`);
   }
+  console.log(`  /metadata_trust_anchors - Trust anchor of the metadata signer${scenario.signed_metadata ? '' : ' (signed metadata disabled)'}`);
+  console.log(`  /${Object.keys(logos).join(', /')} - Display logos`);
+  console.log(`  /offers - Create credential offer with deep link and QR code (POST)`);
+  console.log(`  /offers/{id} - Credential offer by reference, /offers/{id}/qr.png - its QR code (GET)`);
+  console.log(`  /par - Pushed authorization request endpoint (POST, client attestation: ${scenario.client_attestation_mode})`);
+  console.log(`  /authorize - Authorization endpoint (mode: ${scenario.authorize_mode})`);
+  console.log(`  /token - Token endpoint (POST, DPoP: ${scenario.dpop_mode}, client attestation: ${scenario.client_attestation_mode})`);
+  console.log(`  /credential - Credential endpoint (POST)`);
+  console.log(`  /deferred_credential - Deferred credential endpoint (POST)`);
+  console.log(`  /notification - Notification endpoint (POST)`);
+  console.log(`  /nonce - Nonce endpoint (POST)`);
+  console.log(`  /status-lists/1 - Token Status List (GET, JWT or CWT)`);
+  console.log(`  /admin/status - Credential statuses (GET, POST)`);
+  console.log(`  /debug/nonces/expire - Force c_nonce expiry (POST)`);
+  console.log(`  /debug/wallet-attestations - Sign client attestations with the built-in wallet provider (POST)`);
+  console.log(`  /debug/proofs - Key proof verification verdicts (GET, DELETE)`);
+  console.log(`  /debug/notifications - Received notification events (GET, DELETE)`);
+  console.log(`  /admin/issuers - Virtual issuers (GET, POST; DELETE /admin/issuers/{name})`);
+  console.log(`  /issuers/{name}/... - Endpoints of a virtual issuer`);
+  console.log(`  /__control - Scenario control API (GET, POST; /__control/reset)`);
   console.log(`  /health - Health check endpoint`);
 });
 
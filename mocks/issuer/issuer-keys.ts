@@ -0,0 +1,91 @@
+/**
+ * Key material of an issuer hosted by the mock
+ *
+ * Every issuer, the root one and each virtual issuer, gets its own IACA and
+ * document signer (ISO/IEC 18013-5 Annex B), SD-JWT VC signing key and
+ * metadata signer, all generated at creation.
+ */
+
+import { generateSigningKey, type SigningKey } from '../shared/crypto';
+import { createCertificate, MDL_DOCUMENT_SIGNER_EKU, type DistinguishedName } from '../shared/x509';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface CertificateAuthority {
+  name: DistinguishedName;
+  key: SigningKey;
+  certificate: Buffer;
+}
+
+export interface IssuerKeys {
+  iaca: CertificateAuthority;
+  documentSignerKey: SigningKey;
+  documentSignerCertificate: Buffer;
+  // Signs signed_metadata; issued by the metadata trust anchor the issuer was created with
+  metadataSignerKey: SigningKey;
+  metadataSignerCertificate: Buffer;
+  // Signs SD-JWT VCs, published through /.well-known/jwt-vc-issuer
+  credentialSigningKey: SigningKey;
+}
+
+/**
+ * Self-signed root CA, e.g. an IACA or a trust anchor
+ */
+export function createRootCertificateAuthority(name: DistinguishedName, issuerAlternativeUri?: string): CertificateAuthority {
+  const key = generateSigningKey();
+  const certificate = createCertificate({
+    subject: name,
+    publicKey: key.publicKey,
+    signingKey: key.privateKey,
+    notBefore: new Date(Date.now() - DAY),
+    notAfter: new Date(Date.now() + 5 * 365 * DAY),
+    ca: true,
+    pathLength: 0,
+    keyUsage: ['keyCertSign', 'cRLSign'],
+    issuerAlternativeUri,
+  });
+  return { name, key, certificate };
+}
+
+/**
+ * Generate the keys and certificates of an issuer
+ */
+export function createIssuerKeys(issuerId: string, organization: string, metadataTrustAnchor: CertificateAuthority): IssuerKeys {
+  const iaca = createRootCertificateAuthority({ country: 'UT', organization, commonName: `${organization} IACA` }, issuerId);
+
+  const documentSignerKey = generateSigningKey();
+  const documentSignerCertificate = createCertificate({
+    subject: { country: 'UT', organization, commonName: `${organization} Document Signer` },
+    publicKey: documentSignerKey.publicKey,
+    issuer: iaca.name,
+    issuerPublicKey: iaca.key.publicKey,
+    signingKey: iaca.key.privateKey,
+    notBefore: new Date(Date.now() - DAY),
+    notAfter: new Date(Date.now() + 365 * DAY),
+    keyUsage: ['digitalSignature'],
+    extendedKeyUsage: [MDL_DOCUMENT_SIGNER_EKU],
+    issuerAlternativeUri: issuerId,
+  });
+
+  const metadataSignerKey = generateSigningKey();
+  const metadataSignerCertificate = createCertificate({
+    subject: { country: 'UT', organization, commonName: `${organization} Metadata Signer` },
+    publicKey: metadataSignerKey.publicKey,
+    issuer: metadataTrustAnchor.name,
+    issuerPublicKey: metadataTrustAnchor.key.publicKey,
+    signingKey: metadataTrustAnchor.key.privateKey,
+    notBefore: new Date(Date.now() - DAY),
+    notAfter: new Date(Date.now() + 365 * DAY),
+    keyUsage: ['digitalSignature'],
+    issuerAlternativeUri: issuerId,
+  });
+
+  return {
+    iaca,
+    documentSignerKey,
+    documentSignerCertificate,
+    metadataSignerKey,
+    metadataSignerCertificate,
+    credentialSigningKey: generateSigningKey(),
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * ISO/IEC 18013-5 mdoc issuance for the mock issuer
+ *
+ * Produces the base64url-encoded IssuerSigned structure that OpenID4VCI
+ * returns for mso_mdoc credentials: the issuer-signed data elements plus a
+ * COSE_Sign1 over the Mobile Security Object (MSO), carrying the document
+ * signer certificate in its x5chain header.
+ */
+
+import * as crypto from 'crypto';
+import { embeddedCbor, encodeCbor, tdate } from '../shared/cbor';
+import { base64UrlEncode, sha256 } from '../shared/crypto';
+
+// COSE header labels and values (RFC 9052 / RFC 9360)
+const COSE_HEADER_ALG = 1;
+const COSE_HEADER_X5CHAIN = 33;
+const COSE_ALG_ES256 = -7;
+
+export interface DocumentSigner {
+  privateKey: crypto.KeyObject;
+  certificate: Buffer;
+}
+
+export interface MdocIssuance {
+  docType: string;
+  // Data elements per namespace, in the order they are issued
+  nameSpaces: Record<string, Record<string, unknown>>;
+  deviceJwk: Record<string, any>;
+  documentSigner: DocumentSigner;
+  validFrom: Date;
+  validUntil: Date;
+  // Token Status List reference, put into the MSO
+  status?: Record<string, unknown>;
+}
+
+/**
+ * Convert an EC P-256 JWK into a COSE_Key map
+ */
+export function jwkToCoseKey(jwk: Record<string, any>): Map<number, unknown> {
+  if (jwk.kty !== 'EC' || jwk.crv !== 'P-256') {
+    throw new Error(`Unsupported device key: ${jwk.kty}/${jwk.crv}`);
+  }
+  return new Map<number, unknown>([
+    [1, 2], // kty: EC2
+    [-1, 1], // crv: P-256
+    [-2, Buffer.from(jwk.x, 'base64url')],
+    [-3, Buffer.from(jwk.y, 'base64url')],
+  ]);
+}
+
+/**
+ * Create a COSE_Sign1 (untagged) with ES256 over the payload, with the signer
+ * certificate in the unprotected x5chain header
+ */
+export function coseSign1(payload: Buffer, signer: DocumentSigner, protectedHeaders = new Map<number, unknown>()): unknown[] {
+  const protectedHeader = encodeCbor(new Map<number, unknown>([[COSE_HEADER_ALG, COSE_ALG_ES256], ...protectedHeaders]));
+  const sigStructure = encodeCbor(['Signature1', protectedHeader, Buffer.alloc(0), payload]);
+  const signature = crypto.sign('sha256', sigStructure, { key: signer.privateKey, dsaEncoding: 'ieee-p1363' });
+  return [protectedHeader, new Map([[COSE_HEADER_X5CHAIN, signer.certificate]]), payload, signature];
+}
+
+/**
+ * Issue an mdoc and return the base64url-encoded IssuerSigned structure
+ */
+export function issueMdoc(issuance: MdocIssuance): string {
+  const nameSpaces: Record<string, unknown[]> = {};
+  const valueDigests: Record<string, Map<number, Buffer>> = {};
+  let digestId = 0;
+
+  for (const [nameSpace, elements] of Object.entries(issuance.nameSpaces)) {
+    nameSpaces[nameSpace] = [];
+    valueDigests[nameSpace] = new Map();
+    for (const [elementIdentifier, elementValue] of Object.entries(elements)) {
+      const item = embeddedCbor({
+        digestID: digestId,
+        random: crypto.randomBytes(16),
+        elementIdentifier,
+        elementValue,
+      });
+      nameSpaces[nameSpace].push(item);
+      // The digest covers the complete tag 24 encoding of the item
+      valueDigests[nameSpace].set(digestId, sha256(encodeCbor(item)));
+      digestId++;
+    }
+  }
+
+  const mobileSecurityObject = {
+    version: '1.0',
+    digestAlgorithm: 'SHA-256',
+    valueDigests,
+    deviceKeyInfo: {
+      deviceKey: jwkToCoseKey(issuance.deviceJwk),
+    },
+    docType: issuance.docType,
+    validityInfo: {
+      signed: tdate(new Date()),
+      validFrom: tdate(issuance.validFrom),
+      validUntil: tdate(issuance.validUntil),
+    },
+    ...(issuance.status ? { status: issuance.status } : {}),
+  };
+
+  const issuerAuth = coseSign1(encodeCbor(embeddedCbor(mobileSecurityObject)), issuance.documentSigner);
+  return base64UrlEncode(encodeCbor({ nameSpaces, issuerAuth }));
+}
@@ -0,0 +1,124 @@
+/**
+ * OpenID4VCI JWT key proof verification for the mock issuer
+ *
+ * Each check is evaluated independently so the recorded verdict shows
+ * everything that is wrong with a proof, not just the first failure.
+ */
+
+import * as crypto from 'crypto';
+import { base64UrlDecode, decodeJwt, verifyJwtSignature, type DecodedJwt } from '../shared/crypto';
+
+export type ProofCheck = 'typ' | 'alg' | 'key' | 'signature' | 'aud' | 'iat' | 'nonce';
+
+export interface ProofVerificationOptions {
+  audience: string;
+  // Allowed distance of iat from the current time, in seconds
+  iatWindow: number;
+  isValidNonce: (nonce: unknown) => boolean;
+}
+
+export interface ProofVerdict {
+  valid: boolean;
+  error?: 'invalid_proof' | 'invalid_nonce';
+  error_description?: string;
+  checks: Partial<Record<ProofCheck, boolean>>;
+  failures: string[];
+  holderJwk?: crypto.JsonWebKey;
+  header?: Record<string, unknown>;
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * Resolve the proof key from the jwk header or a did:jwk kid
+ */
+function resolveProofKey(header: Record<string, any>): crypto.JsonWebKey | undefined {
+  if (header.jwk) {
+    return header.jwk;
+  }
+  if (typeof header.kid === 'string' && header.kid.startsWith('did:jwk:')) {
+    const encoded = header.kid.slice('did:jwk:'.length).split('#')[0];
+    return JSON.parse(base64UrlDecode(encoded).toString('utf8'));
+  }
+  return undefined;
+}
+
+/**
+ * Verify an openid4vci-proof+jwt
+ */
+export function verifyKeyProof(proofJwt: unknown, options: ProofVerificationOptions): ProofVerdict {
+  let jwt: DecodedJwt;
+  try {
+    if (typeof proofJwt !== 'string') {
+      throw new Error('proof jwt is missing');
+    }
+    jwt = decodeJwt(proofJwt);
+  } catch (e) {
+    return {
+      valid: false,
+      error: 'invalid_proof',
+      error_description: `Proof JWT cannot be decoded: ${(e as Error).message}`,
+      checks: {},
+      failures: ['decode'],
+    };
+  }
+
+  const { header, payload } = jwt;
+  const checks: Partial<Record<ProofCheck, boolean>> = {};
+  const failures: string[] = [];
+  const check = (name: ProofCheck, passed: boolean, failure: string) => {
+    checks[name] = passed;
+    if (!passed) {
+      failures.push(failure);
+    }
+  };
+
+  check('typ', header.typ === 'openid4vci-proof+jwt', `typ must be openid4vci-proof+jwt, got ${header.typ}`);
+  check('alg', header.alg === 'ES256', `alg must be ES256, got ${header.alg}`);
+
+  let holderJwk: crypto.JsonWebKey | undefined;
+  try {
+    holderJwk = resolveProofKey(header);
+  } catch {
+    holderJwk = undefined;
+  }
+  check('key', !!holderJwk && !('d' in holderJwk), 'proof key must be a public jwk header or did:jwk kid');
+
+  let signatureValid = false;
+  if (checks.key && checks.alg) {
+    try {
+      signatureValid = verifyJwtSignature(jwt, holderJwk!);
+    } catch {
+      signatureValid = false;
+    }
+  }
+  check('signature', signatureValid, 'signature does not verify against the proof key');
+
+  check('aud', payload.aud === options.audience, `aud must be ${options.audience}, got ${payload.aud}`);
+
+  const now = Math.floor(Date.now() / 1000);
+  check(
+    'iat',
+    typeof payload.iat === 'number' && Math.abs(now - payload.iat) <= options.iatWindow,
+    `iat must be within ${options.iatWindow}s of the current time`
+  );
+
+  check('nonce', options.isValidNonce(payload.nonce), 'nonce is missing, unknown or expired');
+
+  const valid = failures.length === 0;
+  // A proof that is only wrong about its nonce gets invalid_nonce so the wallet retries with a fresh one
+  const onlyNonceFailed = failures.length === 1 && checks.nonce === false;
+  return {
+    valid,
+    ...(valid
+      ? {}
+      : {
+          error: onlyNonceFailed ? 'invalid_nonce' : 'invalid_proof',
+          error_description: failures.join('; '),
+        }),
+    checks,
+    failures,
+    holderJwk,
+    header,
+    payload,
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Runtime scenario of the mock issuer
+ *
+ * Everything that shapes the mock's behavior lives in one scenario object. Its
+ * defaults come from the environment; specs change it at runtime through the
+ * /__control API and reset it when done, so one container serves every scenario.
+ */
+
+// Injected fault: delay and/or fail requests to a path
+export interface Fault {
+  // Request path; a trailing * matches every path with that prefix
+  path: string;
+  latency_ms?: number;
+  // 5xx status answered instead of handling the request
+  status?: number;
+  // Number of requests the fault applies to; unlimited when omitted
+  times?: number;
+}
+
+export type MalformedMetadata = 'invalid_json' | 'missing_fields' | 'wrong_issuer';
+
+export interface Scenario {
+  include_iaca: boolean;
+  signed_metadata: boolean;
+  pre_authorized_code_lifetime: number;
+  tx_code_max_attempts: number;
+  access_token_lifetime: number;
+  c_nonce_lifetime: number;
+  legacy_c_nonce: boolean;
+  batch_size: number;
+  proof_iat_window: number;
+  dpop_mode: 'optional' | 'required';
+  dpop_nonce: boolean;
+  client_attestation_mode: 'optional' | 'required';
+  redirect_uris: string[];
+  authorize_mode: 'auto' | 'consent' | 'deny';
+  deferred_issuance: boolean;
+  deferred_pending_count: number;
+  deferred_interval: number;
+  // Paths answered with 404, as if the endpoint did not exist; a trailing * matches a prefix
+  disabled_endpoints: string[];
+  // Corrupt the credential issuer metadata
+  malformed_metadata: MalformedMetadata | null;
+  faults: Fault[];
+  // Advertised and issuable configurations; all of them when null
+  credential_configuration_ids: string[] | null;
+  // Fields merged into the advertised credential configurations, keyed by configuration id
+  credential_configuration_overrides: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Default scenario from the environment variables documented in index.ts
+ */
+export function scenarioFromEnv(env: NodeJS.ProcessEnv): Scenario {
+  return {
+    include_iaca: env.INCLUDE_IACA !== 'false',
+    signed_metadata: env.SIGNED_METADATA === 'true',
+    pre_authorized_code_lifetime: parseInt(env.PRE_AUTHORIZED_CODE_LIFETIME || '300', 10),
+    tx_code_max_attempts: parseInt(env.TX_CODE_MAX_ATTEMPTS || '3', 10),
+    access_token_lifetime: parseInt(env.ACCESS_TOKEN_LIFETIME || '300', 10),
+    c_nonce_lifetime: parseInt(env.C_NONCE_LIFETIME || '300', 10),
+    legacy_c_nonce: env.LEGACY_C_NONCE !== 'false',
+    batch_size: parseInt(env.BATCH_SIZE || '5', 10),
+    proof_iat_window: parseInt(env.PROOF_IAT_WINDOW || '300', 10),
+    dpop_mode: env.DPOP_MODE === 'required' ? 'required' : 'optional',
+    dpop_nonce: env.DPOP_NONCE !== 'false',
+    client_attestation_mode: env.CLIENT_ATTESTATION_MODE === 'required' ? 'required' : 'optional',
+    redirect_uris: (env.REDIRECT_URIS || 'http://localhost:3000/').split(',').map(s => s.trim()),
+    authorize_mode: env.AUTHORIZE_MODE === 'consent' || env.AUTHORIZE_MODE === 'deny' ? env.AUTHORIZE_MODE : 'auto',
+    deferred_issuance: env.DEFERRED_ISSUANCE === 'true',
+    deferred_pending_count: parseInt(env.DEFERRED_PENDING_COUNT || '2', 10),
+    deferred_interval: parseInt(env.DEFERRED_INTERVAL || '5', 10),
+    disabled_endpoints: [],
+    malformed_metadata: null,
+    faults: [],
+    credential_configuration_ids: null,
+    credential_configuration_overrides: {},
+  };
+}
+
+const isBoolean = (value: unknown) => typeof value === 'boolean';
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+const isPositive = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const oneOf = (...values: unknown[]) => (value: unknown) => values.includes(value);
+
+function isFault(value: unknown): boolean {
+  if (!isObject(value)) {
+    return false;
+  }
+  const fault = value as Record<string, unknown>;
+  return (
+    typeof fault.path === 'string' &&
+    (fault.latency_ms === undefined || isCount(fault.latency_ms)) &&
+    (fault.status === undefined || (Number.isInteger(fault.status) && (fault.status as number) >= 500 && (fault.status as number) <= 599)) &&
+    (fault.times === undefined || isPositive(fault.times)) &&
+    (fault.latency_ms !== undefined || fault.status !== undefined)
+  );
+}
+
+// Validator and expected value of every scenario field
+const fields: Record<keyof Scenario, [(value: unknown) => boolean, string]> = {
+  include_iaca: [isBoolean, 'a boolean'],
+  signed_metadata: [isBoolean, 'a boolean'],
+  pre_authorized_code_lifetime: [isPositive, 'a positive integer'],
+  tx_code_max_attempts: [isPositive, 'a positive integer'],
+  access_token_lifetime: [isPositive, 'a positive integer'],
+  c_nonce_lifetime: [isPositive, 'a positive integer'],
+  legacy_c_nonce: [isBoolean, 'a boolean'],
+  batch_size: [isPositive, 'a positive integer'],
+  proof_iat_window: [isPositive, 'a positive integer'],
+  dpop_mode: [oneOf('optional', 'required'), 'optional or required'],
+  dpop_nonce: [isBoolean, 'a boolean'],
+  client_attestation_mode: [oneOf('optional', 'required'), 'optional or required'],
+  redirect_uris: [value => isStringList(value) && (value as string[]).length > 0, 'a non-empty list of URIs'],
+  authorize_mode: [oneOf('auto', 'consent', 'deny'), 'auto, consent or deny'],
+  deferred_issuance: [isBoolean, 'a boolean'],
+  deferred_pending_count: [isCount, 'a non-negative integer'],
+  deferred_interval: [isCount, 'a non-negative integer'],
+  disabled_endpoints: [isStringList, 'a list of paths'],
+  malformed_metadata: [oneOf(null, 'invalid_json', 'missing_fields', 'wrong_issuer'), 'null, invalid_json, missing_fields or wrong_issuer'],
+  faults: [value => Array.isArray(value) && value.every(isFault), 'a list of {path, latency_ms?, status? (5xx), times?}'],
+  credential_configuration_ids: [value => value === null || isStringList(value), 'null or a list of configuration ids'],
+  credential_configuration_overrides: [value => isObject(value) && Object.values(value as object).every(isObject), 'an object of objects'],
+};
+
+/**
+ * Apply a partial scenario; fields not in the patch keep their current value.
+ * Throws on unknown fields and invalid values, leaving the current scenario untouched.
+ */
+export function applyScenarioPatch(current: Scenario, patch: Record<string, unknown>): Scenario {
+  const next: Record<string, unknown> = { ...current };
+  for (const [name, value] of Object.entries(patch)) {
+    if (!Object.prototype.hasOwnProperty.call(fields, name)) {
+      throw new Error(`Unknown scenario field: ${name}`);
+    }
+    const [isValid, expected] = fields[name as keyof Scenario];
+    if (!isValid(value)) {
+      throw new Error(`${name} must be ${expected}`);
+    }
+    next[name] = value;
+  }
+  return next as unknown as Scenario;
+}
+
+/**
+ * Whether a disabled endpoint or fault path applies to a request path
+ */
+export function matchesPath(pattern: string, pathname: string): boolean {
+  return pattern.endsWith('*') ? pathname.startsWith(pattern.slice(0, -1)) : pathname === pattern;
+}
@@ -0,0 +1,75 @@
+/**
+ * SD-JWT VC issuance for the mock issuer
+ *
+ * Every claim of the credential subject is made selectively disclosable,
+ * recursively for nested objects and array elements, so wallets can be
+ * tested against the full range of disclosure shapes.
+ */
+
+import { base64UrlEncode, randomToken, sha256, signJwt, type SigningKey } from '../shared/crypto';
+
+export interface SdJwtIssuance {
+  issuer: string;
+  vct: string;
+  claims: Record<string, unknown>;
+  signingKey: SigningKey;
+  holderJwk?: Record<string, unknown>;
+  lifetimeSeconds: number;
+  // Token Status List reference; always disclosed
+  status?: Record<string, unknown>;
+}
+
+/**
+ * Create a disclosure and return its encoded form and digest
+ */
+function createDisclosure(disclosure: unknown[]): { encoded: string; digest: string } {
+  const encoded = base64UrlEncode(JSON.stringify(disclosure));
+  return { encoded, digest: base64UrlEncode(sha256(encoded)) };
+}
+
+/**
+ * Replace the value's claims with digests, collecting the disclosures
+ */
+function makeDisclosable(value: unknown, disclosures: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map(element => {
+      const { encoded, digest } = createDisclosure([randomToken(16), makeDisclosable(element, disclosures)]);
+      disclosures.push(encoded);
+      return { '...': digest };
+    });
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const digests = Object.entries(value).map(([name, claim]) => {
+      const { encoded, digest } = createDisclosure([randomToken(16), name, makeDisclosable(claim, disclosures)]);
+      disclosures.push(encoded);
+      return digest;
+    });
+    // Digests are sorted so their order does not reveal the claim order
+    return { _sd: digests.sort() };
+  }
+
+  return value;
+}
+
+/**
+ * Issue a signed SD-JWT VC with one disclosure per claim, bound to the holder key
+ */
+export function issueSdJwt(issuance: SdJwtIssuance): string {
+  const disclosures: string[] = [];
+  const now = Math.floor(Date.now() / 1000);
+
+  const payload = {
+    iss: issuance.issuer,
+    iat: now,
+    exp: now + issuance.lifetimeSeconds,
+    vct: issuance.vct,
+    ...(issuance.holderJwk ? { cnf: { jwk: issuance.holderJwk } } : {}),
+    ...(issuance.status ? { status: issuance.status } : {}),
+    ...(makeDisclosable(issuance.claims, disclosures) as Record<string, unknown>),
+    _sd_alg: 'sha-256',
+  };
+
+  const jwt = signJwt({ typ: 'dc+sd-jwt', kid: issuance.signingKey.kid }, payload, issuance.signingKey.privateKey);
+  return `${jwt}~${disclosures.join('~')}~`;
+}
@@ -0,0 +1,101 @@
+/**
+ * IETF Token Status List (draft-ietf-oauth-status-list) for the mock issuer
+ *
+ * Keeps the status of every issued credential in one list and publishes it
+ * as a signed status list token, in JWT and CWT form.
+ */
+
+import * as zlib from 'zlib';
+import { Tagged, encodeCbor } from '../shared/cbor';
+import { base64UrlEncode, signJwt, type SigningKey } from '../shared/crypto';
+import { coseSign1, type DocumentSigner } from './mdoc';
+
+// Status values of the draft; 0x03 is application specific and unused here
+export const STATUS_VALUES = {
+  valid: 0x00,
+  invalid: 0x01,
+  suspended: 0x02,
+} as const;
+
+export type StatusName = keyof typeof STATUS_VALUES;
+
+// COSE and CWT labels (RFC 9052, RFC 8392 and the status list draft)
+const COSE_HEADER_TYP = 16;
+const COSE_SIGN1_TAG = 18;
+const CWT_CLAIM_SUB = 2;
+const CWT_CLAIM_EXP = 4;
+const CWT_CLAIM_IAT = 6;
+const CWT_CLAIM_STATUS_LIST = 65533;
+
+export interface StatusList {
+  // Bits per status: two are enough for valid, invalid and suspended
+  bits: 1 | 2 | 4 | 8;
+  statuses: number[];
+}
+
+export interface StatusListTokenOptions {
+  list: StatusList;
+  // URI the token is served at; the sub of the token
+  uri: string;
+  lifetimeSeconds: number;
+}
+
+/**
+ * Add an entry with status valid and return its index
+ */
+export function allocateStatusIndex(list: StatusList): number {
+  list.statuses.push(STATUS_VALUES.valid);
+  return list.statuses.length - 1;
+}
+
+/**
+ * Pack the statuses, lowest index in the least significant bits, and compress them with DEFLATE (zlib)
+ */
+export function encodeStatusList(list: StatusList): Buffer {
+  const packed = Buffer.alloc(Math.max(1, Math.ceil((list.statuses.length * list.bits) / 8)));
+  list.statuses.forEach((status, index) => {
+    const bitOffset = index * list.bits;
+    packed[bitOffset >> 3] |= status << (bitOffset & 7);
+  });
+  return zlib.deflateSync(packed, { level: 9 });
+}
+
+/**
+ * Status list token in JWT form (application/statuslist+jwt)
+ */
+export function statusListJwt(options: StatusListTokenOptions & { issuer: string; signingKey: SigningKey }): string {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt(
+    { typ: 'statuslist+jwt', kid: options.signingKey.kid },
+    {
+      iss: options.issuer,
+      sub: options.uri,
+      iat: now,
+      exp: now + options.lifetimeSeconds,
+      status_list: {
+        bits: options.list.bits,
+        lst: base64UrlEncode(encodeStatusList(options.list)),
+      },
+    },
+    options.signingKey.privateKey
+  );
+}
+
+/**
+ * Status list token in CWT form (application/statuslist+cwt), a tagged COSE_Sign1
+ */
+export function statusListCwt(options: StatusListTokenOptions & { signer: DocumentSigner }): Buffer {
+  const now = Math.floor(Date.now() / 1000);
+  const claims = new Map<number, unknown>([
+    [CWT_CLAIM_SUB, options.uri],
+    [CWT_CLAIM_IAT, now],
+    [CWT_CLAIM_EXP, now + options.lifetimeSeconds],
+    [CWT_CLAIM_STATUS_LIST, { bits: options.list.bits, lst: encodeStatusList(options.list) }],
+  ]);
+  const sign1 = coseSign1(
+    encodeCbor(claims),
+    options.signer,
+    new Map([[COSE_HEADER_TYP, 'application/statuslist+cwt']])
+  );
+  return encodeCbor(new Tagged(COSE_SIGN1_TAG, sign1));
+}
@@ -0,0 +1,214 @@
+/**
+ * Minimal CBOR (RFC 8949) encoder and decoder for the mock services
+ *
+ * Supports the subset used by mdoc issuance and presentations: integers, byte
+ * and text strings, arrays, maps, booleans, null, floats and tagged values.
+ * Maps keep insertion order; plain objects are encoded as text-keyed maps and
+ * every decoded map is a Map, so integer keys of COSE structures survive.
+ */
+
+export class Tagged {
+  constructor(
+    public readonly tag: number,
+    public readonly value: unknown
+  ) {}
+}
+
+/**
+ * tdate (tag 0): RFC 3339 date-time without fractional seconds
+ */
+export function tdate(date: Date): Tagged {
+  return new Tagged(0, date.toISOString().replace(/\.\d{3}Z$/, 'Z'));
+}
+
+/**
+ * full-date (tag 1004): RFC 3339 full-date
+ */
+export function fullDate(date: string): Tagged {
+  return new Tagged(1004, date);
+}
+
+/**
+ * Embedded CBOR (tag 24) wrapping the encoding of value
+ */
+export function embeddedCbor(value: unknown): Tagged {
+  return new Tagged(24, encodeCbor(value));
+}
+
+function encodeHead(majorType: number, argument: number): Buffer {
+  const type = majorType << 5;
+  if (argument < 24) {
+    return Buffer.from([type | argument]);
+  }
+  if (argument < 0x100) {
+    return Buffer.from([type | 24, argument]);
+  }
+  if (argument < 0x10000) {
+    const head = Buffer.alloc(3);
+    head[0] = type | 25;
+    head.writeUInt16BE(argument, 1);
+    return head;
+  }
+  if (argument < 0x100000000) {
+    const head = Buffer.alloc(5);
+    head[0] = type | 26;
+    head.writeUInt32BE(argument, 1);
+    return head;
+  }
+  const head = Buffer.alloc(9);
+  head[0] = type | 27;
+  head.writeBigUInt64BE(BigInt(argument), 1);
+  return head;
+}
+
+function encodeEntries(entries: [unknown, unknown][]): Buffer {
+  return Buffer.concat([
+    encodeHead(5, entries.length),
+    ...entries.flatMap(([key, value]) => [encodeCbor(key), encodeCbor(value)]),
+  ]);
+}
+
+/**
+ * Encode a value as CBOR
+ */
+export function encodeCbor(value: unknown): Buffer {
+  if (value === null) {
+    return Buffer.from([0xf6]);
+  }
+  if (value === undefined) {
+    return Buffer.from([0xf7]);
+  }
+  if (typeof value === 'boolean') {
+    return Buffer.from([value ? 0xf5 : 0xf4]);
+  }
+  if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      return value >= 0 ? encodeHead(0, value) : encodeHead(1, -1 - value);
+    }
+    const float = Buffer.alloc(9);
+    float[0] = 0xfb;
+    float.writeDoubleBE(value, 1);
+    return float;
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([encodeHead(3, bytes.length), bytes]);
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.concat([encodeHead(2, value.length), value]);
+  }
+  if (Array.isArray(value)) {
+    return Buffer.concat([encodeHead(4, value.length), ...value.map(encodeCbor)]);
+  }
+  if (value instanceof Tagged) {
+    return Buffer.concat([encodeHead(6, value.tag), encodeCbor(value.value)]);
+  }
+  if (value instanceof Map) {
+    return encodeEntries([...value.entries()]);
+  }
+  if (typeof value === 'object') {
+    return encodeEntries(Object.entries(value as Record<string, unknown>));
+  }
+  throw new Error(`Cannot encode ${typeof value} as CBOR`);
+}
+
+/**
+ * Decode one CBOR data item; trailing bytes are an error
+ */
+export function decodeCbor(input: Buffer): unknown {
+  let offset = 0;
+
+  const take = (length: number): Buffer => {
+    if (offset + length > input.length) {
+      throw new Error('Unexpected end of CBOR data');
+    }
+    const bytes = input.subarray(offset, offset + length);
+    offset += length;
+    return bytes;
+  };
+
+  const readArgument = (additional: number): number => {
+    if (additional < 24) {
+      return additional;
+    }
+    switch (additional) {
+      case 24:
+        return take(1)[0];
+      case 25:
+        return take(2).readUInt16BE(0);
+      case 26:
+        return take(4).readUInt32BE(0);
+      case 27:
+        return Number(take(8).readBigUInt64BE(0));
+      default:
+        throw new Error(`Unsupported CBOR additional information ${additional}`);
+    }
+  };
+
+  const readItem = (): unknown => {
+    const initial = take(1)[0];
+    const majorType = initial >> 5;
+    const additional = initial & 0x1f;
+
+    if (majorType === 7) {
+      switch (additional) {
+        case 20:
+          return false;
+        case 21:
+          return true;
+        case 22:
+          return null;
+        case 23:
+          return undefined;
+        case 25: {
+          // Half-precision float
+          const half = take(2).readUInt16BE(0);
+          const exponent = (half >> 10) & 0x1f;
+          const mantissa = half & 0x3ff;
+          const magnitude =
+            exponent === 0 ? mantissa * 2 ** -24 : exponent === 31 ? (mantissa ? NaN : Infinity) : (mantissa + 1024) * 2 ** (exponent - 25);
+          return half & 0x8000 ? -magnitude : magnitude;
+        }
+        case 26:
+          return take(4).readFloatBE(0);
+        case 27:
+          return take(8).readDoubleBE(0);
+        default:
+          throw new Error(`Unsupported CBOR simple value ${additional}`);
+      }
+    }
+
+    if (additional === 31) {
+      throw new Error('Indefinite-length CBOR items are not supported');
+    }
+    const argument = readArgument(additional);
+    switch (majorType) {
+      case 0:
+        return argument;
+      case 1:
+        return -1 - argument;
+      case 2:
+        return Buffer.from(take(argument));
+      case 3:
+        return take(argument).toString('utf8');
+      case 4:
+        return Array.from({ length: argument }, readItem);
+      case 5: {
+        const map = new Map<unknown, unknown>();
+        for (let i = 0; i < argument; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      default:
+        return new Tagged(argument, readItem());
+    }
+  };
+
+  const value = readItem();
+  if (offset !== input.length) {
+    throw new Error('Trailing bytes after CBOR data item');
+  }
+  return value;
+}
@@ -0,0 +1,107 @@
+/**
+ * Cryptographic helpers for the mock services
+ *
+ * Only built-in Node.js modules are used so the mocks stay dependency-free.
+ */
+
+import * as crypto from 'crypto';
+
+/**
+ * Base64URL encode a buffer or string (no padding)
+ */
+export function base64UrlEncode(input: Buffer | Uint8Array | string): string {
+  return Buffer.from(input as Uint8Array).toString('base64url');
+}
+
+/**
+ * Base64URL decode to a buffer
+ */
+export function base64UrlDecode(input: string): Buffer {
+  return Buffer.from(input, 'base64url');
+}
+
+/**
+ * Generate a random URL-safe token
+ */
+export function randomToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Generate a random code of the given length drawn from an alphabet, e.g. a numeric PIN
+ */
+export function randomCode(length: number, alphabet: string): string {
+  return Array.from({ length }, () => alphabet[crypto.randomInt(alphabet.length)]).join('');
+}
+
+/**
+ * SHA-256 digest of the input
+ */
+export function sha256(input: Buffer | string): Buffer {
+  return crypto.createHash('sha256').update(input).digest();
+}
+
+export interface DecodedJwt {
+  header: Record<string, any>;
+  payload: Record<string, any>;
+  signature: Buffer;
+  signingInput: string;
+}
+
+/**
+ * Decode a compact JWS without verifying its signature
+ */
+export function decodeJwt(jwt: string): DecodedJwt {
+  const parts = jwt.split('.');
+  if (parts.length !== 3) {
+    throw new Error('JWT must have three parts');
+  }
+  return {
+    header: JSON.parse(base64UrlDecode(parts[0]).toString('utf8')),
+    payload: JSON.parse(base64UrlDecode(parts[1]).toString('utf8')),
+    signature: base64UrlDecode(parts[2]),
+    signingInput: `${parts[0]}.${parts[1]}`,
+  };
+}
+
+export interface SigningKey {
+  kid: string;
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+  publicJwk: crypto.JsonWebKey;
+}
+
+/**
+ * Generate an ES256 (P-256) signing key identified by its JWK thumbprint
+ */
+export function generateSigningKey(): SigningKey {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const publicJwk = publicKey.export({ format: 'jwk' });
+  const kid = jwkThumbprint(publicJwk);
+  return { kid, privateKey, publicKey, publicJwk: { ...publicJwk, kid, alg: 'ES256', use: 'sig' } };
+}
+
+/**
+ * RFC 7638 JWK thumbprint (SHA-256, base64url) of an EC public key
+ */
+export function jwkThumbprint(jwk: crypto.JsonWebKey): string {
+  const canonical = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y });
+  return base64UrlEncode(sha256(canonical));
+}
+
+/**
+ * Sign a compact JWS with ES256
+ */
+export function signJwt(header: Record<string, unknown>, payload: Record<string, unknown>, privateKey: crypto.KeyObject): string {
+  const signingInput = `${base64UrlEncode(JSON.stringify({ alg: 'ES256', ...header }))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  const signature = crypto.sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${base64UrlEncode(signature)}`;
+}
+
+/**
+ * Verify the ES256 signature of a decoded JWT against a public JWK
+ */
+export function verifyJwtSignature(jwt: DecodedJwt, jwk: crypto.JsonWebKey): boolean {
+  const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+  return crypto.verify('sha256', Buffer.from(jwt.signingInput), { key: publicKey, dsaEncoding: 'ieee-p1363' }, jwt.signature);
+}
@@ -0,0 +1,401 @@
+/**
+ * Minimal QR code (ISO/IEC 18004) encoder with PNG output for the mock services
+ *
+ * Encodes text in byte mode at error correction level M, choosing the
+ * smallest version that fits and the mask with the lowest penalty score.
+ */
+
+import { encodePng } from './png';
+
+// Error correction codewords per block and number of blocks for level M, indexed by version
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28,
+  28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35,
+  37, 38, 40, 43, 45, 47, 49,
+];
+
+// Format information bits for error correction level M
+const ECC_LEVEL_M_BITS = 0;
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+/**
+ * Number of modules available for data and error correction codewords in a version
+ */
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function numDataCodewords(version: number): number {
+  return Math.floor(numRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+}
+
+// Reed-Solomon arithmetic over GF(2^8) with the QR polynomial 0x11D
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) {
+        result[j] ^= result[j + 1];
+      }
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/**
+ * Encode the text into data codewords, padded to the capacity of the version
+ */
+function encodeData(bytes: Buffer, version: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+
+  append(0b0100, 4); // byte mode
+  append(bytes.length, version < 10 ? 8 : 16);
+  for (const byte of bytes) {
+    append(byte, 8);
+  }
+
+  const capacity = numDataCodewords(version) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+  return codewords;
+}
+
+/**
+ * Split the data into blocks, append error correction and interleave
+ */
+function addErrorCorrection(data: number[], version: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const length = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    // Short blocks get a placeholder so all blocks can be interleaved by index
+    if (i < numShortBlocks) {
+      block.push(0);
+    }
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private alignmentPatternPositions(): number[] {
+    if (this.version === 1) {
+      return [];
+    }
+    const numAlign = Math.floor(this.version / 7) + 2;
+    const step = Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+    const result = [6];
+    for (let position = this.size - 7; result.length < numAlign; position -= step) {
+      result.splice(1, 0, position);
+    }
+    return result;
+  }
+
+  private drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    for (const [x, y] of [[3, 3], [this.size - 4, 3], [3, this.size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          if (x + dx >= 0 && x + dx < this.size && y + dy >= 0 && y + dy < this.size) {
+            this.setFunction(x + dx, y + dy, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    }
+
+    const positions = this.alignmentPatternPositions();
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // Skip the three corners occupied by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+          return;
+        }
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas; the real bits are drawn once the mask is known
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECC_LEVEL_M_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) {
+      this.setFunction(8, i, getBit(bits, i));
+    }
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunction(14 - i, 8, getBit(bits, i));
+    }
+
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+    }
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersion() {
+    if (this.version < 7) {
+      return;
+    }
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, getBit(bits, i));
+      this.setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  /**
+   * Place the codewords in the zigzag order of the standard
+   */
+  drawCodewords(codewords: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5;
+      }
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * XOR the data modules with a mask pattern; applying it twice undoes it
+   */
+  applyMask(mask: number) {
+    const patterns = [
+      (x: number, y: number) => (x + y) % 2 === 0,
+      (_x: number, y: number) => y % 2 === 0,
+      (x: number, _y: number) => x % 3 === 0,
+      (x: number, y: number) => (x + y) % 3 === 0,
+      (x: number, y: number) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+      (x: number, y: number) => ((x * y) % 2) + ((x * y) % 3) === 0,
+      (x: number, y: number) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+      (x: number, y: number) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+    ];
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.isFunction[y][x] && patterns[mask](x, y)) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  /**
+   * Penalty score of the current symbol (ISO/IEC 18004, 7.8.3)
+   */
+  penalty(): number {
+    let result = 0;
+    const lines: boolean[][] = [
+      ...this.modules,
+      ...this.modules.map((_row, x) => this.modules.map(row => row[x])),
+    ];
+
+    for (const line of lines) {
+      // Runs of five or more modules of the same color
+      let runLength = 1;
+      for (let i = 1; i <= line.length; i++) {
+        if (i < line.length && line[i] === line[i - 1]) {
+          runLength++;
+        } else {
+          if (runLength >= 5) {
+            result += runLength - 2;
+          }
+          runLength = 1;
+        }
+      }
+      // Finder-like patterns 1:1:3:1:1 with four light modules on either side
+      const text = line.map(dark => (dark ? '1' : '0')).join('');
+      for (const pattern of ['10111010000', '00001011101']) {
+        for (let index = text.indexOf(pattern); index !== -1; index = text.indexOf(pattern, index + 1)) {
+          result += 40;
+        }
+      }
+    }
+
+    // 2x2 blocks of the same color
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          result += 3;
+        }
+      }
+    }
+
+    // Balance of dark and light modules
+    const total = this.size * this.size;
+    const dark = this.modules.reduce((count, row) => count + row.filter(Boolean).length, 0);
+    result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return result;
+  }
+}
+
+/**
+ * Encode text as a QR code, returning the module matrix (true = dark), indexed [y][x]
+ */
+export function encodeQrCode(text: string): boolean[][] {
+  const bytes = Buffer.from(text, 'utf8');
+  let version = 1;
+  while (4 + (version < 10 ? 8 : 16) + bytes.length * 8 > numDataCodewords(version) * 8) {
+    if (++version > 40) {
+      throw new Error(`Text of ${bytes.length} bytes does not fit in a QR code`);
+    }
+  }
+
+  const matrix = new QrMatrix(version);
+  matrix.drawCodewords(addErrorCorrection(encodeData(bytes, version), version));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+  return matrix.modules;
+}
+
+/**
+ * Render text as a black on white QR code PNG with a four-module quiet zone
+ */
+export function qrCodePng(text: string, scale = 8): Buffer {
+  const modules = encodeQrCode(text);
+  const quietZone = 4;
+  const size = (modules.length + 2 * quietZone) * scale;
+  return encodePng(size, size, (x, y) => {
+    const dark = modules[Math.floor(y / scale) - quietZone]?.[Math.floor(x / scale) - quietZone];
+    return dark ? [0, 0, 0] : [255, 255, 255];
+  });
+}
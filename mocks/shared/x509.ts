@@ -0,0 +1,212 @@
+/**
+ * Minimal X.509 certificate builder for the mock services
+ *
+ * Encodes just enough DER to produce ECDSA P-256 certificates for a root CA
+ * and the certificates it signs, e.g. the IACA and document signer of the
+ * issuer or the request object signer of the verifier, using only built-in
+ * Node.js modules.
+ */
+
+import * as crypto from 'crypto';
+
+// Object identifiers used in the generated certificates
+const OID = {
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  countryName: '2.5.4.6',
+  organizationName: '2.5.4.10',
+  commonName: '2.5.4.3',
+  subjectKeyIdentifier: '2.5.29.14',
+  keyUsage: '2.5.29.15',
+  subjectAltName: '2.5.29.17',
+  issuerAltName: '2.5.29.18',
+  basicConstraints: '2.5.29.19',
+  authorityKeyIdentifier: '2.5.29.35',
+  extKeyUsage: '2.5.29.37',
+};
+
+// ISO/IEC 18013-5 extended key usage for mdoc document signers
+export const MDL_DOCUMENT_SIGNER_EKU = '1.0.18013.5.1.2';
+
+const KEY_USAGE_BITS = {
+  digitalSignature: 0x80,
+  keyCertSign: 0x04,
+  cRLSign: 0x02,
+};
+
+export type KeyUsage = keyof typeof KEY_USAGE_BITS;
+
+export interface DistinguishedName {
+  country?: string;
+  organization?: string;
+  commonName: string;
+}
+
+export interface CertificateOptions {
+  subject: DistinguishedName;
+  publicKey: crypto.KeyObject;
+  // Issuer name and key; omit both for a self-signed certificate
+  issuer?: DistinguishedName;
+  issuerPublicKey?: crypto.KeyObject;
+  signingKey: crypto.KeyObject;
+  notBefore: Date;
+  notAfter: Date;
+  ca?: boolean;
+  pathLength?: number;
+  keyUsage: KeyUsage[];
+  extendedKeyUsage?: string[];
+  // Subject alternative names, e.g. the DNS name of an x509_san_dns client_id
+  subjectAlternativeNames?: { dns?: string[]; uri?: string[] };
+  issuerAlternativeUri?: string;
+}
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+  const bytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    bytes.unshift(remaining & 0xff);
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function tlv(tag: number, content: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+}
+
+function sequence(...items: Buffer[]): Buffer {
+  return tlv(0x30, Buffer.concat(items));
+}
+
+function set(...items: Buffer[]): Buffer {
+  return tlv(0x31, Buffer.concat(items));
+}
+
+function integer(value: Buffer): Buffer {
+  let bytes = value;
+  while (bytes.length > 1 && bytes[0] === 0x00 && (bytes[1] & 0x80) === 0) {
+    bytes = bytes.subarray(1);
+  }
+  // Keep the integer positive
+  if (bytes[0] & 0x80) {
+    bytes = Buffer.concat([Buffer.from([0x00]), bytes]);
+  }
+  return tlv(0x02, bytes);
+}
+
+function oid(value: string): Buffer {
+  const arcs = value.split('.').map(Number);
+  const bytes = [arcs[0] * 40 + arcs[1]];
+  for (const arc of arcs.slice(2)) {
+    const encoded = [arc & 0x7f];
+    for (let remaining = Math.floor(arc / 128); remaining > 0; remaining = Math.floor(remaining / 128)) {
+      encoded.unshift(0x80 | (remaining & 0x7f));
+    }
+    bytes.push(...encoded);
+  }
+  return tlv(0x06, Buffer.from(bytes));
+}
+
+function bitString(content: Buffer, unusedBits = 0): Buffer {
+  return tlv(0x03, Buffer.concat([Buffer.from([unusedBits]), content]));
+}
+
+function octetString(content: Buffer): Buffer {
+  return tlv(0x04, content);
+}
+
+function time(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  // UTCTime until 2049, GeneralizedTime afterwards (RFC 5280, 4.1.2.5)
+  return date.getUTCFullYear() < 2050
+    ? tlv(0x17, Buffer.from(`${iso.slice(2)}Z`))
+    : tlv(0x18, Buffer.from(`${iso}Z`));
+}
+
+function name(dn: DistinguishedName): Buffer {
+  const attributes: Buffer[] = [];
+  if (dn.country) {
+    attributes.push(set(sequence(oid(OID.countryName), tlv(0x13, Buffer.from(dn.country)))));
+  }
+  if (dn.organization) {
+    attributes.push(set(sequence(oid(OID.organizationName), tlv(0x0c, Buffer.from(dn.organization)))));
+  }
+  attributes.push(set(sequence(oid(OID.commonName), tlv(0x0c, Buffer.from(dn.commonName)))));
+  return sequence(...attributes);
+}
+
+function extension(id: string, critical: boolean, value: Buffer): Buffer {
+  return sequence(oid(id), ...(critical ? [tlv(0x01, Buffer.from([0xff]))] : []), octetString(value));
+}
+
+/**
+ * Key identifier: SHA-1 of the uncompressed public key point (RFC 5280, 4.2.1.2)
+ */
+export function keyIdentifier(publicKey: crypto.KeyObject): Buffer {
+  const jwk = publicKey.export({ format: 'jwk' });
+  const point = Buffer.concat([Buffer.from([0x04]), Buffer.from(jwk.x!, 'base64url'), Buffer.from(jwk.y!, 'base64url')]);
+  return crypto.createHash('sha1').update(point).digest();
+}
+
+function keyUsageExtension(usages: KeyUsage[]): Buffer {
+  const bits = usages.reduce((acc, usage) => acc | KEY_USAGE_BITS[usage], 0);
+  let unusedBits = 0;
+  while (unusedBits < 7 && (bits & (1 << unusedBits)) === 0) {
+    unusedBits++;
+  }
+  return extension(OID.keyUsage, true, bitString(Buffer.from([bits]), unusedBits));
+}
+
+/**
+ * Create a DER-encoded X.509 v3 certificate signed with ECDSA SHA-256
+ */
+export function createCertificate(options: CertificateOptions): Buffer {
+  const issuerPublicKey = options.issuerPublicKey || options.publicKey;
+  const signatureAlgorithm = sequence(oid(OID.ecdsaWithSha256));
+
+  const extensions = [
+    extension(
+      OID.basicConstraints,
+      true,
+      options.ca
+        ? sequence(tlv(0x01, Buffer.from([0xff])), ...(options.pathLength !== undefined ? [integer(Buffer.from([options.pathLength]))] : []))
+        : sequence()
+    ),
+    keyUsageExtension(options.keyUsage),
+    extension(OID.subjectKeyIdentifier, false, octetString(keyIdentifier(options.publicKey))),
+    extension(OID.authorityKeyIdentifier, false, sequence(tlv(0x80, keyIdentifier(issuerPublicKey)))),
+  ];
+  if (options.extendedKeyUsage) {
+    extensions.push(extension(OID.extKeyUsage, true, sequence(...options.extendedKeyUsage.map(oid))));
+  }
+  if (options.subjectAlternativeNames) {
+    const { dns = [], uri = [] } = options.subjectAlternativeNames;
+    const names = [...dns.map(value => tlv(0x82, Buffer.from(value))), ...uri.map(value => tlv(0x86, Buffer.from(value)))];
+    extensions.push(extension(OID.subjectAltName, false, sequence(...names)));
+  }
+  if (options.issuerAlternativeUri) {
+    extensions.push(extension(OID.issuerAltName, false, sequence(tlv(0x86, Buffer.from(options.issuerAlternativeUri)))));
+  }
+
+  const tbsCertificate = sequence(
+    tlv(0xa0, integer(Buffer.from([0x02]))),
+    integer(crypto.randomBytes(16)),
+    signatureAlgorithm,
+    name(options.issuer || options.subject),
+    sequence(time(options.notBefore), time(options.notAfter)),
+    name(options.subject),
+    options.publicKey.export({ type: 'spki', format: 'der' }),
+    tlv(0xa3, sequence(...extensions))
+  );
+
+  const signature = crypto.sign('sha256', tbsCertificate, options.signingKey);
+  return sequence(tbsCertificate, signatureAlgorithm, bitString(signature));
+}
+
+/**
+ * PEM-encode a DER certificate
+ */
+export function toPem(der: Buffer): string {
+  const lines = der.toString('base64').match(/.{1,64}/g) || [];
+  return `-----BEGIN CERTIFICATE-----\n${lines.join('\n')}\n-----END CERTIFICATE-----`;
+}
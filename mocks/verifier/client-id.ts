@@ -0,0 +1,238 @@
+/**
+ * Client Identifier Prefixes (OpenID4VP, 5.9) for the mock verifier
+ *
+ * The prefix of the client_id tells the wallet how to authenticate the verifier:
+ * which key signs the request object and where that key is vouched for. Every
+ * prefix gets its own key material at startup, so one verifier can present
+ * itself under any of them.
+ */
+
+import { base64UrlEncode, generateSigningKey, sha256, signJwt, type SigningKey } from '../shared/crypto';
+import { createCertificate, type DistinguishedName } from '../shared/x509';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const CLIENT_ID_PREFIXES = [
+  'redirect_uri',
+  'x509_san_dns',
+  'x509_hash',
+  'decentralized_identifier',
+  'verifier_attestation',
+  'openid_federation',
+] as const;
+
+export type ClientIdPrefix = (typeof CLIENT_ID_PREFIXES)[number];
+
+export const VERIFIER_ATTESTATION_TYP = 'verifier-attestation+jwt';
+export const ENTITY_STATEMENT_TYP = 'entity-statement+jwt';
+
+export interface VerifierKeys {
+  verifierId: string;
+  // x509_san_dns and x509_hash: CA published as trust anchor and the certificate sent in x5c
+  caName: DistinguishedName;
+  caKey: SigningKey;
+  caCertificate: Buffer;
+  requestSigningKey: SigningKey;
+  requestSigningCertificate: Buffer;
+  // decentralized_identifier: did:jwk of its own key
+  didKey: SigningKey;
+  did: string;
+  // verifier_attestation: the attestation issuer signs an attestation of the attested key
+  attestationIssuerKey: SigningKey;
+  attestedKey: SigningKey;
+  // openid_federation: the entity's federation key, the trust anchor's, and the key in its verifier metadata
+  federationKey: SigningKey;
+  trustAnchorKey: SigningKey;
+  federationRequestKey: SigningKey;
+}
+
+/**
+ * Generate the key material of every client identifier prefix
+ */
+export function createVerifierKeys(verifierId: string): VerifierKeys {
+  const host = new URL(verifierId).hostname;
+  const caName: DistinguishedName = { country: 'UT', organization: 'Test Organization', commonName: 'Test Verifier CA' };
+  const caKey = generateSigningKey();
+  const caCertificate = createCertificate({
+    subject: caName,
+    publicKey: caKey.publicKey,
+    signingKey: caKey.privateKey,
+    notBefore: new Date(Date.now() - DAY),
+    notAfter: new Date(Date.now() + 5 * 365 * DAY),
+    ca: true,
+    pathLength: 0,
+    keyUsage: ['keyCertSign', 'cRLSign'],
+  });
+
+  // The DNS SAN is the host of the verifier, matching x509_san_dns:{host}
+  const requestSigningKey = generateSigningKey();
+  const requestSigningCertificate = createCertificate({
+    subject: { country: 'UT', organization: 'Test Organization', commonName: 'Test Verifier' },
+    publicKey: requestSigningKey.publicKey,
+    issuer: caName,
+    issuerPublicKey: caKey.publicKey,
+    signingKey: caKey.privateKey,
+    notBefore: new Date(Date.now() - DAY),
+    notAfter: new Date(Date.now() + 365 * DAY),
+    keyUsage: ['digitalSignature'],
+    subjectAlternativeNames: { dns: [host], uri: [verifierId] },
+  });
+
+  const didKey = generateSigningKey();
+  const { kty, crv, x, y } = didKey.publicJwk;
+
+  return {
+    verifierId,
+    caName,
+    caKey,
+    caCertificate,
+    requestSigningKey,
+    requestSigningCertificate,
+    didKey,
+    did: `did:jwk:${base64UrlEncode(JSON.stringify({ kty, crv, x, y }))}`,
+    attestationIssuerKey: generateSigningKey(),
+    attestedKey: generateSigningKey(),
+    federationKey: generateSigningKey(),
+    trustAnchorKey: generateSigningKey(),
+    federationRequestKey: generateSigningKey(),
+  };
+}
+
+/**
+ * Entity identifier of the federation trust anchor hosted by the verifier
+ */
+export function trustAnchorId(keys: VerifierKeys): string {
+  return `${keys.verifierId}/federation/trust-anchor`;
+}
+
+/**
+ * client_id of a request under the given prefix. redirect_uri binds the client_id
+ * to the response URI of the request, as the request cannot be signed.
+ */
+export function clientId(prefix: ClientIdPrefix, keys: VerifierKeys, responseUri: string): string {
+  switch (prefix) {
+    case 'redirect_uri':
+      return `redirect_uri:${responseUri}`;
+    case 'x509_san_dns':
+      return `x509_san_dns:${new URL(keys.verifierId).hostname}`;
+    case 'x509_hash':
+      return `x509_hash:${base64UrlEncode(sha256(keys.requestSigningCertificate))}`;
+    case 'decentralized_identifier':
+      return `decentralized_identifier:${keys.did}`;
+    case 'verifier_attestation':
+      return `verifier_attestation:${new URL(keys.verifierId).hostname}`;
+    case 'openid_federation':
+      return `openid_federation:${keys.verifierId}`;
+  }
+}
+
+/**
+ * Verifier attestation JWT binding the attested key to the client identifier, signed by the attestation issuer
+ */
+export function verifierAttestation(keys: VerifierKeys, lifetimeSeconds: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt(
+    { typ: VERIFIER_ATTESTATION_TYP, kid: keys.attestationIssuerKey.kid },
+    {
+      iss: `${keys.verifierId}/attestation-issuer`,
+      sub: new URL(keys.verifierId).hostname,
+      iat: now,
+      exp: now + lifetimeSeconds,
+      cnf: { jwk: keys.attestedKey.publicJwk },
+      redirect_uris: [`${keys.verifierId}/callback`],
+    },
+    keys.attestationIssuerKey.privateKey
+  );
+}
+
+/**
+ * Entity configuration of the verifier: self-signed, publishing the request signing key
+ * in its openid_credential_verifier metadata
+ */
+export function entityConfiguration(keys: VerifierKeys, verifierMetadata: Record<string, unknown> = {}): string {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt(
+    { typ: ENTITY_STATEMENT_TYP, kid: keys.federationKey.kid },
+    {
+      iss: keys.verifierId,
+      sub: keys.verifierId,
+      iat: now,
+      exp: now + 24 * 60 * 60,
+      jwks: { keys: [keys.federationKey.publicJwk] },
+      authority_hints: [trustAnchorId(keys)],
+      metadata: {
+        openid_credential_verifier: { ...verifierMetadata, jwks: { keys: [keys.federationRequestKey.publicJwk] } },
+      },
+    },
+    keys.federationKey.privateKey
+  );
+}
+
+/**
+ * Entity configuration of the trust anchor
+ */
+export function trustAnchorConfiguration(keys: VerifierKeys): string {
+  const now = Math.floor(Date.now() / 1000);
+  const id = trustAnchorId(keys);
+  return signJwt(
+    { typ: ENTITY_STATEMENT_TYP, kid: keys.trustAnchorKey.kid },
+    {
+      iss: id,
+      sub: id,
+      iat: now,
+      exp: now + 24 * 60 * 60,
+      jwks: { keys: [keys.trustAnchorKey.publicJwk] },
+      metadata: { federation_entity: { federation_fetch_endpoint: `${id}/fetch`, organization_name: 'Test Trust Framework' } },
+    },
+    keys.trustAnchorKey.privateKey
+  );
+}
+
+/**
+ * Subordinate statement of the trust anchor about the verifier, vouching for its federation key
+ */
+export function subordinateStatement(keys: VerifierKeys): string {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt(
+    { typ: ENTITY_STATEMENT_TYP, kid: keys.trustAnchorKey.kid },
+    {
+      iss: trustAnchorId(keys),
+      sub: keys.verifierId,
+      iat: now,
+      exp: now + 24 * 60 * 60,
+      jwks: { keys: [keys.federationKey.publicJwk] },
+    },
+    keys.trustAnchorKey.privateKey
+  );
+}
+
+/**
+ * Encode a request object for the prefix: unsigned for redirect_uri, otherwise signed
+ * with the prefix's key and the JOSE header the wallet needs to authenticate it.
+ * For openid_federation the trust chain carries the request's client_metadata.
+ */
+export function encodeRequestObject(prefix: ClientIdPrefix, keys: VerifierKeys, payload: Record<string, unknown>): string {
+  const typ = 'oauth-authz-req+jwt';
+  switch (prefix) {
+    case 'redirect_uri':
+      return `${base64UrlEncode(JSON.stringify({ alg: 'none', typ }))}.${base64UrlEncode(JSON.stringify(payload))}.`;
+    case 'x509_san_dns':
+    case 'x509_hash':
+      // The trust anchor is not part of x5c
+      return signJwt({ typ, x5c: [keys.requestSigningCertificate.toString('base64')] }, payload, keys.requestSigningKey.privateKey);
+    case 'decentralized_identifier':
+      return signJwt({ typ, kid: `${keys.did}#0` }, payload, keys.didKey.privateKey);
+    case 'verifier_attestation':
+      return signJwt({ typ, jwt: verifierAttestation(keys, 60 * 60) }, payload, keys.attestedKey.privateKey);
+    case 'openid_federation':
+      return signJwt(
+        {
+          typ,
+          kid: keys.federationRequestKey.kid,
+          trust_chain: [entityConfiguration(keys, payload.client_metadata as Record<string, unknown>), subordinateStatement(keys), trustAnchorConfiguration(keys)],
+        },
+        payload,
+        keys.federationRequestKey.privateKey
+      );
+  }
+}
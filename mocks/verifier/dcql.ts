@@ -0,0 +1,359 @@
+/**
+ * Digital Credentials Query Language (OpenID4VP, 6) for the mock verifier
+ *
+ * Presentation requests ask for credentials with a DCQL query, either one of the
+ * named queries of the catalog below or a custom query sent by the spec. The
+ * catalog asks for the credentials and claims the mock issuer issues.
+ */
+
+export type ClaimPath = (string | number | null)[];
+
+export interface ClaimsQuery {
+  id?: string;
+  path: ClaimPath;
+  values?: (string | number | boolean)[];
+  intent_to_retain?: boolean;
+}
+
+export interface TrustedAuthoritiesQuery {
+  type: 'aki' | 'etsi_tl' | 'openid_federation';
+  values: string[];
+}
+
+export interface CredentialQuery {
+  id: string;
+  format: 'mso_mdoc' | 'dc+sd-jwt';
+  multiple?: boolean;
+  meta: { doctype_value?: string; vct_values?: string[] };
+  trusted_authorities?: TrustedAuthoritiesQuery[];
+  require_cryptographic_holder_binding?: boolean;
+  claims?: ClaimsQuery[];
+  claim_sets?: string[][];
+}
+
+export interface CredentialSetQuery {
+  options: string[][];
+  required?: boolean;
+}
+
+export interface DcqlQuery {
+  credentials: CredentialQuery[];
+  credential_sets?: CredentialSetQuery[];
+}
+
+export interface CatalogEntry {
+  description: string;
+  dcql_query: DcqlQuery;
+}
+
+const PID_DOCTYPE = 'eu.europa.ec.eudi.pid.1';
+const MDL_DOCTYPE = 'org.iso.18013.5.1.mDL';
+const MDL_NAMESPACE = 'org.iso.18013.5.1';
+
+const pidMdoc: CredentialQuery = {
+  id: 'pid_mdoc',
+  format: 'mso_mdoc',
+  meta: { doctype_value: PID_DOCTYPE },
+  claims: [
+    { path: [PID_DOCTYPE, 'family_name'], intent_to_retain: false },
+    { path: [PID_DOCTYPE, 'given_name'], intent_to_retain: false },
+    { path: [PID_DOCTYPE, 'birth_date'], intent_to_retain: false },
+  ],
+};
+
+const pidSdJwt: CredentialQuery = {
+  id: 'pid_sd_jwt',
+  format: 'dc+sd-jwt',
+  meta: { vct_values: ['urn:eudi:pid:1'] },
+  claims: [
+    { path: ['family_name'] },
+    { path: ['given_name'] },
+    { path: ['birthdate'] },
+    { path: ['address', 'street_address'] },
+  ],
+};
+
+/**
+ * Named DCQL queries, by name
+ */
+export const queryCatalog: Record<string, CatalogEntry> = {
+  pid_mdoc: {
+    description: 'Family name, given name and birth date from the mdoc PID',
+    dcql_query: { credentials: [pidMdoc] },
+  },
+  pid_sd_jwt: {
+    description: 'Family name, given name, birth date and street from the SD-JWT VC PID',
+    dcql_query: { credentials: [pidSdJwt] },
+  },
+  pid_any_format: {
+    description: 'The PID in either format, SD-JWT VC preferred',
+    dcql_query: {
+      credentials: [pidSdJwt, pidMdoc],
+      credential_sets: [{ options: [['pid_sd_jwt'], ['pid_mdoc']] }],
+    },
+  },
+  pid_with_optional_ehic: {
+    description: 'The SD-JWT VC PID, and the EHIC if the holder has one',
+    dcql_query: {
+      credentials: [
+        pidSdJwt,
+        {
+          id: 'ehic',
+          format: 'dc+sd-jwt',
+          meta: { vct_values: ['urn:eudi:ehic:1'] },
+          claims: [{ path: ['personal_administrative_number'] }, { path: ['issuing_authority', 'name'] }],
+        },
+      ],
+      credential_sets: [{ options: [['pid_sd_jwt']] }, { options: [['ehic']], required: false }],
+    },
+  },
+  mdl: {
+    description: 'Family name, given name and document number from the mDL',
+    dcql_query: {
+      credentials: [
+        {
+          id: 'mdl',
+          format: 'mso_mdoc',
+          meta: { doctype_value: MDL_DOCTYPE },
+          claims: [
+            { path: [MDL_NAMESPACE, 'family_name'], intent_to_retain: false },
+            { path: [MDL_NAMESPACE, 'given_name'], intent_to_retain: false },
+            { path: [MDL_NAMESPACE, 'document_number'], intent_to_retain: true },
+          ],
+        },
+      ],
+    },
+  },
+  mdl_age_or_name: {
+    description: 'Age over 18 from the mDL, or the name if the wallet cannot disclose the age alone',
+    dcql_query: {
+      credentials: [
+        {
+          id: 'mdl',
+          format: 'mso_mdoc',
+          meta: { doctype_value: MDL_DOCTYPE },
+          claims: [
+            { id: 'age', path: [MDL_NAMESPACE, 'age_over_18'], values: [true] },
+            { id: 'family_name', path: [MDL_NAMESPACE, 'family_name'] },
+            { id: 'given_name', path: [MDL_NAMESPACE, 'given_name'] },
+          ],
+          claim_sets: [['age'], ['family_name', 'given_name']],
+        },
+      ],
+    },
+  },
+};
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const TRUSTED_AUTHORITY_TYPES = ['aki', 'etsi_tl', 'openid_federation'];
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNonEmptyArray = (value: unknown): value is unknown[] => Array.isArray(value) && value.length > 0;
+const isStringList = (value: unknown): value is string[] => isNonEmptyArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Validate trusted_authorities, returning the problems found
+ */
+export function validateTrustedAuthorities(value: unknown, where: string): string[] {
+  if (!isNonEmptyArray(value)) {
+    return [`${where}.trusted_authorities must be a non-empty array`];
+  }
+  return value.flatMap((authority, i) =>
+    isObject(authority) && TRUSTED_AUTHORITY_TYPES.includes(authority.type) && isStringList(authority.values)
+      ? []
+      : [`${where}.trusted_authorities[${i}] must be {type: ${TRUSTED_AUTHORITY_TYPES.join(' | ')}, values: [...]}`]
+  );
+}
+
+function validateCredentialQuery(credential: unknown, where: string): string[] {
+  if (!isObject(credential)) {
+    return [`${where} must be an object`];
+  }
+  const problems: string[] = [];
+  if (typeof credential.id !== 'string' || !ID_PATTERN.test(credential.id)) {
+    problems.push(`${where}.id must be letters, digits, _ and -`);
+  }
+  if (credential.format === 'mso_mdoc') {
+    if (typeof credential.meta?.doctype_value !== 'string') {
+      problems.push(`${where}.meta.doctype_value is required for mso_mdoc`);
+    }
+  } else if (credential.format === 'dc+sd-jwt') {
+    if (!isStringList(credential.meta?.vct_values)) {
+      problems.push(`${where}.meta.vct_values is required for dc+sd-jwt`);
+    }
+  } else {
+    problems.push(`${where}.format must be mso_mdoc or dc+sd-jwt`);
+  }
+  if (credential.trusted_authorities !== undefined) {
+    problems.push(...validateTrustedAuthorities(credential.trusted_authorities, where));
+  }
+
+  const claimIds = new Set<string>();
+  if (credential.claims !== undefined) {
+    if (!isNonEmptyArray(credential.claims)) {
+      problems.push(`${where}.claims must be a non-empty array`);
+    } else {
+      credential.claims.forEach((claim, i) => {
+        const path = isObject(claim) ? claim.path : undefined;
+        const validPath =
+          credential.format === 'mso_mdoc'
+            ? Array.isArray(path) && path.length === 2 && path.every(segment => typeof segment === 'string')
+            : isNonEmptyArray(path) && path.every(segment => typeof segment === 'string' || segment === null || Number.isInteger(segment));
+        if (!validPath) {
+          problems.push(`${where}.claims[${i}].path is not a valid ${credential.format} claims path`);
+        }
+        if (isObject(claim) && claim.id !== undefined) {
+          claimIds.add(claim.id);
+        }
+      });
+    }
+  }
+  if (credential.claim_sets !== undefined) {
+    if (!isNonEmptyArray(credential.claim_sets) || !credential.claim_sets.every(isStringList)) {
+      problems.push(`${where}.claim_sets must be a non-empty array of claim id arrays`);
+    } else {
+      const unknown = (credential.claim_sets as string[][]).flat().filter(id => !claimIds.has(id));
+      if (unknown.length > 0) {
+        problems.push(`${where}.claim_sets references unknown claims: ${[...new Set(unknown)].join(', ')}`);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Validate a DCQL query, returning the problems found; an empty list means valid
+ */
+export function validateDcqlQuery(query: unknown): string[] {
+  if (!isObject(query) || !isNonEmptyArray(query.credentials)) {
+    return ['credentials must be a non-empty array'];
+  }
+  const problems = query.credentials.flatMap((credential, i) => validateCredentialQuery(credential, `credentials[${i}]`));
+
+  const ids = query.credentials.map(credential => (isObject(credential) ? credential.id : undefined));
+  if (new Set(ids).size !== ids.length) {
+    problems.push('credential ids must be unique');
+  }
+  if (query.credential_sets !== undefined) {
+    if (!isNonEmptyArray(query.credential_sets)) {
+      problems.push('credential_sets must be a non-empty array');
+    } else {
+      query.credential_sets.forEach((set, i) => {
+        if (!isObject(set) || !isNonEmptyArray(set.options) || !set.options.every(isStringList)) {
+          problems.push(`credential_sets[${i}].options must be a non-empty array of credential id arrays`);
+        } else if ((set.options as string[][]).flat().some(id => !ids.includes(id))) {
+          problems.push(`credential_sets[${i}] references unknown credentials`);
+        }
+      });
+    }
+  }
+  return problems;
+}
+
+/**
+ * Restrict every credential of a query to the given trusted authorities
+ */
+export function withTrustedAuthorities(query: DcqlQuery, trustedAuthorities: TrustedAuthoritiesQuery[]): DcqlQuery {
+  return {
+    ...query,
+    credentials: query.credentials.map(credential => ({ ...credential, trusted_authorities: trustedAuthorities })),
+  };
+}
+
+export interface PresentedCredential {
+  format: string;
+  doctype?: string;
+  vct?: string;
+  // Disclosed claims: the claims object of an SD-JWT VC, or data elements by namespace for mdocs
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * Values a claims path selects (OpenID4VP, 7): null selects every array element
+ */
+function selectClaim(claims: unknown, path: ClaimPath): unknown[] {
+  let selected: unknown[] = [claims];
+  for (const segment of path) {
+    selected = selected.flatMap(value => {
+      if (segment === null) {
+        return Array.isArray(value) ? value : [];
+      }
+      if (typeof segment === 'number') {
+        return Array.isArray(value) && segment < value.length ? [value[segment]] : [];
+      }
+      return isObject(value) && segment in value ? [value[segment]] : [];
+    });
+  }
+  return selected;
+}
+
+function claimPresent(credential: PresentedCredential, claim: ClaimsQuery): boolean {
+  const values = selectClaim(credential.claims ?? {}, claim.path);
+  return values.length > 0 && (!claim.values || values.some(value => claim.values!.includes(value as string | number | boolean)));
+}
+
+/**
+ * Check a presented credential against its credential query, returning the problems found
+ */
+function matchCredentialQuery(query: CredentialQuery, credential: PresentedCredential): string[] {
+  const problems: string[] = [];
+  if (credential.format !== query.format) {
+    return [`${query.id}: format must be ${query.format}, got ${credential.format}`];
+  }
+  if (query.meta.doctype_value !== undefined && credential.doctype !== query.meta.doctype_value) {
+    problems.push(`${query.id}: doctype must be ${query.meta.doctype_value}, got ${credential.doctype}`);
+  }
+  if (query.meta.vct_values !== undefined && !query.meta.vct_values.includes(credential.vct ?? '')) {
+    problems.push(`${query.id}: vct must be one of ${query.meta.vct_values.join(', ')}, got ${credential.vct}`);
+  }
+  if (query.claims) {
+    const missing = query.claims.filter(claim => !claimPresent(credential, claim));
+    if (query.claim_sets) {
+      const missingIds = new Set(missing.map(claim => claim.id));
+      if (!query.claim_sets.some(set => set.every(id => !missingIds.has(id)))) {
+        problems.push(`${query.id}: no claim set is disclosed in full`);
+      }
+    } else if (missing.length > 0) {
+      problems.push(`${query.id}: claims not disclosed: ${missing.map(claim => claim.path.join('.')).join(', ')}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Check that the presented credentials, keyed by credential query id, satisfy a DCQL query.
+ * Returns the problems found; an empty list means the query is satisfied.
+ */
+export function evaluateDcqlQuery(query: DcqlQuery, presented: Record<string, PresentedCredential[]>): string[] {
+  const problems: string[] = [];
+  const satisfied = new Set<string>();
+  for (const [id, credentials] of Object.entries(presented)) {
+    const credentialQuery = query.credentials.find(credential => credential.id === id);
+    if (!credentialQuery) {
+      problems.push(`${id} is not a credential query id of the request`);
+      continue;
+    }
+    if (credentials.length > 1 && !credentialQuery.multiple) {
+      problems.push(`${id}: ${credentials.length} presentations for a query without multiple`);
+    }
+    const credentialProblems = credentials.flatMap(credential => matchCredentialQuery(credentialQuery, credential));
+    problems.push(...credentialProblems);
+    if (credentials.length > 0 && credentialProblems.length === 0) {
+      satisfied.add(id);
+    }
+  }
+
+  if (query.credential_sets) {
+    query.credential_sets.forEach((set, i) => {
+      if (set.required !== false && !set.options.some(option => option.every(id => satisfied.has(id)))) {
+        problems.push(`credential_sets[${i}] is not satisfied by any option`);
+      }
+    });
+  } else {
+    const missing = query.credentials.filter(credential => !satisfied.has(credential.id));
+    if (missing.length > 0) {
+      problems.push(`credentials not presented: ${missing.map(credential => credential.id).join(', ')}`);
+    }
+  }
+  return problems;
+}
@@ -3,7 +3,31 @@
  *
  * Simulates an OpenID4VP verifier with:
  * - /.well-known/openid4vp-verifier endpoint
- * - /presentation_request endpoint (simulated)
+ * - /presentation_request endpoint creating presentation requests, returned with
+ *   their openid4vp:// authorization request
+ * - DCQL queries: named queries of the catalog (see dcql.ts, listed at /queries), the query
+ *   of a presentation type, or a custom query, optionally restricted to trusted authorities
+ * - /requests/{id} endpoint serving the signed request object (application/oauth-authz-req+jwt),
+ *   fetched with GET or, for request_uri_method=post, with POST and wallet_metadata / wallet_nonce
+ * - client_id under any Client Identifier Prefix (see client-id.ts): redirect_uri, x509_san_dns,
+ *   x509_hash, decentralized_identifier (did:jwk), verifier_attestation and openid_federation
+ * - /trust_anchors endpoint for the root certificate of the request object signer (x509_* prefixes)
+ * - /verifier_attestation_issuer endpoint publishing the key of the verifier attestation issuer
+ * - /.well-known/openid-federation entity configuration, and the entity configuration and fetch
+ *   endpoint of a federation trust anchor under /federation/trust-anchor
+ * - /response/{id} response_uri accepting direct_post vp_token submissions: SD-JWT VC presentations
+ *   (see sd-jwt.ts) and mdoc DeviceResponses (see mdoc.ts) are verified, including the status list
+ *   entries of their credentials (see status-list.ts), and checked against the DCQL query, and
+ *   the verification result is kept for /results/{id}
+ * - /sessions/{id} endpoint polling the state of a presentation session: created, request_fetched,
+ *   response_received, then verified or failed, or expired once expires_in has passed
+ * - direct_post.jwt: the request publishes an ephemeral ECDH-ES key in its client_metadata and
+ *   the response is a JWE encrypted to it (see jwe.ts)
+ * - transaction_data: requests may ask to confirm payments or qualified signatures (see
+ *   transaction-data.ts, listed at /transaction_data_types); the KB-JWT of the SD-JWT VC
+ *   presentations must carry the matching transaction_data_hashes
+ * - /rp/cross-device and /rp/same-device relying party pages (see rp-page.ts): a QR code of the
+ *   openid4vp:// request, or a redirect to the wallet and a redirect_uri back with a response code
  *
  * Usage:
  *   npx ts-node mocks/verifier/index.ts
@@ -11,12 +35,80 @@
  * Environment variables:
  *   PORT - Server port (default: 9001)
  *   VERIFIER_ID - Verifier identifier URL (default: http://localhost:9001)
+ *   REQUEST_LIFETIME - Default lifetime of presentation requests in seconds (default: 300)
+ *   WALLET_URL - Wallet the same-device page opens with the authorization request (default: openid4vp://)
+ *   CLIENT_ID_PREFIX - Client identifier prefix of requests that do not choose one (default: x509_san_dns)
+ *   ISSUER_URL_REWRITES - Base URLs under which the verifier reaches credential issuers, as
+ *     comma-separated issuer=reachable pairs (e.g. http://localhost:9000=http://mock-issuer:9000)
+ *   TRUSTED_ISSUERS - Comma-separated credential issuer URLs whose keys and status lists the
+ *     verifier looks up, including the issuers hosted under their paths (default:
+ *     http://localhost:9000 and the issuers of ISSUER_URL_REWRITES)
  */
 
 import * as http from 'http';
+import {
+  clientId,
+  CLIENT_ID_PREFIXES,
+  createVerifierKeys,
+  encodeRequestObject,
+  entityConfiguration,
+  subordinateStatement,
+  trustAnchorConfiguration,
+  type ClientIdPrefix,
+} from './client-id';
+import * as crypto from 'crypto';
+import { base64UrlDecode, randomToken } from '../shared/crypto';
+import {
+  evaluateDcqlQuery,
+  queryCatalog,
+  validateDcqlQuery,
+  validateTrustedAuthorities,
+  withTrustedAuthorities,
+  type DcqlQuery,
+  type PresentedCredential,
+  type TrustedAuthoritiesQuery,
+} from './dcql';
+import { decryptJwe, ENCRYPTED_RESPONSE_ENC_VALUES, generateEncryptionKey, type EncryptionKey } from './jwe';
+import { verifyDeviceResponse, type MdocVerdict } from './mdoc';
+import { qrCodePng } from '../shared/qr';
+import { renderSessionPage, type RpFlow } from './rp-page';
+import { verifySdJwtPresentation, type SdJwtVerdict } from './sd-jwt';
+import { type StatusListMediaType } from './status-list';
+import { buildTransactionData, transactionDataFor, transactionDataTypes } from './transaction-data';
+import { toPem } from '../shared/x509';
 
 const PORT = parseInt(process.env.PORT || '9001', 10);
 const VERIFIER_ID = process.env.VERIFIER_ID || `http://localhost:${PORT}`;
+const REQUEST_LIFETIME = parseInt(process.env.REQUEST_LIFETIME || '300', 10);
+const WALLET_URL = process.env.WALLET_URL || 'openid4vp://';
+const ISSUER_URL_REWRITES = (process.env.ISSUER_URL_REWRITES || '')
+  .split(',')
+  .filter(Boolean)
+  .map(pair => pair.split('=') as [string, string]);
+const TRUSTED_ISSUERS = [
+  ...(process.env.TRUSTED_ISSUERS || 'http://localhost:9000').split(',').map(url => url.trim()).filter(Boolean),
+  ...ISSUER_URL_REWRITES.map(([from]) => from),
+];
+
+// Allowed distance of key binding JWT iat from the current time, in seconds
+const IAT_WINDOW = 300;
+
+const CLIENT_ID_PREFIX = (process.env.CLIENT_ID_PREFIX || 'x509_san_dns') as ClientIdPrefix;
+if (!CLIENT_ID_PREFIXES.includes(CLIENT_ID_PREFIX)) {
+  throw new Error(`CLIENT_ID_PREFIX must be one of ${CLIENT_ID_PREFIXES.join(', ')}`);
+}
+
+// Key material of every client identifier prefix, generated at startup
+const verifierKeys = createVerifierKeys(VERIFIER_ID);
+
+// Static discovery audience of request objects (OpenID4VP, 5.8)
+const SELF_ISSUED_AUDIENCE = 'https://self-issued.me/v2';
+
+// Credential formats the verifier checks (OpenID4VP, 11.1), with their COSE and JOSE algorithms
+const VP_FORMATS_SUPPORTED = {
+  mso_mdoc: { issuerauth_alg_values: [-7], deviceauth_alg_values: [-7] },
+  'dc+sd-jwt': { 'sd-jwt_alg_values': ['ES256'], 'kb-jwt_alg_values': ['ES256'] },
+};
 
 // Verifier metadata
 const verifierMetadata = {
@@ -25,17 +117,10 @@ const verifierMetadata = {
   client_name: 'Test Verifier',
   redirect_uris: [`${VERIFIER_ID}/callback`],
   response_types_supported: ['vp_token'],
-  response_modes_supported: ['direct_post'],
-  vp_formats: {
-    mso_mdoc: {
-      alg: ['ES256', 'ES384', 'ES512'],
-    },
-    jwt_vp: {
-      alg: ['ES256', 'ES384'],
-    },
-  },
-  presentation_definition_uri_supported: true,
+  response_modes_supported: ['direct_post', 'direct_post.jwt'],
+  vp_formats_supported: VP_FORMATS_SUPPORTED,
   request_object_signing_alg_values_supported: ['ES256'],
+  request_uri_methods_supported: ['get', 'post'],
   display: [
     {
       name: 'Test Verifier',
@@ -52,20 +137,706 @@ const verifierMetadata = {
   organization_id: 'test-org-001',
 };
 
-// Supported presentation types
-const presentationTypes = {
+// Supported presentation types, each requested with a query of the catalog
+const presentationTypes: Record<string, { name: string; required_fields: string[]; query: string }> = {
   'eu.europa.ec.eudi.pid.1': {
     name: 'European Digital Identity',
     required_fields: ['family_name', 'given_name', 'birth_date'],
+    query: 'pid_mdoc',
   },
   'org.iso.18013.5.1.mDL': {
     name: "Mobile Driver's License",
     required_fields: ['family_name', 'given_name', 'document_number'],
+    query: 'mdl',
   },
 };
 
-function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+// Query of requests that choose none
+const DEFAULT_QUERY = 'pid_mdoc';
+
+// Client metadata sent in every request object
+const clientMetadata = {
+  client_name: 'Test Verifier',
+  vp_formats_supported: VP_FORMATS_SUPPORTED,
+};
+
+type RequestUriMethod = 'get' | 'post';
+
+const RESPONSE_MODES = ['direct_post', 'direct_post.jwt'];
+
+type SessionStatus = 'created' | 'request_fetched' | 'response_received' | 'verified' | 'failed' | 'expired';
+
+type PresentationCheck = 'encryption' | 'state' | 'presentations' | 'dcql_query';
+
+// Verification result of the response to a presentation request
+interface PresentationResult {
+  request_id: string;
+  received_at: string;
+  valid: boolean;
+  checks: Partial<Record<PresentationCheck, boolean>>;
+  failures: string[];
+  // Verdicts of the presentations, by credential query id
+  credentials: Record<string, (SdJwtVerdict | MdocVerdict)[]>;
+  // Error response of the wallet, instead of a vp_token
+  wallet_error?: { error: string; error_description?: string };
+}
+
+interface PresentationRequest {
+  id: string;
+  clientIdPrefix: ClientIdPrefix;
+  clientId: string;
+  responseUri: string;
+  // Ephemeral key the response is encrypted to, for direct_post.jwt
+  encryptionKey?: EncryptionKey;
+  // Catalog name of the query, if it came from the catalog
+  queryName?: string;
+  dcqlQuery: DcqlQuery;
+  // Encoded transaction_data entries, for requests asking to confirm transactions
+  transactionData?: string[];
+  nonce: string;
+  state: string;
+  requestUriMethod: RequestUriMethod;
+  // Lifetime of the request in seconds, and when it ends
+  expiresIn: number;
+  expiresAt: number;
+  // Session state; expired is derived from expiresAt while no response was received
+  status: SessionStatus;
+  createdAt: string;
+  requestFetchedAt?: string;
+  responseReceivedAt?: string;
+  result?: PresentationResult;
+  // Relying party page flow of requests started at /rp/cross-device or /rp/same-device
+  flow?: RpFlow;
+  // Wallet the same-device page opens, and the response code its redirect_uri carries
+  walletUrl?: string;
+  responseCode?: string;
+}
+
+const presentationRequests = new Map<string, PresentationRequest>();
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Current status of a session: a session still waiting for the wallet expires with its request
+ */
+function sessionStatus(presentationRequest: PresentationRequest): SessionStatus {
+  const waiting = presentationRequest.status === 'created' || presentationRequest.status === 'request_fetched';
+  return waiting && presentationRequest.expiresAt <= nowSeconds() ? 'expired' : presentationRequest.status;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Send an OAuth / OpenID4VP error response
+ */
+function sendError(res: http.ServerResponse, status: number, error: string, description: string) {
+  console.log(`  -> ${status} ${error}: ${description}`);
+  sendJson(res, status, { error, error_description: description }, { 'Cache-Control': 'no-store' });
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Parse a JSON or form-encoded request body
+ */
+async function parseBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const body = await readBody(req);
+  if (!body) {
+    return {};
+  }
+  if ((req.headers['content-type'] || '').includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+  return JSON.parse(body);
+}
+
+/**
+ * A string parameter of a request body. Throws if it is present but not a string.
+ */
+function optionalString(body: Record<string, unknown>, name: string): string | undefined {
+  const value = body[name];
+  if (value !== undefined && typeof value !== 'string') {
+    throw new Error(`${name} must be a string`);
+  }
+  return value as string | undefined;
+}
+
+/**
+ * Authorization request parameters of a presentation request
+ */
+function requestParameters(presentationRequest: PresentationRequest): Record<string, unknown> {
+  const { encryptionKey } = presentationRequest;
+  return {
+    client_id: presentationRequest.clientId,
+    response_type: 'vp_token',
+    response_mode: encryptionKey ? 'direct_post.jwt' : 'direct_post',
+    response_uri: presentationRequest.responseUri,
+    nonce: presentationRequest.nonce,
+    state: presentationRequest.state,
+    dcql_query: presentationRequest.dcqlQuery,
+    ...(presentationRequest.transactionData ? { transaction_data: presentationRequest.transactionData } : {}),
+    client_metadata: encryptionKey
+      ? { ...clientMetadata, jwks: { keys: [encryptionKey.publicJwk] }, encrypted_response_enc_values_supported: ENCRYPTED_RESPONSE_ENC_VALUES }
+      : clientMetadata,
+  };
+}
+
+/**
+ * Authorization request passing the request object by reference, as an openid4vp:// URL or
+ * under the URL of a wallet. The redirect_uri prefix cannot sign requests, so its parameters
+ * are passed by value instead.
+ */
+function authorizationRequest(presentationRequest: PresentationRequest, base = 'openid4vp://'): string {
+  const prefix = base.endsWith('://') ? base : `${base.replace(/\/$/, '')}/`;
+  if (presentationRequest.clientIdPrefix === 'redirect_uri') {
+    const parameters = Object.entries(requestParameters(presentationRequest)).map(
+      ([name, value]): [string, string] => [name, typeof value === 'string' ? value : JSON.stringify(value)]
+    );
+    return `${prefix}?${new URLSearchParams(parameters).toString()}`;
+  }
+  const params = new URLSearchParams({
+    client_id: presentationRequest.clientId,
+    request_uri: `${VERIFIER_ID}/requests/${presentationRequest.id}`,
+  });
+  if (presentationRequest.requestUriMethod === 'post') {
+    params.set('request_uri_method', 'post');
+  }
+  return `${prefix}?${params.toString()}`;
+}
+
+/**
+ * Encode the request object of a presentation request, echoing the wallet_nonce if the wallet sent one
+ */
+function requestObject(presentationRequest: PresentationRequest, walletNonce?: string): string {
+  return encodeRequestObject(presentationRequest.clientIdPrefix, verifierKeys, {
+    iss: presentationRequest.clientId,
+    aud: SELF_ISSUED_AUDIENCE,
+    iat: nowSeconds(),
+    exp: presentationRequest.expiresAt,
+    ...requestParameters(presentationRequest),
+    ...(walletNonce ? { wallet_nonce: walletNonce } : {}),
+  });
+}
+
+/**
+ * Resolve the DCQL query a presentation request asks for: a custom dcql_query, a catalog
+ * query by name, or the query of a presentation type. Throws on an invalid choice.
+ */
+function resolveQuery(body: Record<string, unknown>): { queryName?: string; dcqlQuery: DcqlQuery } {
+  let resolved: { queryName?: string; dcqlQuery: DcqlQuery };
+  if (body.dcql_query !== undefined) {
+    const problems = validateDcqlQuery(body.dcql_query);
+    if (problems.length > 0) {
+      throw new Error(`Invalid dcql_query: ${problems.join('; ')}`);
+    }
+    resolved = { dcqlQuery: body.dcql_query as DcqlQuery };
+  } else {
+    const presentationType = optionalString(body, 'presentation_type');
+    const queryName = presentationType !== undefined ? presentationTypes[presentationType]?.query : optionalString(body, 'query') ?? DEFAULT_QUERY;
+    if (!queryName || !Object.prototype.hasOwnProperty.call(queryCatalog, queryName)) {
+      throw new Error(`Unknown ${presentationType !== undefined ? `presentation type ${presentationType}` : `query ${queryName}`}`);
+    }
+    resolved = { queryName, dcqlQuery: queryCatalog[queryName].dcql_query };
+  }
+  if (body.trusted_authorities !== undefined) {
+    const problems = validateTrustedAuthorities(body.trusted_authorities, 'body');
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+    resolved.dcqlQuery = withTrustedAuthorities(resolved.dcqlQuery, body.trusted_authorities as TrustedAuthoritiesQuery[]);
+  }
+  return resolved;
+}
+
+/**
+ * Create and store a presentation request from the parameters of a creation request.
+ * Throws with the reason the parameters are invalid.
+ */
+function createPresentationRequest(
+  body: Record<string, unknown>,
+  page?: { flow: RpFlow; walletUrl?: string }
+): PresentationRequest {
+  const requestUriMethod = body.request_uri_method ?? 'get';
+  if (requestUriMethod !== 'get' && requestUriMethod !== 'post') {
+    throw new Error('request_uri_method must be get or post');
+  }
+  const clientIdPrefix = (optionalString(body, 'client_id_prefix') ?? CLIENT_ID_PREFIX) as ClientIdPrefix;
+  if (!CLIENT_ID_PREFIXES.includes(clientIdPrefix)) {
+    throw new Error(`client_id_prefix must be one of ${CLIENT_ID_PREFIXES.join(', ')}`);
+  }
+  const responseMode = optionalString(body, 'response_mode') ?? 'direct_post';
+  if (!RESPONSE_MODES.includes(responseMode)) {
+    throw new Error(`response_mode must be one of ${RESPONSE_MODES.join(', ')}`);
+  }
+  const expiresIn = body.expires_in ?? REQUEST_LIFETIME;
+  if (typeof expiresIn !== 'number' || !Number.isInteger(expiresIn) || expiresIn <= 0) {
+    throw new Error('expires_in must be a positive number of seconds');
+  }
+  const query = resolveQuery(body);
+  const transactionData = body.transaction_data !== undefined ? buildTransactionData(body.transaction_data, query.dcqlQuery) : undefined;
+
+  const id = `req-${Date.now()}-${randomToken(6)}`;
+  const responseUri = `${VERIFIER_ID}/response/${id}`;
+  const presentationRequest: PresentationRequest = {
+    id,
+    clientIdPrefix,
+    clientId: clientId(clientIdPrefix, verifierKeys, responseUri),
+    responseUri,
+    ...(responseMode === 'direct_post.jwt' ? { encryptionKey: generateEncryptionKey() } : {}),
+    ...query,
+    ...(transactionData ? { transactionData } : {}),
+    nonce: randomToken(16),
+    state: randomToken(16),
+    requestUriMethod,
+    expiresIn,
+    expiresAt: nowSeconds() + expiresIn,
+    status: 'created',
+    createdAt: new Date().toISOString(),
+    ...(page ? { flow: page.flow, walletUrl: page.walletUrl } : {}),
+  };
+  presentationRequests.set(presentationRequest.id, presentationRequest);
+  return presentationRequest;
+}
+
+/**
+ * POST /presentation_request - create a presentation request:
+ * {"request_uri_method": "get" | "post", "client_id_prefix": "x509_hash" | ..., "response_mode": "direct_post.jwt",
+ *  "expires_in": 60,
+ *  "query": "pid_sd_jwt" | "presentation_type": "org.iso.18013.5.1.mDL" | "dcql_query": {...},
+ *  "trusted_authorities": [{"type": "aki", "values": [...]}],
+ *  "transaction_data": [{"type": "payment_data", "credential_ids": ["pid_sd_jwt"]}]}
+ */
+async function handleCreatePresentationRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+  const body = await parseBody(req);
+  let presentationRequest: PresentationRequest;
+  try {
+    presentationRequest = createPresentationRequest(body);
+  } catch (e) {
+    sendError(res, 400, 'invalid_request', (e as Error).message);
+    return;
+  }
+
+  sendJson(res, 200, {
+    request_id: presentationRequest.id,
+    client_id: presentationRequest.clientId,
+    client_id_prefix: presentationRequest.clientIdPrefix,
+    request_uri: `${VERIFIER_ID}/requests/${presentationRequest.id}`,
+    request_uri_method: presentationRequest.requestUriMethod,
+    response_mode: presentationRequest.encryptionKey ? 'direct_post.jwt' : 'direct_post',
+    ...(presentationRequest.queryName ? { query: presentationRequest.queryName } : {}),
+    dcql_query: presentationRequest.dcqlQuery,
+    ...(presentationRequest.transactionData ? { transaction_data: presentationRequest.transactionData } : {}),
+    authorization_request: authorizationRequest(presentationRequest),
+    expires_in: presentationRequest.expiresIn,
+  });
+}
+
+/**
+ * GET or POST /requests/{id} - the signed request object. A POST (request_uri_method=post)
+ * may carry wallet_metadata and wallet_nonce as form parameters.
+ */
+async function handleGetRequestObject(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+  const presentationRequest = presentationRequests.get(decodeURIComponent(url.pathname.split('/').pop()!));
+  if (!presentationRequest || presentationRequest.expiresAt <= nowSeconds()) {
+    sendError(res, 404, 'invalid_request_uri', 'Unknown or expired request_uri');
+    return;
+  }
+
+  let walletNonce: string | undefined;
+  if (req.method === 'POST') {
+    if (presentationRequest.requestUriMethod !== 'post') {
+      sendError(res, 405, 'invalid_request_uri_method', 'request_uri_method is get; fetch the request object with GET');
+      return;
+    }
+    const body = await parseBody(req);
+    const encodedWalletMetadata = optionalString(body, 'wallet_metadata');
+    if (encodedWalletMetadata !== undefined) {
+      const walletMetadata = JSON.parse(encodedWalletMetadata);
+      const algs: unknown = walletMetadata.request_object_signing_alg_values_supported;
+      if (Array.isArray(algs) && !algs.includes('ES256')) {
+        sendError(res, 400, 'invalid_request', 'Request objects are only signed with ES256');
+        return;
+      }
+    }
+    walletNonce = optionalString(body, 'wallet_nonce');
+  }
+
+  if (presentationRequest.status === 'created') {
+    presentationRequest.status = 'request_fetched';
+    presentationRequest.requestFetchedAt = new Date().toISOString();
+  }
+
+  res.writeHead(200, { 'Content-Type': 'application/oauth-authz-req+jwt', 'Cache-Control': 'no-store' });
+  res.end(requestObject(presentationRequest, walletNonce));
+}
+
+/**
+ * URL under which the verifier reaches a URL of a credential issuer. Only URLs of trusted
+ * issuers are fetched, so a presentation cannot make the verifier fetch arbitrary URLs.
+ */
+function trustedIssuerUrl(url: string): URL {
+  if (typeof url !== 'string' || !TRUSTED_ISSUERS.some(trusted => url === trusted || url.startsWith(`${trusted}/`))) {
+    throw new Error(`${url} is not a trusted issuer`);
+  }
+  const rewrite = ISSUER_URL_REWRITES.find(([from]) => url === from || url.startsWith(`${from}/`));
+  return new URL(rewrite ? rewrite[1] + url.slice(rewrite[0].length) : url);
+}
+
+/**
+ * Signing keys of a credential issuer from its JWT VC Issuer Metadata. The well-known segment
+ * goes between the host and the path of the issuer identifier (SD-JWT VC, 5).
+ */
+async function resolveIssuerKeys(issuer: string): Promise<crypto.JsonWebKey[]> {
+  const base = trustedIssuerUrl(issuer);
+  const metadataUrl = `${base.origin}/.well-known/jwt-vc-issuer${base.pathname.replace(/\/$/, '')}`;
+  const response = await fetch(metadataUrl, { signal: AbortSignal.timeout(3000) });
+  if (!response.ok) {
+    throw new Error(`jwt-vc-issuer metadata returned ${response.status}`);
+  }
+  const metadata = await response.json();
+  if (metadata.issuer !== issuer) {
+    throw new Error(`jwt-vc-issuer metadata is for ${metadata.issuer}`);
+  }
+  return metadata.jwks?.keys ?? [];
+}
+
+/**
+ * Status list token of a credential issuer, in JWT or CWT form
+ */
+async function fetchStatusList(uri: string, mediaType: StatusListMediaType): Promise<Buffer> {
+  const response = await fetch(trustedIssuerUrl(uri), { headers: { Accept: mediaType }, signal: AbortSignal.timeout(3000) });
+  if (!response.ok) {
+    throw new Error(`status list returned ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Verify the presentations of one credential query according to its format
+ */
+async function verifyPresentations(
+  presentationRequest: PresentationRequest,
+  id: string,
+  presentations: unknown[]
+): Promise<(SdJwtVerdict | MdocVerdict)[]> {
+  const format = presentationRequest.dcqlQuery.credentials.find(credential => credential.id === id)?.format;
+  const verdicts: (SdJwtVerdict | MdocVerdict)[] = [];
+  for (const presentation of presentations) {
+    if (format === 'mso_mdoc') {
+      verdicts.push(
+        ...(await verifyDeviceResponse(
+          presentation,
+          {
+            clientId: presentationRequest.clientId,
+            nonce: presentationRequest.nonce,
+            responseUri: presentationRequest.responseUri,
+            // Encrypted responses bind the session transcript to the encryption key
+            ...(presentationRequest.encryptionKey ? { jwkThumbprint: base64UrlDecode(presentationRequest.encryptionKey.kid) } : {}),
+          },
+          fetchStatusList
+        ))
+      );
+    } else {
+      verdicts.push(
+        await verifySdJwtPresentation(presentation, {
+          clientId: presentationRequest.clientId,
+          nonce: presentationRequest.nonce,
+          iatWindow: IAT_WINDOW,
+          resolveIssuerKeys,
+          fetchStatusList,
+          transactionData: transactionDataFor(presentationRequest.transactionData ?? [], id),
+        })
+      );
+    }
+  }
+  return verdicts;
+}
+
+/**
+ * Verify a response: its encryption for direct_post.jwt, every presentation of the vp_token,
+ * and the DCQL query against the disclosed claims
+ */
+async function verifyResponse(presentationRequest: PresentationRequest, body: Record<string, unknown>): Promise<PresentationResult> {
+  const checks: Partial<Record<PresentationCheck, boolean>> = {};
+  const failures: string[] = [];
+  const check = (name: PresentationCheck, passed: boolean, failure: string) => {
+    checks[name] = passed;
+    if (!passed) {
+      failures.push(failure);
+    }
+  };
+  const result = (credentials: PresentationResult['credentials'] = {}): PresentationResult => ({
+    request_id: presentationRequest.id,
+    received_at: new Date().toISOString(),
+    valid: failures.length === 0,
+    checks,
+    failures,
+    credentials,
+  });
+
+  if (presentationRequest.encryptionKey) {
+    try {
+      body = decryptJwe(body.response, presentationRequest.encryptionKey);
+    } catch (e) {
+      check('encryption', false, `response cannot be decrypted: ${(e as Error).message}`);
+      return result();
+    }
+    checks.encryption = true;
+  }
+  if (body.vp_token === undefined && body.error === undefined) {
+    throw new Error('vp_token or error is required');
+  }
+
+  check('state', body.state === presentationRequest.state, 'state does not match the state of the request');
+  const error = optionalString(body, 'error');
+  if (error !== undefined) {
+    const errorDescription = optionalString(body, 'error_description');
+    failures.push(`wallet returned ${error}`);
+    return { ...result(), wallet_error: { error, ...(errorDescription ? { error_description: errorDescription } : {}) } };
+  }
+
+  // vp_token is a JSON object of presentation arrays, keyed by credential query id
+  const vpToken = typeof body.vp_token === 'string' ? JSON.parse(body.vp_token) : body.vp_token;
+  if (vpToken === null || typeof vpToken !== 'object' || Array.isArray(vpToken)) {
+    throw new Error('vp_token must be a JSON object keyed by credential query id');
+  }
+  const credentials: PresentationResult['credentials'] = {};
+  for (const [id, presentations] of Object.entries(vpToken)) {
+    credentials[id] = await verifyPresentations(presentationRequest, id, Array.isArray(presentations) ? presentations : [presentations]);
+  }
+
+  const verdicts = Object.values(credentials).flat();
+  check('presentations', verdicts.every(verdict => verdict.valid), 'not every presentation verifies');
+  const presented = Object.fromEntries(
+    Object.entries(credentials).map(([id, idVerdicts]) => [id, idVerdicts.filter(verdict => verdict.valid) as PresentedCredential[]])
+  );
+  const problems = evaluateDcqlQuery(presentationRequest.dcqlQuery, presented);
+  check('dcql_query', problems.length === 0, `DCQL query is not satisfied: ${problems.join('; ')}`);
+  return result(credentials);
+}
+
+/**
+ * POST /response/{id} - the response_uri: a direct_post of vp_token and state, or of an error.
+ * For direct_post.jwt they come encrypted in the response parameter; a response that cannot
+ * be decrypted is recorded and rejected.
+ */
+async function handleResponse(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+  const presentationRequest = presentationRequests.get(decodeURIComponent(url.pathname.split('/').pop()!));
+  if (!presentationRequest) {
+    sendError(res, 404, 'invalid_request', 'Unknown presentation request');
+    return;
+  }
+  // Read the body first, so checking and moving the session state is one synchronous step
+  const body = await parseBody(req);
+  const status = sessionStatus(presentationRequest);
+  if (status === 'expired') {
+    sendError(res, 400, 'invalid_request', 'Presentation request has expired');
+    return;
+  }
+  if (status !== 'created' && status !== 'request_fetched') {
+    sendError(res, 400, 'invalid_request', 'A response was already received for this request');
+    return;
+  }
+
+  // Verification may fetch issuer metadata; pollers see the response as received meanwhile
+  presentationRequest.status = 'response_received';
+  presentationRequest.responseReceivedAt = new Date().toISOString();
+  let result: PresentationResult;
+  try {
+    result = await verifyResponse(presentationRequest, body);
+  } catch (e) {
+    // A malformed response is not recorded; the wallet may still send a proper one
+    presentationRequest.status = status;
+    presentationRequest.responseReceivedAt = undefined;
+    throw e;
+  }
+  presentationRequest.result = result;
+  presentationRequest.status = result.valid ? 'verified' : 'failed';
+  if (result.checks.encryption === false) {
+    sendError(res, 400, 'invalid_request', result.failures[0]);
+    return;
+  }
+  console.log(`  -> response ${result.valid ? 'verified' : `failed: ${result.failures.join('; ')}`}`);
+  if (presentationRequest.flow === 'same_device') {
+    // The wallet sends the user back to the page, which shows the result for the response code
+    presentationRequest.responseCode = randomToken(16);
+    sendJson(
+      res,
+      200,
+      { redirect_uri: `${VERIFIER_ID}/rp/sessions/${presentationRequest.id}?response_code=${presentationRequest.responseCode}` },
+      { 'Cache-Control': 'no-store' }
+    );
+    return;
+  }
+  sendJson(res, 200, {}, { 'Cache-Control': 'no-store' });
+}
+
+/**
+ * GET /results/{id} - verification result of the response to a presentation request
+ */
+async function handleGetResult(_req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+  const presentationRequest = presentationRequests.get(decodeURIComponent(url.pathname.split('/').pop()!));
+  if (!presentationRequest) {
+    sendError(res, 404, 'not_found', 'Unknown presentation request');
+    return;
+  }
+  if (!presentationRequest.result) {
+    sendError(res, 404, 'not_found', 'No response received yet');
+    return;
+  }
+  sendJson(res, 200, presentationRequest.result);
+}
+
+/**
+ * GET /sessions/{id} - state of a presentation session, with the verification result once completed
+ */
+async function handleGetSession(_req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+  const presentationRequest = presentationRequests.get(decodeURIComponent(url.pathname.split('/').pop()!));
+  if (!presentationRequest) {
+    sendError(res, 404, 'not_found', 'Unknown presentation request');
+    return;
+  }
+  sendJson(
+    res,
+    200,
+    {
+      request_id: presentationRequest.id,
+      ...(presentationRequest.flow ? { flow: presentationRequest.flow } : {}),
+      status: sessionStatus(presentationRequest),
+      created_at: presentationRequest.createdAt,
+      expires_at: new Date(presentationRequest.expiresAt * 1000).toISOString(),
+      ...(presentationRequest.requestFetchedAt ? { request_fetched_at: presentationRequest.requestFetchedAt } : {}),
+      ...(presentationRequest.responseReceivedAt ? { response_received_at: presentationRequest.responseReceivedAt } : {}),
+      ...(presentationRequest.result ? { result: presentationRequest.result } : {}),
+    },
+    { 'Cache-Control': 'no-store' }
+  );
+}
+
+type RouteHandler = (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => Promise<void>;
+
+/**
+ * GET /rp/cross-device and /rp/same-device - start a presentation at the relying party page.
+ * The query parameters are those of POST /presentation_request (expires_in in seconds,
+ * transaction_data as comma-separated types), and for same-device the wallet_url the page
+ * opens (default: WALLET_URL).
+ */
+function handleStartRpFlow(flow: RpFlow): RouteHandler {
+  return async (_req, res, url) => {
+    const { wallet_url: walletUrl, expires_in: expiresIn, transaction_data: transactionData, ...parameters } = Object.fromEntries(url.searchParams);
+    const body: Record<string, unknown> = {
+      ...parameters,
+      ...(expiresIn !== undefined ? { expires_in: Number(expiresIn) } : {}),
+      ...(transactionData !== undefined ? { transaction_data: transactionData.split(',').map(type => ({ type })) } : {}),
+    };
+    let presentationRequest: PresentationRequest;
+    try {
+      presentationRequest = createPresentationRequest(body, { flow, walletUrl: flow === 'same_device' ? walletUrl ?? WALLET_URL : undefined });
+    } catch (e) {
+      sendError(res, 400, 'invalid_request', (e as Error).message);
+      return;
+    }
+    res.writeHead(302, { Location: `${VERIFIER_ID}/rp/sessions/${presentationRequest.id}` });
+    res.end();
+  };
+}
+
+/**
+ * GET /rp/sessions/{id} - relying party page of a session, and /rp/sessions/{id}/qr.png the QR
+ * code of its authorization request. A same-device page redirects to the wallet until the wallet
+ * fetched the request, and shows the result only when opened with the response_code of the
+ * redirect_uri the wallet was given.
+ */
+async function handleRpSession(_req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+  const [, , , id, resource] = url.pathname.split('/');
+  const presentationRequest = presentationRequests.get(decodeURIComponent(id));
+  if (!presentationRequest?.flow) {
+    sendError(res, 404, 'not_found', 'Unknown relying party session');
+    return;
+  }
+
+  if (resource === 'qr.png') {
+    res.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'no-store' });
+    res.end(qrCodePng(authorizationRequest(presentationRequest)));
+    return;
+  }
+
+  const status = sessionStatus(presentationRequest);
+  const responseCode = url.searchParams.get('response_code');
+  const codeMatches = presentationRequest.flow === 'cross_device' || responseCode === presentationRequest.responseCode;
+  const html = renderSessionPage({
+    requestId: presentationRequest.id,
+    flow: presentationRequest.flow,
+    status,
+    final: status === 'verified' || status === 'failed' || status === 'expired',
+    authorizationRequest: authorizationRequest(presentationRequest, presentationRequest.walletUrl),
+    qrCodeUri: `/rp/sessions/${encodeURIComponent(presentationRequest.id)}/qr.png`,
+    openWallet: presentationRequest.flow === 'same_device' && status === 'created' && responseCode === null,
+    description: presentationRequest.queryName ? queryCatalog[presentationRequest.queryName].description : undefined,
+    ...(presentationRequest.result && codeMatches ? { result: presentationRequest.result } : {}),
+    ...(responseCode !== null && !codeMatches ? { notice: 'The response code does not belong to this session' } : {}),
+  });
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(html);
+}
+
+// Endpoints with a path parameter, which the handler reads from the URL
+const parameterizedRoutes: [RegExp, Record<string, RouteHandler>][] = [
+  [/^\/requests\/[^/]+$/, { GET: handleGetRequestObject, POST: handleGetRequestObject }],
+  [/^\/response\/[^/]+$/, { POST: handleResponse }],
+  [/^\/results\/[^/]+$/, { GET: handleGetResult }],
+  [/^\/sessions\/[^/]+$/, { GET: handleGetSession }],
+  [/^\/rp\/sessions\/[^/]+(\/qr\.png)?$/, { GET: handleRpSession }],
+];
+
+// Presentation flow endpoints, by path and HTTP method
+const routes: Record<string, Record<string, RouteHandler>> = {
+  '/presentation_request': { POST: handleCreatePresentationRequest },
+  '/rp/cross-device': { GET: handleStartRpFlow('cross_device') },
+  '/rp/same-device': { GET: handleStartRpFlow('same_device') },
+};
+
+/**
+ * Run the handler of a route for the request method, answering 405 for other methods
+ */
+async function dispatch(route: Record<string, RouteHandler>, req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+  const handler = route[req.method || 'GET'];
+  if (!handler) {
+    res.writeHead(405, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Method not allowed' }));
+    return;
+  }
+  try {
+    await handler(req, res, url);
+  } catch (e) {
+    sendError(res, 400, 'invalid_request', `Malformed request: ${(e as Error).message}`);
+  }
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
   const url = req.url || '/';
+  let requestUrl: URL;
+  try {
+    requestUrl = new URL(url, VERIFIER_ID);
+  } catch {
+    sendError(res, 400, 'invalid_request', `Malformed request target: ${url}`);
+    return;
+  }
 
   // CORS headers for testing
   res.setHeader('Access-Control-Allow-Origin', '*');
@@ -80,7 +851,7 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
 
   console.log(`[${new Date().toISOString()}] ${req.method} ${url}`);
 
-  switch (url) {
+  switch (requestUrl.pathname) {
     case '/.well-known/openid4vp-verifier':
     case '/.well-known/openid-configuration':
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -92,68 +863,61 @@ function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
       res.end(JSON.stringify(presentationTypes, null, 2));
       break;
 
-    case '/health':
+    case '/queries':
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ status: 'ok', verifier: VERIFIER_ID }));
+      res.end(JSON.stringify(queryCatalog, null, 2));
       break;
 
-    case '/presentation_request':
-      if (req.method === 'POST') {
-        // Simulate creating a presentation request
-        const requestId = `req-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(
-          JSON.stringify({
-            request_id: requestId,
-            request_uri: `${VERIFIER_ID}/requests/${requestId}`,
-            expires_in: 300,
-          })
-        );
+    case '/transaction_data_types':
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(transactionDataTypes, null, 2));
+      break;
+
+    case '/trust_anchors':
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ certificates: [toPem(verifierKeys.caCertificate)] }, null, 2));
+      break;
+
+    case '/verifier_attestation_issuer':
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ issuer: `${VERIFIER_ID}/attestation-issuer`, jwks: { keys: [verifierKeys.attestationIssuerKey.publicJwk] } }, null, 2));
+      break;
+
+    case '/.well-known/openid-federation':
+      res.writeHead(200, { 'Content-Type': 'application/entity-statement+jwt' });
+      res.end(entityConfiguration(verifierKeys, clientMetadata));
+      break;
+
+    case '/federation/trust-anchor/.well-known/openid-federation':
+      res.writeHead(200, { 'Content-Type': 'application/entity-statement+jwt' });
+      res.end(trustAnchorConfiguration(verifierKeys));
+      break;
+
+    case '/federation/trust-anchor/fetch':
+      if (requestUrl.searchParams.get('sub') === VERIFIER_ID) {
+        res.writeHead(200, { 'Content-Type': 'application/entity-statement+jwt' });
+        res.end(subordinateStatement(verifierKeys));
       } else {
-        res.writeHead(405, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Method not allowed' }));
+        sendError(res, 404, 'not_found', `Unknown subordinate: ${requestUrl.searchParams.get('sub')}`);
       }
       break;
 
-    default:
-      // Handle dynamic request URIs
-      if (url.startsWith('/requests/')) {
-        const requestId = url.split('/').pop();
-        // Return a mock presentation definition
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(
-          JSON.stringify({
-            response_type: 'vp_token',
-            client_id: VERIFIER_ID,
-            redirect_uri: `${VERIFIER_ID}/callback`,
-            response_mode: 'direct_post',
-            nonce: `nonce-${requestId}`,
-            presentation_definition: {
-              id: `pd-${requestId}`,
-              input_descriptors: [
-                {
-                  id: 'eu.europa.ec.eudi.pid.1',
-                  format: {
-                    mso_mdoc: {
-                      alg: ['ES256'],
-                    },
-                  },
-                  constraints: {
-                    limit_disclosure: 'required',
-                    fields: [
-                      { path: ["$['family_name']"], intent_to_retain: false },
-                      { path: ["$['given_name']"], intent_to_retain: false },
-                    ],
-                  },
-                },
-              ],
-            },
-          })
-        );
+    case '/health':
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', verifier: VERIFIER_ID }));
+      break;
+
+    default: {
+      const route =
+        routes[requestUrl.pathname] ||
+        parameterizedRoutes.find(([pattern]) => pattern.test(requestUrl.pathname))?.[1];
+      if (route) {
+        await dispatch(route, req, res, requestUrl);
       } else {
         res.writeHead(404, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: 'Not found', path: url }));
       }
+    }
   }
 }
 
@@ -163,7 +927,20 @@ server.listen(PORT, () => {
   console.log(`Mock Verifier Service running on ${VERIFIER_ID}`);
   console.log(`  /.well-known/openid4vp-verifier - Verifier metadata`);
   console.log(`  /presentation_types - Supported presentation types`);
+  console.log(`  /queries - Named DCQL queries`);
+  console.log(`  /transaction_data_types - Transaction data types requests may ask to confirm`);
   console.log(`  /presentation_request - Create presentation request (POST)`);
+  console.log(`  /requests/{id} - Signed request object (GET, or POST for request_uri_method=post)`);
+  console.log(`  /response/{id} - Response URI (POST, direct_post or direct_post.jwt)`);
+  console.log(`  /results/{id} - Verification result of the response`);
+  console.log(`  /sessions/{id} - Presentation session state, for polling`);
+  console.log(`  /rp/cross-device, /rp/same-device - Relying party page of a new session (GET)`);
+  console.log(`  /rp/sessions/{id} - Relying party page with QR code or wallet link, and the disclosed claims`);
+  console.log(`  /trust_anchors - Trust anchor of the request object signer`);
+  console.log(`  /verifier_attestation_issuer - Key of the verifier attestation issuer`);
+  console.log(`  /.well-known/openid-federation - Entity configuration`);
+  console.log(`  /federation/trust-anchor/.well-known/openid-federation, /federation/trust-anchor/fetch - Federation trust anchor`);
+  console.log(`  Default client identifier prefix: ${CLIENT_ID_PREFIX}`);
   console.log(`  /health - Health check endpoint`);
 });
 
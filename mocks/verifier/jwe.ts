@@ -0,0 +1,113 @@
+/**
+ * Response encryption (OpenID4VP, 8.3) for the mock verifier
+ *
+ * Requests with response_mode direct_post.jwt publish an ephemeral ECDH-ES
+ * key in their client_metadata; the wallet answers with a compact JWE
+ * (RFC 7516) encrypted to it, with the content key derived directly from the
+ * key agreement (ECDH-ES without key wrapping, RFC 7518, 4.6).
+ */
+
+import * as crypto from 'crypto';
+import { base64UrlDecode, jwkThumbprint } from '../shared/crypto';
+
+// Content encryption algorithms and their key lengths in bits
+const CONTENT_ENCRYPTION: Record<string, number> = {
+  A128GCM: 128,
+  A256GCM: 256,
+};
+
+export const ENCRYPTED_RESPONSE_ENC_VALUES = Object.keys(CONTENT_ENCRYPTION);
+
+export interface EncryptionKey {
+  kid: string;
+  privateKey: crypto.KeyObject;
+  publicJwk: crypto.JsonWebKey;
+}
+
+/**
+ * Generate an ephemeral P-256 key agreement key identified by its JWK thumbprint
+ */
+export function generateEncryptionKey(): EncryptionKey {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const publicJwk = publicKey.export({ format: 'jwk' });
+  const kid = jwkThumbprint(publicJwk);
+  return { kid, privateKey, publicJwk: { ...publicJwk, kid, use: 'enc', alg: 'ECDH-ES' } };
+}
+
+/**
+ * Concat KDF (NIST SP 800-56A) with SHA-256, as used by ECDH-ES
+ */
+function concatKdf(sharedSecret: Buffer, keyBits: number, algorithmId: string, partyUInfo: Buffer, partyVInfo: Buffer): Buffer {
+  const lengthPrefixed = (data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, data]);
+  };
+  const suppPubInfo = Buffer.alloc(4);
+  suppPubInfo.writeUInt32BE(keyBits);
+  const otherInfo = Buffer.concat([lengthPrefixed(Buffer.from(algorithmId)), lengthPrefixed(partyUInfo), lengthPrefixed(partyVInfo), suppPubInfo]);
+
+  const rounds: Buffer[] = [];
+  for (let counter = 1; rounds.length * 256 < keyBits; counter++) {
+    const round = Buffer.alloc(4);
+    round.writeUInt32BE(counter);
+    rounds.push(crypto.createHash('sha256').update(Buffer.concat([round, sharedSecret, otherInfo])).digest());
+  }
+  return Buffer.concat(rounds).subarray(0, keyBits / 8);
+}
+
+/**
+ * Decrypt a compact JWE encrypted to the key with ECDH-ES and a supported enc,
+ * returning the JSON payload. Throws with the reason the JWE is rejected.
+ */
+export function decryptJwe(jwe: unknown, key: EncryptionKey): Record<string, unknown> {
+  if (typeof jwe !== 'string') {
+    throw new Error('the response parameter with the JWE is missing');
+  }
+  const parts = jwe.split('.');
+  if (parts.length !== 5) {
+    throw new Error('JWE must have five parts');
+  }
+  const [encodedHeader, encryptedKey, iv, ciphertext, tag] = parts;
+  const header = JSON.parse(base64UrlDecode(encodedHeader).toString('utf8'));
+
+  if (header.alg !== 'ECDH-ES') {
+    throw new Error(`alg must be ECDH-ES, got ${header.alg}`);
+  }
+  const keyBits = CONTENT_ENCRYPTION[header.enc];
+  if (!keyBits) {
+    throw new Error(`enc ${header.enc} is not supported, use one of ${ENCRYPTED_RESPONSE_ENC_VALUES.join(', ')}`);
+  }
+  if (header.kid !== undefined && header.kid !== key.kid) {
+    throw new Error(`kid ${header.kid} is not the encryption key of the request`);
+  }
+  if (encryptedKey !== '') {
+    throw new Error('ECDH-ES uses no encrypted key');
+  }
+  if (header.epk?.kty !== 'EC' || header.epk?.crv !== 'P-256') {
+    throw new Error('epk must be an EC P-256 public key');
+  }
+
+  const sharedSecret = crypto.diffieHellman({
+    privateKey: key.privateKey,
+    publicKey: crypto.createPublicKey({ key: { kty: 'EC', crv: 'P-256', x: header.epk.x, y: header.epk.y }, format: 'jwk' }),
+  });
+  const contentKey = concatKdf(
+    sharedSecret,
+    keyBits,
+    header.enc,
+    base64UrlDecode(header.apu ?? ''),
+    base64UrlDecode(header.apv ?? '')
+  );
+
+  const decipher = crypto.createDecipheriv(`aes-${keyBits}-gcm`, contentKey, base64UrlDecode(iv)) as crypto.DecipherGCM;
+  decipher.setAAD(Buffer.from(encodedHeader, 'ascii'));
+  decipher.setAuthTag(base64UrlDecode(tag));
+  let plaintext: Buffer;
+  try {
+    plaintext = Buffer.concat([decipher.update(base64UrlDecode(ciphertext)), decipher.final()]);
+  } catch {
+    throw new Error('JWE does not decrypt with the encryption key of the request');
+  }
+  return JSON.parse(plaintext.toString('utf8'));
+}
@@ -0,0 +1,315 @@
+/**
+ * ISO/IEC 18013-5 mdoc presentation verification for the mock verifier
+ *
+ * OpenID4VP returns mso_mdoc presentations as a base64url-encoded
+ * DeviceResponse. Every document is checked against its issuer-signed Mobile
+ * Security Object (MSO) and the device signature over the session transcript
+ * of the request (OpenID4VP, B.2.6). An MSO that references a status list
+ * entry is also checked against the issuer's status list token. Each check is
+ * evaluated independently so the recorded verdict shows everything that is
+ * wrong with a document.
+ */
+
+import * as crypto from 'crypto';
+import { decodeCbor, encodeCbor, Tagged } from '../shared/cbor';
+import { base64UrlDecode, base64UrlEncode, sha256 } from '../shared/crypto';
+import { statusProblem, statusReference, type FetchStatusList } from './status-list';
+
+// COSE header labels and values (RFC 9052 / RFC 9360)
+const COSE_HEADER_ALG = 1;
+const COSE_HEADER_X5CHAIN = 33;
+const COSE_ALG_ES256 = -7;
+const COSE_HEADER_TYP = 16;
+const COSE_SIGN1_TAG = 18;
+
+// CWT claim keys of status list tokens (RFC 8392 and the status list draft)
+const CWT_CLAIM_SUB = 2;
+const CWT_CLAIM_EXP = 4;
+const CWT_CLAIM_STATUS_LIST = 65533;
+
+export type MdocCheck = 'issuer_signature' | 'doc_type' | 'validity' | 'status' | 'value_digests' | 'device_signature';
+
+export interface HandoverParameters {
+  clientId: string;
+  nonce: string;
+  responseUri: string;
+  // JWK thumbprint of the response encryption key, when the response is encrypted
+  jwkThumbprint?: Buffer;
+}
+
+export interface MdocVerdict {
+  format: 'mso_mdoc';
+  valid: boolean;
+  checks: Partial<Record<MdocCheck, boolean>>;
+  failures: string[];
+  doctype?: string;
+  // Subject of the document signer certificate
+  issuer?: string;
+  // Disclosed data elements, by namespace
+  claims?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * SessionTranscript of OpenID4VP redirect-based flows: no device engagement or
+ * reader key, and the OpenID4VPHandover binding the request parameters
+ */
+export function sessionTranscript(handover: HandoverParameters): unknown[] {
+  const handoverInfo = encodeCbor([handover.clientId, handover.nonce, handover.jwkThumbprint ?? null, handover.responseUri]);
+  return [null, null, ['OpenID4VPHandover', sha256(handoverInfo)]];
+}
+
+/**
+ * Read a key of a decoded CBOR map
+ */
+function field(map: unknown, key: string | number): unknown {
+  if (!(map instanceof Map)) {
+    throw new Error(`expected a map holding ${key}`);
+  }
+  return map.get(key);
+}
+
+/**
+ * Narrow decoded CBOR values, throwing with the name of the value if it has another type
+ */
+function asBytes(value: unknown, name: string): Buffer {
+  if (!Buffer.isBuffer(value)) {
+    throw new Error(`${name} must be a byte string`);
+  }
+  return value;
+}
+
+function asText(value: unknown, name: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${name} must be a text string`);
+  }
+  return value;
+}
+
+function asArray(value: unknown, name: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${name} must be an array`);
+  }
+  return value;
+}
+
+function asTagged(value: unknown, tag: number, name: string): Tagged {
+  if (!(value instanceof Tagged) || value.tag !== tag) {
+    throw new Error(`${name} must be tagged ${tag}`);
+  }
+  return value;
+}
+
+/**
+ * Convert a decoded data element into JSON: maps to objects, byte strings to
+ * base64url and dates to their string form
+ */
+function toJson(value: unknown): unknown {
+  if (value instanceof Tagged) {
+    return toJson(value.value);
+  }
+  if (Buffer.isBuffer(value)) {
+    return base64UrlEncode(value);
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries([...value].map(([key, element]) => [String(key), toJson(element)]));
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJson);
+  }
+  return value;
+}
+
+/**
+ * Verify an untagged ES256 COSE_Sign1 against a public key; a detached payload is passed in
+ */
+function verifyCoseSign1(sign1: unknown[], publicKey: crypto.KeyObject, detachedPayload?: Buffer): boolean {
+  const protectedHeader = asBytes(sign1[0], 'COSE_Sign1 protected header');
+  if (field(decodeCbor(protectedHeader), COSE_HEADER_ALG) !== COSE_ALG_ES256) {
+    return false;
+  }
+  const payload = detachedPayload ?? asBytes(sign1[2], 'COSE_Sign1 payload');
+  const sigStructure = encodeCbor(['Signature1', protectedHeader, Buffer.alloc(0), payload]);
+  return crypto.verify('sha256', sigStructure, { key: publicKey, dsaEncoding: 'ieee-p1363' }, asBytes(sign1[3], 'COSE_Sign1 signature'));
+}
+
+/**
+ * Convert an EC2 P-256 COSE_Key into a public key
+ */
+function coseKeyToPublicKey(coseKey: unknown): crypto.KeyObject {
+  if (field(coseKey, 1) !== 2 || field(coseKey, -1) !== 1) {
+    throw new Error('device key must be an EC2 P-256 COSE_Key');
+  }
+  return crypto.createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: base64UrlEncode(asBytes(field(coseKey, -2), 'device key x')),
+      y: base64UrlEncode(asBytes(field(coseKey, -3), 'device key y')),
+    },
+    format: 'jwk',
+  });
+}
+
+/**
+ * Check the status list entry the MSO references, in a statuslist+cwt signed with the key of
+ * the document signer certificate
+ */
+async function documentStatusProblem(
+  status: unknown,
+  signer: crypto.KeyObject,
+  fetchStatusList: FetchStatusList
+): Promise<string | undefined> {
+  try {
+    const reference = statusReference(status);
+    const token = decodeCbor(await fetchStatusList(reference.uri, 'application/statuslist+cwt'));
+    const sign1 = asArray(asTagged(token, COSE_SIGN1_TAG, 'status list token').value, 'status list token');
+    if (field(decodeCbor(asBytes(sign1[0], 'COSE_Sign1 protected header')), COSE_HEADER_TYP) !== 'application/statuslist+cwt') {
+      throw new Error('status list token typ must be application/statuslist+cwt');
+    }
+    if (!verifyCoseSign1(sign1, signer)) {
+      throw new Error('status list token does not verify against the document signer certificate');
+    }
+    const claims = decodeCbor(asBytes(sign1[2], 'status list token payload'));
+    if (field(claims, CWT_CLAIM_SUB) !== reference.uri) {
+      throw new Error(`status list token is for ${field(claims, CWT_CLAIM_SUB)}`);
+    }
+    const exp = field(claims, CWT_CLAIM_EXP);
+    if (typeof exp === 'number' && exp <= Math.floor(Date.now() / 1000)) {
+      throw new Error('status list token is expired');
+    }
+    const statusList = field(claims, CWT_CLAIM_STATUS_LIST);
+    return statusProblem(reference, field(statusList, 'bits'), asBytes(field(statusList, 'lst'), 'status list lst'));
+  } catch (e) {
+    return `credential status cannot be checked: ${(e as Error).message}`;
+  }
+}
+
+/**
+ * Verify one document of a DeviceResponse
+ */
+async function verifyDocument(document: unknown, transcript: unknown[], fetchStatusList: FetchStatusList): Promise<MdocVerdict> {
+  const checks: Partial<Record<MdocCheck, boolean>> = {};
+  const failures: string[] = [];
+  const check = (name: MdocCheck, passed: boolean, failure: string) => {
+    checks[name] = passed;
+    if (!passed) {
+      failures.push(failure);
+    }
+  };
+
+  const docType = asText(field(document, 'docType'), 'docType');
+  const issuerSigned = field(document, 'issuerSigned');
+  const issuerAuth = asArray(field(issuerSigned, 'issuerAuth'), 'issuerAuth');
+
+  // The document signer certificate is not chained to an IACA; trust is the wallet's concern here
+  const x5chain = field(issuerAuth[1], COSE_HEADER_X5CHAIN);
+  const certificate = new crypto.X509Certificate(asBytes(Array.isArray(x5chain) ? x5chain[0] : x5chain, 'x5chain'));
+  check('issuer_signature', verifyCoseSign1(issuerAuth, certificate.publicKey), 'issuerAuth does not verify against its x5chain certificate');
+
+  const msoBytes = asTagged(decodeCbor(asBytes(issuerAuth[2], 'issuerAuth payload')), 24, 'MobileSecurityObjectBytes');
+  const mso = decodeCbor(asBytes(msoBytes.value, 'MobileSecurityObjectBytes'));
+  check('doc_type', field(mso, 'docType') === docType, `MSO docType ${field(mso, 'docType')} does not match document docType ${docType}`);
+
+  // validFrom and validUntil are tdate (tag 0) strings
+  const validityInfo = field(mso, 'validityInfo');
+  const date = (name: string) => Date.parse(asText(asTagged(field(validityInfo, name), 0, name).value, name));
+  const now = Date.now();
+  check('validity', date('validFrom') <= now && now <= date('validUntil'), 'MSO is expired or not yet valid');
+  const status = field(mso, 'status');
+  if (status !== undefined) {
+    const problem = await documentStatusProblem(toJson(status), certificate.publicKey, fetchStatusList);
+    check('status', problem === undefined, problem!);
+  }
+
+  // Every disclosed item must match its digest in the MSO; the digest covers the complete tag 24 encoding
+  const claims: Record<string, Record<string, unknown>> = {};
+  const mismatched: string[] = [];
+  const nameSpaces = field(issuerSigned, 'nameSpaces') ?? new Map();
+  if (!(nameSpaces instanceof Map)) {
+    throw new Error('nameSpaces must be a map');
+  }
+  for (const [key, items] of nameSpaces as Map<unknown, unknown>) {
+    const nameSpace = asText(key, 'namespace');
+    claims[nameSpace] = {};
+    for (const item of asArray(items, nameSpace)) {
+      const issuerSignedItemBytes = asTagged(item, 24, 'IssuerSignedItemBytes');
+      const issuerSignedItem = decodeCbor(asBytes(issuerSignedItemBytes.value, 'IssuerSignedItemBytes'));
+      const elementIdentifier = asText(field(issuerSignedItem, 'elementIdentifier'), 'elementIdentifier');
+      const digestId = field(issuerSignedItem, 'digestID');
+      if (typeof digestId !== 'number') {
+        throw new Error(`digestID of ${elementIdentifier} must be an integer`);
+      }
+      const expected = field(field(field(mso, 'valueDigests'), nameSpace), digestId);
+      if (!Buffer.isBuffer(expected) || !expected.equals(sha256(encodeCbor(issuerSignedItemBytes)))) {
+        mismatched.push(`${nameSpace}/${elementIdentifier}`);
+        continue;
+      }
+      claims[nameSpace][elementIdentifier] = toJson(field(issuerSignedItem, 'elementValue'));
+    }
+  }
+  check('value_digests', mismatched.length === 0, `data elements do not match their MSO digests: ${mismatched.join(', ')}`);
+
+  // DeviceAuthenticationBytes: the session transcript binds the signature to this request
+  const deviceSigned = field(document, 'deviceSigned');
+  const deviceSignature = field(field(deviceSigned, 'deviceAuth'), 'deviceSignature');
+  let deviceSignatureValid = false;
+  if (Array.isArray(deviceSignature)) {
+    try {
+      const deviceAuthentication = ['DeviceAuthentication', transcript, docType, field(deviceSigned, 'nameSpaces')];
+      const deviceAuthenticationBytes = encodeCbor(new Tagged(24, encodeCbor(deviceAuthentication)));
+      const deviceKey = coseKeyToPublicKey(field(field(mso, 'deviceKeyInfo'), 'deviceKey'));
+      deviceSignatureValid = verifyCoseSign1(deviceSignature, deviceKey, deviceAuthenticationBytes);
+    } catch {
+      deviceSignatureValid = false;
+    }
+  }
+  check('device_signature', deviceSignatureValid, 'deviceSignature does not verify over the session transcript with the MSO device key');
+
+  return {
+    format: 'mso_mdoc',
+    valid: failures.length === 0,
+    checks,
+    failures,
+    doctype: docType,
+    issuer: certificate.subject.replace(/\n/g, ', '),
+    claims,
+  };
+}
+
+/**
+ * Verify a base64url-encoded DeviceResponse, returning a verdict per document
+ */
+export async function verifyDeviceResponse(
+  presentation: unknown,
+  handover: HandoverParameters,
+  fetchStatusList: FetchStatusList
+): Promise<MdocVerdict[]> {
+  let documents: unknown[];
+  try {
+    if (typeof presentation !== 'string') {
+      throw new Error('presentation must be a string');
+    }
+    const deviceResponse = decodeCbor(base64UrlDecode(presentation));
+    if (field(deviceResponse, 'status') !== 0) {
+      throw new Error(`DeviceResponse status is ${field(deviceResponse, 'status')}`);
+    }
+    const found = field(deviceResponse, 'documents');
+    if (!Array.isArray(found) || found.length === 0) {
+      throw new Error('DeviceResponse has no documents');
+    }
+    documents = found;
+  } catch (e) {
+    return [{ format: 'mso_mdoc', valid: false, checks: {}, failures: [`DeviceResponse cannot be decoded: ${(e as Error).message}`] }];
+  }
+
+  const transcript = sessionTranscript(handover);
+  const verdicts: MdocVerdict[] = [];
+  for (const document of documents) {
+    try {
+      verdicts.push(await verifyDocument(document, transcript, fetchStatusList));
+    } catch (e) {
+      verdicts.push({ format: 'mso_mdoc', valid: false, checks: {}, failures: [`document is malformed: ${(e as Error).message}`] });
+    }
+  }
+  return verdicts;
+}
@@ -0,0 +1,108 @@
+/**
+ * Relying party web page of the mock verifier
+ *
+ * A minimal page per presentation session, as a user would meet it at a
+ * relying party: the QR code to scan with a wallet on another device
+ * (cross-device), or a redirect to the wallet in the same browser
+ * (same-device), which sends the user back with a response code. While the
+ * session is open the page polls its state and reloads when it changes; once
+ * completed it shows the disclosed claims.
+ */
+
+export type RpFlow = 'cross_device' | 'same_device';
+
+export interface SessionPageView {
+  requestId: string;
+  flow: RpFlow;
+  status: string;
+  final: boolean;
+  // openid4vp:// link for cross-device, the wallet URL for same-device
+  authorizationRequest: string;
+  qrCodeUri?: string;
+  // Same-device pages of a new session send the browser on to the wallet right away
+  openWallet?: boolean;
+  description?: string;
+  // Shown once completed; same-device sessions show it only to the holder of the response code
+  result?: { valid: boolean; failures: string[]; credentials: Record<string, { claims?: Record<string, unknown> }[]> };
+  notice?: string;
+}
+
+const STATUS_TEXT: Record<string, string> = {
+  created: 'Waiting for the wallet',
+  request_fetched: 'The wallet received the request',
+  response_received: 'Verifying the presentation',
+  verified: 'Presentation verified',
+  failed: 'Presentation failed',
+  expired: 'Request expired',
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Flatten disclosed claims into dotted paths and display values
+ */
+function flattenClaims(value: unknown, path: string): [string, string][] {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value).flatMap(([name, claim]) => flattenClaims(claim, `${path}.${name}`));
+  }
+  return [[path, typeof value === 'string' ? value : JSON.stringify(value)]];
+}
+
+function renderResult(result: NonNullable<SessionPageView['result']>): string {
+  const claims = Object.entries(result.credentials).flatMap(([id, verdicts]) =>
+    verdicts.flatMap(verdict => flattenClaims(verdict.claims ?? {}, id))
+  );
+  const failures = result.failures.map(failure => `<li>${escapeHtml(failure)}</li>`).join('');
+  return `<section id="result" data-valid="${result.valid}">
+    <h2>Disclosed claims</h2>
+    <dl id="claims">${claims.map(([path, value]) => `<dt>${escapeHtml(path)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>
+    ${failures ? `<ul id="failures">${failures}</ul>` : ''}
+  </section>`;
+}
+
+/**
+ * Render the page of a session
+ */
+export function renderSessionPage(view: SessionPageView): string {
+  const invitation =
+    view.flow === 'cross_device'
+      ? `<p>Scan the QR code with your wallet</p>
+  <img id="qr-code" src="${escapeHtml(view.qrCodeUri!)}" alt="QR code of the presentation request" width="264" height="264">
+  <p><a id="authorization-request" href="${escapeHtml(view.authorizationRequest)}">${escapeHtml(view.authorizationRequest)}</a></p>`
+      : `${view.openWallet ? '<p>Opening your wallet</p>' : ''}
+  <p><a id="authorization-request" href="${escapeHtml(view.authorizationRequest)}">Open wallet</a></p>`;
+
+  // Poll the session while it is open and reload to show the new state
+  const poller = view.final
+    ? ''
+    : `<script>
+    const poll = async () => {
+      const session = await (await fetch('/sessions/${encodeURIComponent(view.requestId)}')).json();
+      if (session.status !== '${view.status}') {
+        location.reload();
+      } else {
+        setTimeout(poll, 1000);
+      }
+    };
+    setTimeout(poll, 1000);
+  </script>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <title>Test Verifier - Present credentials</title>
+  ${view.openWallet ? `<meta http-equiv="refresh" content="0; url=${escapeHtml(view.authorizationRequest)}">` : ''}
+</head>
+<body data-request-id="${escapeHtml(view.requestId)}" data-flow="${view.flow}">
+  <h1>Test Verifier</h1>
+  ${view.description ? `<p id="description">${escapeHtml(view.description)}</p>` : ''}
+  ${view.status === 'created' || view.status === 'request_fetched' ? invitation : ''}
+  <p id="status" data-status="${view.status}">${STATUS_TEXT[view.status] ?? view.status}</p>
+  ${view.notice ? `<p id="notice">${escapeHtml(view.notice)}</p>` : ''}
+  ${view.result ? renderResult(view.result) : ''}
+  ${poller}
+</body>
+</html>`;
+}
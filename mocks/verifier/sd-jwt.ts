@@ -0,0 +1,266 @@
+/**
+ * SD-JWT VC presentation verification for the mock verifier
+ *
+ * A presentation is the issuer-signed JWT, the disclosures the holder chose
+ * and a key binding JWT (KB-JWT) signed with the key in the credential's cnf
+ * claim. A credential that references a status list entry is also checked
+ * against the issuer's status list token. Each check is evaluated independently
+ * so the recorded verdict shows everything that is wrong with a presentation,
+ * not just the first failure.
+ */
+
+import * as crypto from 'crypto';
+import { base64UrlDecode, base64UrlEncode, decodeJwt, sha256, verifyJwtSignature, type DecodedJwt } from '../shared/crypto';
+import { statusProblem, statusReference, type FetchStatusList } from './status-list';
+import { transactionDataHashesProblem } from './transaction-data';
+
+export type SdJwtCheck =
+  | 'typ'
+  | 'issuer_signature'
+  | 'validity'
+  | 'status'
+  | 'disclosures'
+  | 'kb_typ'
+  | 'kb_alg'
+  | 'kb_signature'
+  | 'kb_iat'
+  | 'nonce'
+  | 'aud'
+  | 'sd_hash'
+  | 'transaction_data';
+
+export interface SdJwtVerificationOptions {
+  // The client_id of the request, expected as KB-JWT aud
+  clientId: string;
+  nonce: string;
+  // Allowed distance of the KB-JWT iat from the current time, in seconds
+  iatWindow: number;
+  // Signing keys of the credential issuer, resolved from its iss
+  resolveIssuerKeys: (issuer: string) => Promise<crypto.JsonWebKey[]>;
+  // Status list tokens of the credential issuer, referenced by the status claim
+  fetchStatusList: FetchStatusList;
+  // Encoded transaction_data entries of the request that apply to the credential
+  transactionData?: string[];
+}
+
+export interface SdJwtVerdict {
+  format: 'dc+sd-jwt';
+  valid: boolean;
+  checks: Partial<Record<SdJwtCheck, boolean>>;
+  failures: string[];
+  issuer?: string;
+  vct?: string;
+  // Claims of the credential with the presented disclosures applied
+  claims?: Record<string, unknown>;
+}
+
+// Registered claims of the issuer-signed JWT that are not claims of the subject
+const NON_SUBJECT_CLAIMS = ['iss', 'iat', 'nbf', 'exp', 'vct', 'vct#integrity', 'cnf', 'status', '_sd_alg'];
+
+/**
+ * Apply the disclosures to the payload, recording which were referenced. Array elements take
+ * [salt, value] disclosures and object claims [salt, name, value]; a disclosure of the other
+ * shape is not applied and so stays unreferenced.
+ */
+function applyDisclosures(value: unknown, disclosures: Map<string, unknown[]>, referenced: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.flatMap(element => {
+      if (element !== null && typeof element === 'object' && Object.keys(element).length === 1 && '...' in element) {
+        const disclosure = disclosures.get((element as Record<string, string>)['...']);
+        if (!disclosure || disclosure.length !== 2) {
+          return [];
+        }
+        referenced.add((element as Record<string, string>)['...']);
+        return [applyDisclosures(disclosure[1], disclosures, referenced)];
+      }
+      return [applyDisclosures(element, disclosures, referenced)];
+    });
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [name, claim] of Object.entries(value)) {
+      if (name !== '_sd') {
+        result[name] = applyDisclosures(claim, disclosures, referenced);
+      }
+    }
+    const digests = (value as Record<string, unknown>)._sd;
+    for (const digest of Array.isArray(digests) ? digests : []) {
+      const disclosure = disclosures.get(digest);
+      if (disclosure && disclosure.length === 3) {
+        referenced.add(digest);
+        result[disclosure[1] as string] = applyDisclosures(disclosure[2], disclosures, referenced);
+      }
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Check the status list entry the credential references, in a statuslist+jwt signed with the
+ * keys of the credential issuer
+ */
+async function credentialStatusProblem(
+  status: unknown,
+  issuerKeys: crypto.JsonWebKey[],
+  fetchStatusList: FetchStatusList
+): Promise<string | undefined> {
+  try {
+    const reference = statusReference(status);
+    const token = decodeJwt((await fetchStatusList(reference.uri, 'application/statuslist+jwt')).toString('utf8'));
+    if (token.header.typ !== 'statuslist+jwt') {
+      throw new Error(`status list token typ must be statuslist+jwt, got ${token.header.typ}`);
+    }
+    const signatureValid = issuerKeys.some(jwk => {
+      try {
+        return token.header.alg === 'ES256' && verifyJwtSignature(token, jwk);
+      } catch {
+        return false;
+      }
+    });
+    if (!signatureValid) {
+      throw new Error('status list token does not verify against the keys of the issuer');
+    }
+    if (token.payload.sub !== reference.uri) {
+      throw new Error(`status list token is for ${token.payload.sub}`);
+    }
+    if (typeof token.payload.exp === 'number' && token.payload.exp <= Math.floor(Date.now() / 1000)) {
+      throw new Error('status list token is expired');
+    }
+    const lst = token.payload.status_list?.lst;
+    if (typeof lst !== 'string') {
+      throw new Error('status list token has no lst');
+    }
+    return statusProblem(reference, token.payload.status_list.bits, base64UrlDecode(lst));
+  } catch (e) {
+    return `credential status cannot be checked: ${(e as Error).message}`;
+  }
+}
+
+/**
+ * Verify an SD-JWT VC presentation with key binding
+ */
+export async function verifySdJwtPresentation(presentation: unknown, options: SdJwtVerificationOptions): Promise<SdJwtVerdict> {
+  let issuerJwt: DecodedJwt;
+  let kbJwt: DecodedJwt;
+  let encodedDisclosures: string[];
+  try {
+    if (typeof presentation !== 'string') {
+      throw new Error('presentation must be a string');
+    }
+    const parts = presentation.split('~');
+    if (parts.length < 2) {
+      throw new Error('presentation has no ~ separators');
+    }
+    issuerJwt = decodeJwt(parts[0]);
+    encodedDisclosures = parts.slice(1, -1);
+    const kb = parts[parts.length - 1];
+    if (!kb) {
+      throw new Error('presentation has no key binding JWT');
+    }
+    kbJwt = decodeJwt(kb);
+  } catch (e) {
+    return { format: 'dc+sd-jwt', valid: false, checks: {}, failures: [`SD-JWT cannot be decoded: ${(e as Error).message}`] };
+  }
+
+  const checks: Partial<Record<SdJwtCheck, boolean>> = {};
+  const failures: string[] = [];
+  const check = (name: SdJwtCheck, passed: boolean, failure: string) => {
+    checks[name] = passed;
+    if (!passed) {
+      failures.push(failure);
+    }
+  };
+  const { payload } = issuerJwt;
+  const now = Math.floor(Date.now() / 1000);
+
+  check('typ', issuerJwt.header.typ === 'dc+sd-jwt', `issuer JWT typ must be dc+sd-jwt, got ${issuerJwt.header.typ}`);
+  let issuerKeys: crypto.JsonWebKey[] = [];
+  let keyProblem = '';
+  try {
+    issuerKeys = await options.resolveIssuerKeys(payload.iss);
+  } catch (e) {
+    keyProblem = `: ${(e as Error).message}`;
+  }
+  const signatureValid = issuerKeys.some(jwk => {
+    try {
+      return issuerJwt.header.alg === 'ES256' && verifyJwtSignature(issuerJwt, jwk);
+    } catch {
+      return false;
+    }
+  });
+  check('issuer_signature', signatureValid, `issuer signature does not verify against the keys of ${payload.iss}${keyProblem}`);
+  check(
+    'validity',
+    (typeof payload.exp !== 'number' || payload.exp > now) && (typeof payload.nbf !== 'number' || payload.nbf <= now),
+    'credential is expired or not yet valid'
+  );
+  if (payload.status !== undefined) {
+    const problem = await credentialStatusProblem(payload.status, issuerKeys, options.fetchStatusList);
+    check('status', problem === undefined, problem!);
+  }
+
+  // Disclosures are keyed by the digest the issuer put into the payload
+  const disclosures = new Map<string, unknown[]>();
+  let malformed = 0;
+  for (const encoded of encodedDisclosures) {
+    try {
+      const disclosure = JSON.parse(base64UrlDecode(encoded).toString('utf8'));
+      if (!Array.isArray(disclosure) || (disclosure.length !== 2 && disclosure.length !== 3)) {
+        throw new Error('not a disclosure array');
+      }
+      disclosures.set(base64UrlEncode(sha256(encoded)), disclosure);
+    } catch {
+      malformed++;
+    }
+  }
+  const referenced = new Set<string>();
+  const disclosed = applyDisclosures(payload, disclosures, referenced) as Record<string, unknown>;
+  check(
+    'disclosures',
+    malformed === 0 && referenced.size === disclosures.size && payload._sd_alg === 'sha-256',
+    `${malformed} malformed and ${disclosures.size - referenced.size} unreferenced or misplaced disclosures`
+  );
+
+  const { header: kbHeader, payload: kbPayload } = kbJwt;
+  check('kb_typ', kbHeader.typ === 'kb+jwt', `KB-JWT typ must be kb+jwt, got ${kbHeader.typ}`);
+  check('kb_alg', kbHeader.alg === 'ES256', `KB-JWT alg must be ES256, got ${kbHeader.alg}`);
+  let kbSignatureValid = false;
+  if (payload.cnf?.jwk && checks.kb_alg) {
+    try {
+      kbSignatureValid = verifyJwtSignature(kbJwt, payload.cnf.jwk);
+    } catch {
+      kbSignatureValid = false;
+    }
+  }
+  check('kb_signature', kbSignatureValid, 'KB-JWT signature does not verify against the cnf key of the credential');
+  check(
+    'kb_iat',
+    typeof kbPayload.iat === 'number' && Math.abs(now - kbPayload.iat) <= options.iatWindow,
+    `KB-JWT iat must be within ${options.iatWindow}s of the current time`
+  );
+  check('nonce', kbPayload.nonce === options.nonce, 'KB-JWT nonce does not match the nonce of the request');
+  check('aud', kbPayload.aud === options.clientId, `KB-JWT aud must be ${options.clientId}, got ${kbPayload.aud}`);
+
+  // sd_hash covers the issuer-signed JWT and the disclosures, up to and including the last ~
+  const presented = (presentation as string).slice(0, (presentation as string).lastIndexOf('~') + 1);
+  check('sd_hash', kbPayload.sd_hash === base64UrlEncode(sha256(presented)), 'KB-JWT sd_hash does not match the presented SD-JWT');
+
+  if (options.transactionData?.length) {
+    const problem = transactionDataHashesProblem(kbPayload, options.transactionData);
+    check('transaction_data', problem === undefined, problem!);
+  }
+
+  const claims = Object.fromEntries(Object.entries(disclosed).filter(([name]) => !NON_SUBJECT_CLAIMS.includes(name)));
+  return {
+    format: 'dc+sd-jwt',
+    valid: failures.length === 0,
+    checks,
+    failures,
+    issuer: payload.iss,
+    vct: payload.vct,
+    claims,
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * IETF Token Status List (draft-ietf-oauth-status-list) lookups for the mock verifier
+ *
+ * Credentials reference their entry as status.status_list {uri, idx}. The
+ * format modules fetch the status list token from the uri, verify that the
+ * credential's issuer signed it and read the entry with statusProblem().
+ */
+
+import * as zlib from 'zlib';
+
+// Status values of the draft, by value; 0x03 and above are application specific
+const STATUS_NAMES = ['valid', 'invalid', 'suspended'];
+
+export type StatusListMediaType = 'application/statuslist+jwt' | 'application/statuslist+cwt';
+
+// Fetch a status list token of a trusted issuer in the given form
+export type FetchStatusList = (uri: string, mediaType: StatusListMediaType) => Promise<Buffer>;
+
+export interface StatusReference {
+  uri: string;
+  idx: number;
+}
+
+/**
+ * Read the status list reference of a credential's status claim
+ */
+export function statusReference(status: unknown): StatusReference {
+  const statusList = status !== null && typeof status === 'object' ? (status as Record<string, unknown>).status_list : undefined;
+  if (statusList === null || typeof statusList !== 'object') {
+    throw new Error('status has no status_list reference');
+  }
+  const { uri, idx } = statusList as Record<string, unknown>;
+  if (typeof uri !== 'string' || typeof idx !== 'number' || !Number.isInteger(idx) || idx < 0) {
+    throw new Error('status_list must have a uri and a non-negative integer idx');
+  }
+  return { uri, idx };
+}
+
+/**
+ * Read the entry of the reference from a status list {bits, lst}, with lst the DEFLATE (zlib)
+ * compressed entries, lowest index in the least significant bits. Returns the failure for an
+ * entry other than valid.
+ */
+export function statusProblem(reference: StatusReference, bits: unknown, lst: Buffer): string | undefined {
+  if (typeof bits !== 'number' || ![1, 2, 4, 8].includes(bits)) {
+    throw new Error('status list bits must be 1, 2, 4 or 8');
+  }
+  const packed = zlib.inflateSync(lst);
+  const bitOffset = reference.idx * bits;
+  if (bitOffset >> 3 >= packed.length) {
+    throw new Error(`status list has no entry ${reference.idx}`);
+  }
+  const status = (packed[bitOffset >> 3] >> (bitOffset & 7)) & ((1 << bits) - 1);
+  if (status === 0) {
+    return undefined;
+  }
+  return `credential status is ${STATUS_NAMES[status] ?? `0x${status.toString(16).padStart(2, '0')}`} (entry ${reference.idx} of ${reference.uri})`;
+}
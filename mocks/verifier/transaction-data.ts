@@ -0,0 +1,127 @@
+/**
+ * Transaction data (OpenID4VP, 8.4) for the mock verifier
+ *
+ * A presentation request may ask the user to confirm transactions along with
+ * presenting credentials, e.g. a payment or the creation of a qualified
+ * signature. Each entry names the credential queries it applies to and is sent
+ * base64url-encoded; the wallet binds it to the presentation with the hash of
+ * the encoded entry in transaction_data_hashes of the KB-JWT.
+ */
+
+import * as crypto from 'crypto';
+import { base64UrlDecode, base64UrlEncode, sha256 } from '../shared/crypto';
+import type { DcqlQuery } from './dcql';
+
+export interface TransactionDataType {
+  description: string;
+  // Type-specific fields of entries of the type
+  fields: Record<string, unknown>;
+}
+
+// Hash algorithms for transaction_data_hashes (IANA names), and the one a wallet uses by default
+const HASH_ALGORITHMS = ['sha-256', 'sha-384', 'sha-512'];
+const DEFAULT_HASH_ALGORITHM = 'sha-256';
+
+const SHA256_OID = '2.16.840.1.101.3.4.2.1';
+
+/**
+ * Supported transaction data types, by type
+ */
+export const transactionDataTypes: Record<string, TransactionDataType> = {
+  payment_data: {
+    description: 'Confirmation of a payment to a merchant (strong customer authentication)',
+    fields: {
+      payment_data: {
+        payee: 'Test Merchant',
+        currency_amount: { currency: 'EUR', value: '23.58' },
+      },
+    },
+  },
+  qes_authorization: {
+    description: 'Authorization to create a qualified electronic signature over a document (CSC / ETSI TS 119 432)',
+    fields: {
+      signatureQualifier: 'eu_eidas_qes',
+      documentDigests: [
+        {
+          label: 'Test Contract.pdf',
+          hash: sha256('Test Contract').toString('base64'),
+          hashAlgorithmOID: SHA256_OID,
+        },
+      ],
+    },
+  },
+  qcert_creation_acceptance: {
+    description: 'Acceptance of the terms and conditions for issuing a qualified certificate (CSC / ETSI TS 119 432)',
+    fields: {
+      QC_terms_conditions_uri: 'https://qtsp.example.com/terms-and-conditions',
+      QC_hash: sha256('Test QTSP terms and conditions').toString('base64'),
+      QC_hashAlgorithmOID: SHA256_OID,
+    },
+  },
+};
+
+function decodeEntry(encoded: string): Record<string, any> {
+  return JSON.parse(base64UrlDecode(encoded).toString('utf8'));
+}
+
+/**
+ * Build the encoded transaction_data entries of a request: {"type": ..., "credential_ids": [...]}
+ * with the fields of the type, overridden by any other fields of the entry. credential_ids
+ * default to every SD-JWT VC query, the only format whose key binding carries the hashes.
+ * Throws with the reason the entries are invalid.
+ */
+export function buildTransactionData(entries: unknown, dcqlQuery: DcqlQuery): string[] {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error('transaction_data must be a non-empty array');
+  }
+  const sdJwtIds = dcqlQuery.credentials.filter(credential => credential.format === 'dc+sd-jwt').map(credential => credential.id);
+  return entries.map((entry, i) => {
+    if (entry === null || typeof entry !== 'object' || !Object.prototype.hasOwnProperty.call(transactionDataTypes, entry.type)) {
+      throw new Error(`transaction_data[${i}].type must be one of ${Object.keys(transactionDataTypes).join(', ')}`);
+    }
+    const { type, credential_ids: credentialIds = sdJwtIds, ...fields } = entry;
+    if (!Array.isArray(credentialIds) || credentialIds.length === 0 || !credentialIds.every(id => sdJwtIds.includes(id))) {
+      throw new Error(`transaction_data[${i}].credential_ids must name dc+sd-jwt credential queries of the request`);
+    }
+    const algs = fields.transaction_data_hashes_alg;
+    if (algs !== undefined && (!Array.isArray(algs) || !algs.some(alg => HASH_ALGORITHMS.includes(alg)))) {
+      throw new Error(`transaction_data[${i}].transaction_data_hashes_alg must include one of ${HASH_ALGORITHMS.join(', ')}`);
+    }
+    const decoded = { type, credential_ids: credentialIds, ...transactionDataTypes[type].fields, ...fields };
+    return base64UrlEncode(JSON.stringify(decoded));
+  });
+}
+
+/**
+ * Entries of the request that apply to a credential query
+ */
+export function transactionDataFor(transactionData: string[], credentialId: string): string[] {
+  return transactionData.filter(encoded => decodeEntry(encoded).credential_ids.includes(credentialId));
+}
+
+/**
+ * Check the transaction_data_hashes of a KB-JWT against the entries that apply to its
+ * credential: every entry hashed as sent, with an algorithm every entry allows, and nothing
+ * else. Returns the problem, or undefined if the hashes match.
+ */
+export function transactionDataHashesProblem(kbPayload: Record<string, any>, transactionData: string[]): string | undefined {
+  const hashes: unknown = kbPayload.transaction_data_hashes;
+  if (!Array.isArray(hashes)) {
+    return 'KB-JWT has no transaction_data_hashes for the transaction data of the request';
+  }
+  const alg = kbPayload.transaction_data_hashes_alg ?? DEFAULT_HASH_ALGORITHM;
+  if (!HASH_ALGORITHMS.includes(alg)) {
+    return `transaction_data_hashes_alg ${alg} is not supported`;
+  }
+  if (!transactionData.every(encoded => (decodeEntry(encoded).transaction_data_hashes_alg ?? [DEFAULT_HASH_ALGORITHM]).includes(alg))) {
+    return `transaction_data_hashes_alg ${alg} is not allowed by the transaction data`;
+  }
+
+  const expected = transactionData.map(encoded => base64UrlEncode(crypto.createHash(alg.replace('-', '')).update(encoded).digest()));
+  const missing = expected.filter(hash => !hashes.includes(hash)).length;
+  const unexpected = hashes.filter(hash => !expected.includes(hash)).length;
+  if (missing > 0 || unexpected > 0) {
+    return `KB-JWT transaction_data_hashes do not match the transaction data: ${missing} missing and ${unexpected} unexpected`;
+  }
+  return undefined;
+}
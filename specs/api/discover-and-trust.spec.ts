@@ -16,6 +16,7 @@
  */
 
 import { test, expect, type APIRequestContext } from '@playwright/test';
+import { X509Certificate } from 'crypto';
 import { TrustApiHelper, DiscoverAndTrustRequest } from '../../helpers/trust-api';
 import { createTestUser, generateTestToken, type TestUser } from '../../helpers/test-token';
 
@@ -310,9 +311,10 @@ test.describe('Discover and Trust - Mock Issuer Integration @api @trust @mock',
     // If the mock issuer has mdoc_iacas_uri, we should get certificates
     if (response.trusted && response.trusted_certificates) {
       expect(Array.isArray(response.trusted_certificates)).toBe(true);
-      // Certificates should be in PEM format
+      // Certificates should be parseable PEM CA certificates
       response.trusted_certificates.forEach(cert => {
         expect(cert).toContain('-----BEGIN CERTIFICATE-----');
+        expect(new X509Certificate(cert).ca).toBe(true);
       });
     }
   });
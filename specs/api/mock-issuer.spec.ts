@@ -0,0 +1,2189 @@
+/**
+ * Mock Issuer Issuance Flow E2E Tests
+ *
+ * @tags @api @mock @issuer
+ *
+ * These tests drive the OpenID4VCI flows of the mock issuer directly,
+ * acting as the wallet, so the mock can be relied on by wallet specs.
+ *
+ * Test environment requirements:
+ * - mock-issuer running on MOCK_ISSUER_URL (default: http://localhost:9000)
+ */
+
+import { test, expect, type APIRequestContext } from '@playwright/test';
+import * as http from 'http';
+import { createHash, createPublicKey, generateKeyPairSync, randomBytes, sign, verify, X509Certificate, type KeyObject } from 'crypto';
+import { inflateSync } from 'zlib';
+import { CredentialOfferHelper, AUTHORIZATION_CODE_GRANT_TYPE, PRE_AUTHORIZED_GRANT_TYPE } from '../../helpers/credential-offer';
+import { MockIssuerControlHelper } from '../../helpers/mock-issuer-control';
+import { decodeCbor, encodeCbor, Tagged } from '../../helpers/cbor';
+
+const MOCK_ISSUER_URL = process.env.MOCK_ISSUER_URL || 'http://localhost:9000';
+const REDIRECT_URI = 'http://localhost:3000/';
+
+interface HolderKey {
+  privateKey: KeyObject;
+  publicJwk: Record<string, unknown>;
+}
+
+// Display entry of the issuer or of a credential configuration, for one locale
+interface DisplayEntry {
+  name: string;
+  locale: string;
+  logo: { uri: string; alt_text: string };
+}
+
+interface CredentialIssuerMetadata {
+  credential_issuer: string;
+  credential_endpoint: string;
+  display: DisplayEntry[];
+  credential_configurations_supported: Record<string, { display: DisplayEntry[] }>;
+  signed_metadata?: string;
+}
+
+function createHolderKey(): HolderKey {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return { privateKey, publicJwk: publicKey.export({ format: 'jwk' }) };
+}
+
+/**
+ * Create an openid4vci-proof+jwt for the given c_nonce, with optional header and claim overrides
+ */
+function createProofJwt(
+  holder: HolderKey,
+  nonce: string,
+  overrides: { header?: Record<string, unknown>; payload?: Record<string, unknown> } = {}
+): string {
+  const header = { typ: 'openid4vci-proof+jwt', alg: 'ES256', jwk: holder.publicJwk, ...overrides.header };
+  const payload = { aud: MOCK_ISSUER_URL, iat: Math.floor(Date.now() / 1000), nonce, ...overrides.payload };
+  const signingInput = [header, payload]
+    .map(part => Buffer.from(JSON.stringify(part)).toString('base64url'))
+    .join('.');
+  const signature = sign('sha256', Buffer.from(signingInput), { key: holder.privateKey, dsaEncoding: 'ieee-p1363' });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * GET a raw request target, which API request contexts would normalize, returning the status
+ */
+function rawGet(target: string): Promise<number> {
+  const { hostname, port } = new URL(MOCK_ISSUER_URL);
+  return new Promise((resolve, reject) => {
+    http
+      .get({ hostname, port, path: target }, res => {
+        res.resume();
+        resolve(res.statusCode!);
+      })
+      .on('error', reject);
+  });
+}
+
+/**
+ * Run the pre-authorized code flow for one configuration and return the credential response
+ */
+async function issueCredential(request: APIRequestContext, credentialConfigurationId: string, holder: HolderKey) {
+  const offerResponse = await request.post(`${MOCK_ISSUER_URL}/offers`, {
+    data: { credential_configuration_ids: [credentialConfigurationId] },
+  });
+  const { pre_authorized_code } = await offerResponse.json();
+
+  const tokenResponse = await request.post(`${MOCK_ISSUER_URL}/token`, {
+    form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': pre_authorized_code },
+  });
+  const token = await tokenResponse.json();
+
+  return request.post(`${MOCK_ISSUER_URL}/credential`, {
+    headers: { Authorization: `Bearer ${token.access_token}` },
+    data: {
+      credential_configuration_id: credentialConfigurationId,
+      proof: { proof_type: 'jwt', jwt: createProofJwt(holder, token.c_nonce) },
+    },
+  });
+}
+
+test.describe('Mock Issuer - Pre-Authorized Code Flow @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  async function createOffer(credentialConfigurationIds: string[]) {
+    const response = await request.post(`${MOCK_ISSUER_URL}/offers`, {
+      data: { credential_configuration_ids: credentialConfigurationIds },
+    });
+    expect(response.status()).toBe(201);
+    return response.json();
+  }
+
+  async function exchangeCode(preAuthorizedCode: string) {
+    return request.post(`${MOCK_ISSUER_URL}/token`, {
+      form: {
+        grant_type: PRE_AUTHORIZED_GRANT_TYPE,
+        'pre-authorized_code': preAuthorizedCode,
+      },
+    });
+  }
+
+  test('credential offer carries a pre-authorized code grant', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { credential_offer } = await createOffer(['eu.europa.ec.eudi.pid.1']);
+
+    expect(credential_offer.credential_issuer).toBe(MOCK_ISSUER_URL);
+    expect(credential_offer.credential_configuration_ids).toEqual(['eu.europa.ec.eudi.pid.1']);
+    expect(credential_offer.grants[PRE_AUTHORIZED_GRANT_TYPE]['pre-authorized_code']).toBeTruthy();
+  });
+
+  test('offer for unknown configuration is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const response = await request.post(`${MOCK_ISSUER_URL}/offers`, {
+      data: { credential_configuration_ids: ['does-not-exist'] },
+    });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_request');
+  });
+
+  test('pre-authorized code is exchanged for an access token and c_nonce', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { pre_authorized_code } = await createOffer(['eu.europa.ec.eudi.pid.1']);
+    const response = await exchangeCode(pre_authorized_code);
+
+    expect(response.status()).toBe(200);
+    const token = await response.json();
+    expect(token.access_token).toBeTruthy();
+    expect(token.token_type).toBe('Bearer');
+    expect(token.c_nonce).toBeTruthy();
+  });
+
+  test('pre-authorized code can only be used once', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { pre_authorized_code } = await createOffer(['eu.europa.ec.eudi.pid.1']);
+    expect((await exchangeCode(pre_authorized_code)).status()).toBe(200);
+
+    const replay = await exchangeCode(pre_authorized_code);
+    expect(replay.status()).toBe(400);
+    expect((await replay.json()).error).toBe('invalid_grant');
+  });
+
+  test('credential endpoint issues a credential for the access token', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { pre_authorized_code } = await createOffer(['eu.europa.ec.eudi.pid.1']);
+    const token = await (await exchangeCode(pre_authorized_code)).json();
+
+    const response = await request.post(`${MOCK_ISSUER_URL}/credential`, {
+      headers: { Authorization: `Bearer ${token.access_token}` },
+      data: {
+        credential_configuration_id: 'eu.europa.ec.eudi.pid.1',
+        proof: { proof_type: 'jwt', jwt: createProofJwt(createHolderKey(), token.c_nonce) },
+      },
+    });
+
+    expect(response.status()).toBe(200);
+    const body = await response.json();
+    expect(body.credentials).toHaveLength(1);
+    expect(body.credentials[0].credential).toBeTruthy();
+  });
+
+  test('credential endpoint rejects requests without access token', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const response = await request.post(`${MOCK_ISSUER_URL}/credential`, {
+      data: { credential_configuration_id: 'eu.europa.ec.eudi.pid.1' },
+    });
+
+    expect(response.status()).toBe(401);
+    expect((await response.json()).error).toBe('invalid_token');
+  });
+
+  test('malformed request target is rejected without stopping the mock', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    expect(await rawGet('//a:b:c')).toBe(400);
+    expect((await request.get(`${MOCK_ISSUER_URL}/health`)).ok()).toBe(true);
+  });
+});
+
+test.describe('Mock Issuer - Authorization Code Flow @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  function createPkcePair() {
+    const codeVerifier = randomBytes(32).toString('base64url');
+    const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+    return { codeVerifier, codeChallenge };
+  }
+
+  /**
+   * Push an authorization request and follow /authorize to the wallet redirect
+   */
+  async function authorize(codeChallenge: string): Promise<URL> {
+    const parResponse = await request.post(`${MOCK_ISSUER_URL}/par`, {
+      form: {
+        client_id: 'wallet-e2e-test',
+        response_type: 'code',
+        redirect_uri: REDIRECT_URI,
+        scope: 'eu.europa.ec.eudi.pid.1',
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+        state: 'test-state',
+      },
+    });
+    expect(parResponse.status()).toBe(201);
+    const { request_uri } = await parResponse.json();
+
+    const authorizeResponse = await request.get(`${MOCK_ISSUER_URL}/authorize`, {
+      params: { client_id: 'wallet-e2e-test', request_uri },
+      maxRedirects: 0,
+    });
+    expect(authorizeResponse.status()).toBe(302);
+    return new URL(authorizeResponse.headers()['location']);
+  }
+
+  test('authorization server requires pushed authorization requests', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const response = await request.get(`${MOCK_ISSUER_URL}/authorize`, {
+      params: { client_id: 'wallet-e2e-test', response_type: 'code', scope: 'eu.europa.ec.eudi.pid.1' },
+      maxRedirects: 0,
+    });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_request');
+  });
+
+  test('PAR without PKCE is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const response = await request.post(`${MOCK_ISSUER_URL}/par`, {
+      form: { client_id: 'wallet-e2e-test', response_type: 'code', scope: 'eu.europa.ec.eudi.pid.1' },
+    });
+
+    expect(response.status()).toBe(400);
+  });
+
+  test('authorize redirects to the wallet with code, state and iss', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const location = await authorize(createPkcePair().codeChallenge);
+
+    expect(`${location.origin}${location.pathname}`).toBe(REDIRECT_URI);
+    expect(location.searchParams.get('code')).toBeTruthy();
+    expect(location.searchParams.get('state')).toBe('test-state');
+    expect(location.searchParams.get('iss')).toBe(MOCK_ISSUER_URL);
+  });
+
+  test('authorization code is exchanged with the matching code_verifier', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    const location = await authorize(codeChallenge);
+
+    const response = await request.post(`${MOCK_ISSUER_URL}/token`, {
+      form: {
+        grant_type: 'authorization_code',
+        code: location.searchParams.get('code')!,
+        code_verifier: codeVerifier,
+        redirect_uri: REDIRECT_URI,
+        client_id: 'wallet-e2e-test',
+      },
+    });
+
+    expect(response.status()).toBe(200);
+    const token = await response.json();
+    expect(token.access_token).toBeTruthy();
+    expect(token.authorization_details[0].credential_configuration_id).toBe('eu.europa.ec.eudi.pid.1');
+  });
+
+  test('token request with wrong code_verifier fails PKCE verification', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const location = await authorize(createPkcePair().codeChallenge);
+
+    const response = await request.post(`${MOCK_ISSUER_URL}/token`, {
+      form: {
+        grant_type: 'authorization_code',
+        code: location.searchParams.get('code')!,
+        code_verifier: createPkcePair().codeVerifier,
+        redirect_uri: REDIRECT_URI,
+        client_id: 'wallet-e2e-test',
+      },
+    });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_grant');
+  });
+});
+
+test.describe('Mock Issuer - SD-JWT VC Issuance @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  function decodePart(part: string) {
+    return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+  }
+
+  test('metadata advertises dc+sd-jwt configurations with vct and claims', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const response = await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`);
+    const metadata = await response.json();
+    const pid = metadata.credential_configurations_supported['eu.europa.ec.eudi.pid_vc_sd_jwt'];
+
+    expect(pid.format).toBe('dc+sd-jwt');
+    expect(pid.vct).toBe('urn:eudi:pid:1');
+    expect(pid.claims.length).toBeGreaterThan(0);
+    expect(pid.display[0].name).toBeTruthy();
+  });
+
+  test('issued SD-JWT is signed by the key in jwt-vc-issuer metadata and bound to the holder', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const holder = createHolderKey();
+    const response = await issueCredential(request, 'eu.europa.ec.eudi.pid_vc_sd_jwt', holder);
+    expect(response.status()).toBe(200);
+
+    const sdJwt: string = (await response.json()).credentials[0].credential;
+    const [jwt] = sdJwt.split('~');
+    const [encodedHeader, encodedPayload, signature] = jwt.split('.');
+    const header = decodePart(encodedHeader);
+    const payload = decodePart(encodedPayload);
+
+    expect(header.typ).toBe('dc+sd-jwt');
+    expect(payload.iss).toBe(MOCK_ISSUER_URL);
+    expect(payload.vct).toBe('urn:eudi:pid:1');
+    expect(payload.cnf.jwk.x).toBe(holder.publicJwk.x);
+
+    const issuerMetadata = await (await request.get(`${MOCK_ISSUER_URL}/.well-known/jwt-vc-issuer`)).json();
+    const issuerJwk = issuerMetadata.jwks.keys.find((key: { kid: string }) => key.kid === header.kid);
+    const valid = verify(
+      'sha256',
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      { key: createPublicKey({ key: issuerJwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    );
+    expect(valid).toBe(true);
+  });
+
+  test('every disclosure digest is referenced from the SD-JWT', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const response = await issueCredential(request, 'eu.europa.ec.eudi.pid_vc_sd_jwt', createHolderKey());
+    const sdJwt: string = (await response.json()).credentials[0].credential;
+    const [jwt, ...disclosures] = sdJwt.split('~').filter(Boolean);
+    const signedParts = [decodePart(jwt.split('.')[1]), ...disclosures.map(decodePart)];
+    const serialized = JSON.stringify(signedParts);
+
+    const disclosedNames = disclosures.map(decodePart).map(disclosure => disclosure[1]);
+    expect(disclosedNames).toEqual(expect.arrayContaining(['given_name', 'family_name', 'address', 'street_address']));
+
+    for (const disclosure of disclosures) {
+      const digest = createHash('sha256').update(disclosure).digest('base64url');
+      expect(serialized).toContain(digest);
+    }
+  });
+});
+
+test.describe('Mock Issuer - mdoc Issuance @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  test('mdoc configurations advertise the jwt proof type the credential endpoint requires', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const metadata = await (await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`)).json();
+    for (const id of ['eu.europa.ec.eudi.pid.1', 'org.iso.18013.5.1.mDL']) {
+      expect(metadata.credential_configurations_supported[id].proof_types_supported, id).toEqual({
+        jwt: { proof_signing_alg_values_supported: ['ES256'] },
+      });
+    }
+  });
+
+  test('mdoc_iacas serves a parseable self-signed IACA root', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const response = await request.get(`${MOCK_ISSUER_URL}/mdoc_iacas`);
+    test.skip(response.status() === 404, 'Mock issuer runs without IACA');
+
+    const { certificates } = await response.json();
+    expect(certificates).toHaveLength(1);
+
+    const iaca = new X509Certificate(certificates[0]);
+    expect(iaca.ca).toBe(true);
+    expect(iaca.checkIssued(iaca)).toBe(true);
+    expect(iaca.verify(iaca.publicKey)).toBe(true);
+  });
+
+  for (const configurationId of ['eu.europa.ec.eudi.pid.1', 'org.iso.18013.5.1.mDL']) {
+    test(`issues a CBOR IssuerSigned structure for ${configurationId}`, async () => {
+      test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+      const response = await issueCredential(request, configurationId, createHolderKey());
+      expect(response.status()).toBe(200);
+
+      const issuerSigned = decodeCbor(Buffer.from((await response.json()).credentials[0].credential, 'base64url')) as Map<string, unknown>;
+      expect([...issuerSigned.keys()]).toEqual(['nameSpaces', 'issuerAuth']);
+
+      // The document signer certificate in x5chain is issued by the IACA of the issuer
+      const iacaResponse = await request.get(`${MOCK_ISSUER_URL}/mdoc_iacas`);
+      test.skip(iacaResponse.status() === 404, 'Mock issuer runs without IACA');
+      const iaca = new X509Certificate((await iacaResponse.json()).certificates[0]);
+      const [protectedHeader, unprotectedHeader, payload, signature] = issuerSigned.get('issuerAuth') as [Buffer, Map<number, unknown>, Buffer, Buffer];
+      const documentSigner = new X509Certificate(unprotectedHeader.get(33) as Buffer);
+      expect(documentSigner.checkIssued(iaca)).toBe(true);
+      expect(documentSigner.verify(iaca.publicKey)).toBe(true);
+
+      // The COSE_Sign1 signature over the MSO verifies with the document signer key
+      const sigStructure = encodeCbor(['Signature1', protectedHeader, Buffer.alloc(0), payload]);
+      expect(verify('sha256', sigStructure, { key: documentSigner.publicKey, dsaEncoding: 'ieee-p1363' }, signature)).toBe(true);
+
+      // Every IssuerSignedItem is covered by its digest in the MSO
+      const mso = decodeCbor((decodeCbor(payload) as Tagged).value as Buffer) as Map<string, unknown>;
+      expect(mso.get('docType')).toBe(configurationId);
+      expect(mso.get('digestAlgorithm')).toBe('SHA-256');
+      const valueDigests = mso.get('valueDigests') as Map<string, Map<number, Buffer>>;
+      const nameSpaces = issuerSigned.get('nameSpaces') as Map<string, Tagged[]>;
+      expect([...nameSpaces.keys()]).toEqual([...valueDigests.keys()]);
+      for (const [nameSpace, items] of nameSpaces) {
+        expect(items.length).toBeGreaterThan(0);
+        for (const item of items) {
+          expect(item.tag).toBe(24);
+          const digestId = (decodeCbor(item.value as Buffer) as Map<string, unknown>).get('digestID') as number;
+          const digest = createHash('sha256').update(encodeCbor(item)).digest();
+          expect(valueDigests.get(nameSpace)!.get(digestId), `${nameSpace} digest ${digestId}`).toEqual(digest);
+        }
+      }
+    });
+  }
+});
+
+test.describe('Mock Issuer - Key Proof Validation @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  /**
+   * Obtain an access token and c_nonce for the PID SD-JWT configuration
+   */
+  async function getAccessToken() {
+    const offer = await (await request.post(`${MOCK_ISSUER_URL}/offers`, {
+      data: { credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'] },
+    })).json();
+    const response = await request.post(`${MOCK_ISSUER_URL}/token`, {
+      form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': offer.pre_authorized_code },
+    });
+    return response.json();
+  }
+
+  async function requestCredential(accessToken: string, proofJwt: string) {
+    return request.post(`${MOCK_ISSUER_URL}/credential`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      data: {
+        credential_configuration_id: 'eu.europa.ec.eudi.pid_vc_sd_jwt',
+        proof: { proof_type: 'jwt', jwt: proofJwt },
+      },
+    });
+  }
+
+  test('valid proof is accepted and its verdict recorded', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await request.delete(`${MOCK_ISSUER_URL}/debug/proofs`);
+    const token = await getAccessToken();
+    const response = await requestCredential(token.access_token, createProofJwt(createHolderKey(), token.c_nonce));
+    expect(response.status()).toBe(200);
+
+    const { verdicts } = await (await request.get(`${MOCK_ISSUER_URL}/debug/proofs`)).json();
+    expect(verdicts).toHaveLength(1);
+    expect(verdicts[0].valid).toBe(true);
+    expect(Object.values(verdicts[0].checks).every(Boolean)).toBe(true);
+  });
+
+  test('proof with wrong audience is rejected with invalid_proof', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const token = await getAccessToken();
+    const proof = createProofJwt(createHolderKey(), token.c_nonce, { payload: { aud: 'https://other-issuer.example' } });
+    const response = await requestCredential(token.access_token, proof);
+
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.error).toBe('invalid_proof');
+    expect(body.c_nonce).toBeTruthy();
+  });
+
+  test('proof with wrong typ is rejected with invalid_proof', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const token = await getAccessToken();
+    const proof = createProofJwt(createHolderKey(), token.c_nonce, { header: { typ: 'JWT' } });
+    const response = await requestCredential(token.access_token, proof);
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_proof');
+  });
+
+  test('proof signed by a key other than the embedded jwk is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const token = await getAccessToken();
+    const proof = createProofJwt(createHolderKey(), token.c_nonce, { header: { jwk: createHolderKey().publicJwk } });
+    const response = await requestCredential(token.access_token, proof);
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_proof');
+  });
+
+  test('stale iat is rejected with invalid_proof', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const token = await getAccessToken();
+    const proof = createProofJwt(createHolderKey(), token.c_nonce, {
+      payload: { iat: Math.floor(Date.now() / 1000) - 3600 },
+    });
+    const response = await requestCredential(token.access_token, proof);
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_proof');
+  });
+
+  test('unknown nonce is rejected with invalid_nonce and a fresh c_nonce', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const token = await getAccessToken();
+    const response = await requestCredential(token.access_token, createProofJwt(createHolderKey(), 'not-a-real-nonce'));
+
+    expect(response.status()).toBe(400);
+    const body = await response.json();
+    expect(body.error).toBe('invalid_nonce');
+    expect(body.c_nonce).toBeTruthy();
+  });
+
+  test('c_nonce cannot be reused for a second proof', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const token = await getAccessToken();
+    const holder = createHolderKey();
+    expect((await requestCredential(token.access_token, createProofJwt(holder, token.c_nonce))).status()).toBe(200);
+
+    const replay = await requestCredential(token.access_token, createProofJwt(holder, token.c_nonce));
+    expect(replay.status()).toBe(400);
+    expect((await replay.json()).error).toBe('invalid_nonce');
+  });
+});
+
+test.describe('Mock Issuer - Nonce Endpoint @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  async function fetchNonce(): Promise<string> {
+    const response = await request.post(`${MOCK_ISSUER_URL}/nonce`);
+    expect(response.status()).toBe(200);
+    expect(response.headers()['cache-control']).toBe('no-store');
+    return (await response.json()).c_nonce;
+  }
+
+  test('nonce endpoint is advertised in issuer metadata', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const metadata = await (await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`)).json();
+
+    expect(metadata.nonce_endpoint).toBe(`${MOCK_ISSUER_URL}/nonce`);
+  });
+
+  test('wallet retries with a nonce from the nonce endpoint after invalid_nonce', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await (await request.post(`${MOCK_ISSUER_URL}/offers`, {
+      data: { credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'] },
+    })).json();
+    const token = await (await request.post(`${MOCK_ISSUER_URL}/token`, {
+      form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': offer.pre_authorized_code },
+    })).json();
+    const holder = createHolderKey();
+    const requestCredential = (nonce: string) =>
+      request.post(`${MOCK_ISSUER_URL}/credential`, {
+        headers: { Authorization: `Bearer ${token.access_token}` },
+        data: {
+          credential_configuration_id: 'eu.europa.ec.eudi.pid_vc_sd_jwt',
+          proof: { proof_type: 'jwt', jwt: createProofJwt(holder, nonce) },
+        },
+      });
+
+    const staleNonce = await fetchNonce();
+    const expire = await request.post(`${MOCK_ISSUER_URL}/debug/nonces/expire`, { data: { c_nonce: staleNonce } });
+    expect((await expire.json()).expired).toBe(1);
+
+    const rejected = await requestCredential(staleNonce);
+    expect(rejected.status()).toBe(400);
+    expect((await rejected.json()).error).toBe('invalid_nonce');
+
+    const retried = await requestCredential(await fetchNonce());
+    expect(retried.status()).toBe(200);
+  });
+});
+
+test.describe('Mock Issuer - Batch Issuance @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+  let batchSize = 0;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const response = await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`);
+      mockIssuerAvailable = response.ok();
+      batchSize = (await response.json()).batch_credential_issuance?.batch_size ?? 0;
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  async function requestBatch(count: number) {
+    const offer = await (await request.post(`${MOCK_ISSUER_URL}/offers`, {
+      data: { credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'] },
+    })).json();
+    const token = await (await request.post(`${MOCK_ISSUER_URL}/token`, {
+      form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': offer.pre_authorized_code },
+    })).json();
+    const holders = Array.from({ length: count }, () => createHolderKey());
+
+    const response = await request.post(`${MOCK_ISSUER_URL}/credential`, {
+      headers: { Authorization: `Bearer ${token.access_token}` },
+      data: {
+        credential_configuration_id: 'eu.europa.ec.eudi.pid_vc_sd_jwt',
+        proofs: { jwt: holders.map(holder => createProofJwt(holder, token.c_nonce)) },
+      },
+    });
+    return { response, holders };
+  }
+
+  test('metadata advertises batch_credential_issuance', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    expect(batchSize).toBeGreaterThan(1);
+    // Batches go through proofs on the credential endpoint; there is no separate batch endpoint
+    const metadata = await (await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`)).json();
+    expect(metadata.batch_credential_endpoint).toBeUndefined();
+  });
+
+  test('issues one credential instance per proof, each bound to its own key', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { response, holders } = await requestBatch(batchSize);
+    expect(response.status()).toBe(200);
+
+    const { credentials } = await response.json();
+    expect(credentials).toHaveLength(batchSize);
+
+    const boundKeys = credentials.map((entry: { credential: string }) => {
+      const payload = JSON.parse(Buffer.from(entry.credential.split('~')[0].split('.')[1], 'base64url').toString('utf8'));
+      return payload.cnf.jwk.x;
+    });
+    expect(boundKeys).toEqual(holders.map(holder => holder.publicJwk.x));
+  });
+
+  test('batch larger than batch_size is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { response } = await requestBatch(batchSize + 1);
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_credential_request');
+  });
+});
+
+test.describe('Mock Issuer - Deferred Issuance @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  /**
+   * Run the pre-authorized code flow for an offer with deferred issuance and return the credential response
+   */
+  async function requestDeferredCredential(pendingCount: number) {
+    const offer = await (await request.post(`${MOCK_ISSUER_URL}/offers`, {
+      data: {
+        credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'],
+        deferred: { pending_count: pendingCount, interval: 1 },
+      },
+    })).json();
+    const token = await (await request.post(`${MOCK_ISSUER_URL}/token`, {
+      form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': offer.pre_authorized_code },
+    })).json();
+
+    const response = await request.post(`${MOCK_ISSUER_URL}/credential`, {
+      headers: { Authorization: `Bearer ${token.access_token}` },
+      data: {
+        credential_configuration_id: 'eu.europa.ec.eudi.pid_vc_sd_jwt',
+        proof: { proof_type: 'jwt', jwt: createProofJwt(createHolderKey(), token.c_nonce) },
+      },
+    });
+    return { response, accessToken: token.access_token as string };
+  }
+
+  function pollDeferred(accessToken: string, transactionId: string) {
+    return request.post(`${MOCK_ISSUER_URL}/deferred_credential`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      data: { transaction_id: transactionId },
+    });
+  }
+
+  test('metadata advertises the deferred credential endpoint', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const metadata = await (await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`)).json();
+
+    expect(metadata.deferred_credential_endpoint).toBe(`${MOCK_ISSUER_URL}/deferred_credential`);
+  });
+
+  test('credential endpoint answers with transaction_id and interval', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { response } = await requestDeferredCredential(1);
+    expect(response.status()).toBe(202);
+
+    const body = await response.json();
+    expect(typeof body.transaction_id).toBe('string');
+    expect(body.interval).toBe(1);
+    expect(body.credential).toBeUndefined();
+    expect(body.credentials).toBeUndefined();
+  });
+
+  test('deferred endpoint is pending the configured number of times before delivering', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { response, accessToken } = await requestDeferredCredential(2);
+    const { transaction_id } = await response.json();
+
+    for (let poll = 0; poll < 2; poll++) {
+      const pending = await pollDeferred(accessToken, transaction_id);
+      expect(pending.status()).toBe(400);
+      const body = await pending.json();
+      expect(body.error).toBe('issuance_pending');
+      expect(body.interval).toBe(1);
+    }
+
+    const delivered = await pollDeferred(accessToken, transaction_id);
+    expect(delivered.status()).toBe(200);
+    const { credentials } = await delivered.json();
+    expect(credentials).toHaveLength(1);
+    expect(credentials[0].credential).toContain('~');
+  });
+
+  test('transaction_id is redeemed only once', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { response, accessToken } = await requestDeferredCredential(0);
+    const { transaction_id } = await response.json();
+
+    expect((await pollDeferred(accessToken, transaction_id)).status()).toBe(200);
+
+    const replay = await pollDeferred(accessToken, transaction_id);
+    expect(replay.status()).toBe(400);
+    expect((await replay.json()).error).toBe('invalid_transaction_id');
+  });
+
+  test('deferred endpoint requires the access token of the transaction', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { response } = await requestDeferredCredential(0);
+    const { transaction_id } = await response.json();
+    const other = await requestDeferredCredential(0);
+
+    const stolen = await pollDeferred(other.accessToken, transaction_id);
+    expect(stolen.status()).toBe(400);
+    expect((await stolen.json()).error).toBe('invalid_transaction_id');
+
+    const anonymous = await request.post(`${MOCK_ISSUER_URL}/deferred_credential`, { data: { transaction_id } });
+    expect(anonymous.status()).toBe(401);
+  });
+});
+
+test.describe('Mock Issuer - Notification Endpoint @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  /**
+   * Issue an SD-JWT VC and return the access token and notification_id of the issuance
+   */
+  async function issue() {
+    const offer = await (await request.post(`${MOCK_ISSUER_URL}/offers`, {
+      data: { credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'] },
+    })).json();
+    const token = await (await request.post(`${MOCK_ISSUER_URL}/token`, {
+      form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': offer.pre_authorized_code },
+    })).json();
+    const credentialResponse = await (await request.post(`${MOCK_ISSUER_URL}/credential`, {
+      headers: { Authorization: `Bearer ${token.access_token}` },
+      data: {
+        credential_configuration_id: 'eu.europa.ec.eudi.pid_vc_sd_jwt',
+        proof: { proof_type: 'jwt', jwt: createProofJwt(createHolderKey(), token.c_nonce) },
+      },
+    })).json();
+    return { accessToken: token.access_token as string, notificationId: credentialResponse.notification_id as string };
+  }
+
+  function notify(accessToken: string, data: Record<string, unknown>) {
+    return request.post(`${MOCK_ISSUER_URL}/notification`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      data,
+    });
+  }
+
+  test('metadata advertises the notification endpoint', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const metadata = await (await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`)).json();
+
+    expect(metadata.notification_endpoint).toBe(`${MOCK_ISSUER_URL}/notification`);
+  });
+
+  test('credential response carries a notification_id', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { notificationId } = await issue();
+
+    expect(typeof notificationId).toBe('string');
+  });
+
+  test('accepted and deleted events are recorded in order', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await request.delete(`${MOCK_ISSUER_URL}/debug/notifications`);
+    const { accessToken, notificationId } = await issue();
+
+    const accepted = await notify(accessToken, { notification_id: notificationId, event: 'credential_accepted' });
+    expect(accepted.status()).toBe(204);
+    const deleted = await notify(accessToken, {
+      notification_id: notificationId,
+      event: 'credential_deleted',
+      event_description: 'Removed by the user',
+    });
+    expect(deleted.status()).toBe(204);
+
+    const { notifications } = await (await request.get(`${MOCK_ISSUER_URL}/debug/notifications`)).json();
+    expect(notifications.map((entry: { event: string }) => entry.event)).toEqual(['credential_accepted', 'credential_deleted']);
+    expect(notifications[0].notification_id).toBe(notificationId);
+    expect(notifications[0].credential_configuration_id).toBe('eu.europa.ec.eudi.pid_vc_sd_jwt');
+    expect(notifications[1].event_description).toBe('Removed by the user');
+  });
+
+  test('unknown event is rejected with invalid_notification_request', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { accessToken, notificationId } = await issue();
+
+    const response = await notify(accessToken, { notification_id: notificationId, event: 'credential_lost' });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_notification_request');
+  });
+
+  test('notification_id of another access token is rejected with invalid_notification_id', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { notificationId } = await issue();
+    const other = await issue();
+
+    const response = await notify(other.accessToken, { notification_id: notificationId, event: 'credential_accepted' });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_notification_id');
+  });
+
+  test('notification without access token is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { notificationId } = await issue();
+
+    const response = await request.post(`${MOCK_ISSUER_URL}/notification`, {
+      data: { notification_id: notificationId, event: 'credential_accepted' },
+    });
+
+    expect(response.status()).toBe(401);
+  });
+});
+
+test.describe('Mock Issuer - DPoP @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  /**
+   * Create a dpop+jwt for a request, with optional ath, nonce and claim overrides
+   */
+  function createDpopProof(
+    holder: HolderKey,
+    method: string,
+    path: string,
+    options: { accessToken?: string; nonce?: string; payload?: Record<string, unknown> } = {}
+  ): string {
+    const header = { typ: 'dpop+jwt', alg: 'ES256', jwk: holder.publicJwk };
+    const payload = {
+      jti: randomBytes(16).toString('base64url'),
+      htm: method,
+      htu: `${MOCK_ISSUER_URL}${path}`,
+      iat: Math.floor(Date.now() / 1000),
+      ...(options.accessToken ? { ath: createHash('sha256').update(options.accessToken).digest('base64url') } : {}),
+      ...(options.nonce ? { nonce: options.nonce } : {}),
+      ...options.payload,
+    };
+    const signingInput = [header, payload]
+      .map(part => Buffer.from(JSON.stringify(part)).toString('base64url'))
+      .join('.');
+    const signature = sign('sha256', Buffer.from(signingInput), { key: holder.privateKey, dsaEncoding: 'ieee-p1363' });
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  async function createOffer() {
+    const offer = await (await request.post(`${MOCK_ISSUER_URL}/offers`, {
+      data: { credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'] },
+    })).json();
+    return offer.pre_authorized_code as string;
+  }
+
+  function requestToken(preAuthorizedCode: string, dpop: string) {
+    return request.post(`${MOCK_ISSUER_URL}/token`, {
+      headers: { DPoP: dpop },
+      form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': preAuthorizedCode },
+    });
+  }
+
+  /**
+   * Obtain a DPoP-bound access token, answering the nonce challenge of the token endpoint
+   */
+  async function getDpopToken(dpopKey: HolderKey) {
+    const preAuthorizedCode = await createOffer();
+    const challenge = await requestToken(preAuthorizedCode, createDpopProof(dpopKey, 'POST', '/token'));
+    const response = await requestToken(
+      preAuthorizedCode,
+      createDpopProof(dpopKey, 'POST', '/token', { nonce: challenge.headers()['dpop-nonce'] })
+    );
+    expect(response.status()).toBe(200);
+    return { token: await response.json(), nonce: response.headers()['dpop-nonce'] };
+  }
+
+  function requestCredential(accessToken: string, cNonce: string, headers: Record<string, string>) {
+    return request.post(`${MOCK_ISSUER_URL}/credential`, {
+      headers,
+      data: {
+        credential_configuration_id: 'eu.europa.ec.eudi.pid_vc_sd_jwt',
+        proof: { proof_type: 'jwt', jwt: createProofJwt(createHolderKey(), cNonce) },
+      },
+    });
+  }
+
+  test('token endpoint challenges DPoP proofs without a server nonce', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const response = await requestToken(await createOffer(), createDpopProof(createHolderKey(), 'POST', '/token'));
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('use_dpop_nonce');
+    expect(response.headers()['dpop-nonce']).toBeTruthy();
+  });
+
+  test('DPoP proof for another method or URL is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const dpopKey = createHolderKey();
+    const preAuthorizedCode = await createOffer();
+    const challenge = await requestToken(preAuthorizedCode, createDpopProof(dpopKey, 'POST', '/token'));
+    const nonce = challenge.headers()['dpop-nonce'];
+
+    const wrongMethod = await requestToken(preAuthorizedCode, createDpopProof(dpopKey, 'GET', '/token', { nonce }));
+    expect(wrongMethod.status()).toBe(400);
+    expect((await wrongMethod.json()).error).toBe('invalid_dpop_proof');
+
+    const wrongUrl = await requestToken(preAuthorizedCode, createDpopProof(dpopKey, 'POST', '/credential', { nonce }));
+    expect(wrongUrl.status()).toBe(400);
+    expect((await wrongUrl.json()).error).toBe('invalid_dpop_proof');
+  });
+
+  test('DPoP-bound access token is usable with a matching proof', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const dpopKey = createHolderKey();
+    const { token, nonce } = await getDpopToken(dpopKey);
+    expect(token.token_type).toBe('DPoP');
+
+    const response = await requestCredential(token.access_token, token.c_nonce, {
+      Authorization: `DPoP ${token.access_token}`,
+      DPoP: createDpopProof(dpopKey, 'POST', '/credential', { accessToken: token.access_token, nonce }),
+    });
+
+    expect(response.status()).toBe(200);
+    expect(response.headers()['dpop-nonce']).toBeTruthy();
+  });
+
+  test('DPoP-bound access token presented as bearer token is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const { token } = await getDpopToken(createHolderKey());
+
+    const response = await requestCredential(token.access_token, token.c_nonce, {
+      Authorization: `Bearer ${token.access_token}`,
+    });
+
+    expect(response.status()).toBe(401);
+    expect((await response.json()).error).toBe('invalid_token');
+    expect(response.headers()['www-authenticate']).toContain('DPoP');
+  });
+
+  test('proof without ath or from another key is rejected at the credential endpoint', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const dpopKey = createHolderKey();
+    const { token, nonce } = await getDpopToken(dpopKey);
+
+    const withoutAth = await requestCredential(token.access_token, token.c_nonce, {
+      Authorization: `DPoP ${token.access_token}`,
+      DPoP: createDpopProof(dpopKey, 'POST', '/credential', { nonce }),
+    });
+    expect(withoutAth.status()).toBe(401);
+    expect((await withoutAth.json()).error).toBe('invalid_dpop_proof');
+
+    const otherKey = await requestCredential(token.access_token, token.c_nonce, {
+      Authorization: `DPoP ${token.access_token}`,
+      DPoP: createDpopProof(createHolderKey(), 'POST', '/credential', { accessToken: token.access_token, nonce }),
+    });
+    expect(otherKey.status()).toBe(401);
+    expect((await otherKey.json()).error).toBe('invalid_token');
+  });
+
+  test('replayed DPoP proof is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const dpopKey = createHolderKey();
+    const { token, nonce } = await getDpopToken(dpopKey);
+    const proof = createDpopProof(dpopKey, 'POST', '/credential', { accessToken: token.access_token, nonce });
+
+    const first = await requestCredential(token.access_token, token.c_nonce, {
+      Authorization: `DPoP ${token.access_token}`,
+      DPoP: proof,
+    });
+    expect(first.status()).toBe(200);
+
+    const replay = await requestCredential(token.access_token, (await first.json()).c_nonce, {
+      Authorization: `DPoP ${token.access_token}`,
+      DPoP: proof,
+    });
+    expect(replay.status()).toBe(401);
+    expect((await replay.json()).error_description).toContain('jti');
+  });
+});
+
+test.describe('Mock Issuer - Credential Offers @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let offers: CredentialOfferHelper;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    offers = new CredentialOfferHelper(request, MOCK_ISSUER_URL);
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  test('offer by value is embedded in the deep link', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOffer({ credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'] });
+
+    const deepLink = new URL(offer.deep_link);
+    expect(deepLink.protocol).toBe('openid-credential-offer:');
+    expect(JSON.parse(deepLink.searchParams.get('credential_offer')!)).toEqual(offer.credential_offer);
+    expect(offer.credential_offer.credential_configuration_ids).toEqual(['eu.europa.ec.eudi.pid_vc_sd_jwt']);
+    expect(offer.credential_offer.grants[PRE_AUTHORIZED_GRANT_TYPE]!['pre-authorized_code']).toBe(offer.pre_authorized_code);
+  });
+
+  test('offer by reference resolves through credential_offer_uri', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOfferByReference();
+
+    const deepLink = new URL(offer.deep_link);
+    expect(deepLink.searchParams.get('credential_offer')).toBeNull();
+    expect(deepLink.searchParams.get('credential_offer_uri')).toBe(offer.credential_offer_uri);
+    expect(await offers.resolveOfferUri(offer.credential_offer_uri!)).toEqual(offer.credential_offer);
+  });
+
+  test('offer carries the selected grants and tx_code', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOffer({
+      grant_types: [PRE_AUTHORIZED_GRANT_TYPE, AUTHORIZATION_CODE_GRANT_TYPE],
+      tx_code: { length: 4, input_mode: 'numeric', description: 'PIN sent by mail' },
+    });
+
+    const { grants } = offer.credential_offer;
+    expect(grants.authorization_code!.issuer_state).toBe(offer.issuer_state);
+    expect(grants[PRE_AUTHORIZED_GRANT_TYPE]!.tx_code).toEqual({ length: 4, input_mode: 'numeric', description: 'PIN sent by mail' });
+  });
+
+  test('authorization code offer has no pre-authorized code', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOffer({ grant_types: [AUTHORIZATION_CODE_GRANT_TYPE] });
+
+    expect(offer.pre_authorized_code).toBeUndefined();
+    expect(Object.keys(offer.credential_offer.grants)).toEqual(['authorization_code']);
+  });
+
+  test('QR code PNG is returned inline and served by the issuer', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOfferByReference();
+    const png = offers.getQrCodePng(offer);
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+
+    const response = await request.get(offer.qr_code_uri);
+    expect(response.status()).toBe(200);
+    expect(response.headers()['content-type']).toBe('image/png');
+    expect(await response.body()).toEqual(png);
+  });
+
+  test('wallet URL carries the offer query', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOfferByReference();
+
+    const walletUrl = new URL(offers.getWalletUrl(offer, 'http://wallet.example/'));
+    expect(walletUrl.origin).toBe('http://wallet.example');
+    expect(walletUrl.searchParams.get('credential_offer_uri')).toBe(offer.credential_offer_uri);
+  });
+
+  test('unsupported grant type is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const response = await request.post(`${MOCK_ISSUER_URL}/offers`, { data: { grant_types: ['client_credentials'] } });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_request');
+  });
+});
+
+test.describe('Mock Issuer - Transaction Code @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let offers: CredentialOfferHelper;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    offers = new CredentialOfferHelper(request, MOCK_ISSUER_URL);
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  function exchangeCode(preAuthorizedCode: string, txCode?: string) {
+    return request.post(`${MOCK_ISSUER_URL}/token`, {
+      form: {
+        grant_type: PRE_AUTHORIZED_GRANT_TYPE,
+        'pre-authorized_code': preAuthorizedCode,
+        ...(txCode !== undefined ? { tx_code: txCode } : {}),
+      },
+    });
+  }
+
+  test('generated tx_code matches the advertised length and input mode', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOffer({ tx_code: { length: 4, input_mode: 'numeric' } });
+
+    expect(offer.tx_code_value).toMatch(/^\d{4}$/);
+    expect(offer.credential_offer.grants[PRE_AUTHORIZED_GRANT_TYPE]!.tx_code).toEqual({ length: 4, input_mode: 'numeric' });
+  });
+
+  test('correct tx_code is exchanged for an access token', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOffer({ tx_code: true });
+
+    const response = await exchangeCode(offer.pre_authorized_code!, offer.tx_code_value);
+
+    expect(response.status()).toBe(200);
+    expect((await response.json()).access_token).toBeTruthy();
+  });
+
+  test('missing tx_code is rejected with invalid_request', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOffer({ tx_code: true });
+
+    const response = await exchangeCode(offer.pre_authorized_code!);
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_request');
+  });
+
+  test('wrong tx_code is rejected but the code stays redeemable', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOffer({ tx_code: { value: '1234' } });
+
+    const wrong = await exchangeCode(offer.pre_authorized_code!, '0000');
+    expect(wrong.status()).toBe(400);
+    const error = await wrong.json();
+    expect(error.error).toBe('invalid_grant');
+    expect(error.error_description).toContain('attempt(s) left');
+
+    const right = await exchangeCode(offer.pre_authorized_code!, '1234');
+    expect(right.status()).toBe(200);
+  });
+
+  test('too many wrong tx_codes lock the pre-authorized code', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOffer({ tx_code: { value: '1234' } });
+
+    let locked = false;
+    for (let attempt = 0; attempt < 10 && !locked; attempt++) {
+      const response = await exchangeCode(offer.pre_authorized_code!, '0000');
+      expect(response.status()).toBe(400);
+      locked = (await response.json()).error_description.includes('locked');
+    }
+    expect(locked).toBe(true);
+
+    const right = await exchangeCode(offer.pre_authorized_code!, '1234');
+    expect(right.status()).toBe(400);
+    expect((await right.json()).error).toBe('invalid_grant');
+  });
+
+  test('invalid tx_code values are rejected when the offer is created', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    for (const txCode of [{ value: 1234 }, { value: '' }, { value: 'abcd' }, { value: '1234', length: 6 }, { length: 0 }]) {
+      const response = await request.post(`${MOCK_ISSUER_URL}/offers`, {
+        data: { credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'], tx_code: txCode },
+      });
+      expect(response.status(), JSON.stringify(txCode)).toBe(400);
+      expect((await response.json()).error).toBe('invalid_request');
+    }
+  });
+
+  test('tx_code for an offer without one is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const offer = await offers.createOffer();
+
+    const response = await exchangeCode(offer.pre_authorized_code!, '1234');
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_request');
+  });
+});
+
+test.describe('Mock Issuer - Display and Signed Metadata @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  async function getMetadata(): Promise<CredentialIssuerMetadata> {
+    return (await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`)).json();
+  }
+
+  function decodeJwtPart(jwt: string, index: number) {
+    return JSON.parse(Buffer.from(jwt.split('.')[index], 'base64url').toString('utf8'));
+  }
+
+  test('issuer and credentials are displayed in several locales', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const metadata = await getMetadata();
+    const displays = [
+      metadata.display,
+      ...Object.values(metadata.credential_configurations_supported).map(configuration => configuration.display),
+    ];
+
+    for (const display of displays) {
+      const locales = display.map((entry: { locale: string }) => entry.locale);
+      expect(locales).toEqual(expect.arrayContaining(['en-US', 'de-DE', 'fr-FR', 'sv-SE']));
+      expect(new Set(display.map((entry: { name: string }) => entry.name)).size).toBe(display.length);
+    }
+  });
+
+  test('every logo referenced by the metadata is served as PNG', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const metadata = await getMetadata();
+    const logoUris = new Set<string>(
+      [metadata, ...Object.values(metadata.credential_configurations_supported)]
+        .flatMap(entry => entry.display)
+        .map(display => display.logo.uri)
+    );
+    expect(logoUris.size).toBeGreaterThan(1);
+
+    for (const uri of logoUris) {
+      const response = await request.get(uri);
+      expect(response.status(), uri).toBe(200);
+      expect(response.headers()['content-type']).toBe('image/png');
+      expect((await response.body()).subarray(1, 4).toString('ascii')).toBe('PNG');
+    }
+  });
+
+  test('signed_metadata is signed by a certificate chained to the trust anchor', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const metadata = await getMetadata();
+    test.skip(!metadata.signed_metadata, 'Mock issuer runs without signed metadata');
+
+    const jwt = metadata.signed_metadata!;
+    const header = decodeJwtPart(jwt, 0);
+    const payload = decodeJwtPart(jwt, 1);
+    expect(header.typ).toBe('openid-credential-issuer-metadata+jwt');
+    expect(header.alg).toBe('ES256');
+
+    const { certificates } = await (await request.get(`${MOCK_ISSUER_URL}/metadata_trust_anchors`)).json();
+    const trustAnchor = new X509Certificate(certificates[0]);
+    const signer = new X509Certificate(Buffer.from(header.x5c[0], 'base64'));
+    expect(signer.checkIssued(trustAnchor)).toBe(true);
+    expect(signer.verify(trustAnchor.publicKey)).toBe(true);
+
+    const [encodedHeader, encodedPayload, signature] = jwt.split('.');
+    expect(
+      verify('sha256', Buffer.from(`${encodedHeader}.${encodedPayload}`), { key: signer.publicKey, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))
+    ).toBe(true);
+
+    expect(payload.sub).toBe(metadata.credential_issuer);
+    expect(typeof payload.iat).toBe('number');
+    expect(payload.credential_endpoint).toBe(metadata.credential_endpoint);
+    expect(payload.display).toEqual(metadata.display);
+  });
+
+  test('signed metadata is served as JWT for Accept: application/jwt', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+    test.skip(!(await getMetadata()).signed_metadata, 'Mock issuer runs without signed metadata');
+
+    const response = await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`, {
+      headers: { Accept: 'application/jwt' },
+    });
+
+    expect(response.headers()['content-type']).toBe('application/jwt');
+    expect(decodeJwtPart(await response.text(), 1).sub).toBe(MOCK_ISSUER_URL);
+  });
+});
+
+test.describe('Mock Issuer - Status List @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  async function issueSdJwtStatus(): Promise<{ idx: number; uri: string }> {
+    const response = await issueCredential(request, 'eu.europa.ec.eudi.pid_vc_sd_jwt', createHolderKey());
+    const issuerJwt: string = (await response.json()).credentials[0].credential.split('~')[0];
+    return JSON.parse(Buffer.from(issuerJwt.split('.')[1], 'base64url').toString('utf8')).status.status_list;
+  }
+
+  // Read the status of one index from the status list token, as a relying party does
+  async function readStatus(uri: string, idx: number): Promise<number> {
+    const response = await request.get(uri);
+    expect(response.headers()['content-type']).toBe('application/statuslist+jwt');
+    const jwt = await response.text();
+    const statusList = JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString('utf8')).status_list;
+    const bytes = inflateSync(Buffer.from(statusList.lst, 'base64url'));
+    const perByte = 8 / statusList.bits;
+    return (bytes[Math.floor(idx / perByte)] >> ((idx % perByte) * statusList.bits)) & ((1 << statusList.bits) - 1);
+  }
+
+  async function setStatus(idx: number, status: string) {
+    return request.post(`${MOCK_ISSUER_URL}/admin/status`, { data: { idx, status } });
+  }
+
+  test('issued SD-JWT VCs reference an entry in the status list', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const status = await issueSdJwtStatus();
+    expect(status.uri).toBe(`${MOCK_ISSUER_URL}/status-lists/1`);
+    expect(Number.isInteger(status.idx)).toBe(true);
+    expect(await readStatus(status.uri, status.idx)).toBe(0);
+  });
+
+  test('status list token is a signed statuslist+jwt for its own URI', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const status = await issueSdJwtStatus();
+    const jwt = await (await request.get(status.uri)).text();
+    const [encodedHeader, encodedPayload, signature] = jwt.split('.');
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    expect(header.typ).toBe('statuslist+jwt');
+    expect(payload.sub).toBe(status.uri);
+    expect(payload.exp).toBeGreaterThan(payload.iat);
+
+    const { jwks } = await (await request.get(`${MOCK_ISSUER_URL}/.well-known/jwt-vc-issuer`)).json();
+    const jwk = jwks.keys.find((key: { kid: string }) => key.kid === header.kid);
+    expect(
+      verify('sha256', Buffer.from(`${encodedHeader}.${encodedPayload}`), { key: createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))
+    ).toBe(true);
+  });
+
+  test('revoking and suspending a credential changes its status list entry', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const status = await issueSdJwtStatus();
+    const other = await issueSdJwtStatus();
+
+    expect((await setStatus(status.idx, 'suspended')).status()).toBe(200);
+    expect(await readStatus(status.uri, status.idx)).toBe(2);
+
+    expect((await setStatus(status.idx, 'invalid')).status()).toBe(200);
+    expect(await readStatus(status.uri, status.idx)).toBe(1);
+    expect(await readStatus(other.uri, other.idx)).toBe(0);
+
+    const { entries } = await (await request.get(`${MOCK_ISSUER_URL}/admin/status`)).json();
+    expect(entries.find((entry: { idx: number }) => entry.idx === status.idx).status).toBe('invalid');
+  });
+
+  test('unknown indices and statuses are rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const status = await issueSdJwtStatus();
+    expect((await setStatus(status.idx + 1000, 'invalid')).status()).toBe(400);
+    expect((await setStatus(status.idx, 'revoked')).status()).toBe(400);
+  });
+
+  test('mdoc credentials reference the status list too', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const response = await issueCredential(request, 'eu.europa.ec.eudi.pid.1', createHolderKey());
+    const issuerSigned = Buffer.from((await response.json()).credentials[0].credential, 'base64url');
+    expect(issuerSigned.includes(Buffer.from('status_list'))).toBe(true);
+    expect(issuerSigned.includes(Buffer.from(`${MOCK_ISSUER_URL}/status-lists/1`))).toBe(true);
+  });
+
+  test('status list is served as CWT for Accept: application/statuslist+cwt', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const response = await request.get(`${MOCK_ISSUER_URL}/status-lists/1`, {
+      headers: { Accept: 'application/statuslist+cwt' },
+    });
+
+    expect(response.headers()['content-type']).toBe('application/statuslist+cwt');
+    const cwt = await response.body();
+    // Tag 18 (COSE_Sign1) followed by a four-element array
+    expect(cwt[0]).toBe(0xd2);
+    expect(cwt[1]).toBe(0x84);
+    expect(cwt.includes(Buffer.from('application/statuslist+cwt'))).toBe(true);
+  });
+});
+
+test.describe('Mock Issuer - Client Attestation @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let mockIssuerAvailable = false;
+
+  const CLIENT_ID = 'wallet-e2e-test';
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  function signJwt(key: KeyObject, header: Record<string, unknown>, payload: Record<string, unknown>): string {
+    const signingInput = [{ alg: 'ES256', ...header }, payload]
+      .map(part => Buffer.from(JSON.stringify(part)).toString('base64url'))
+      .join('.');
+    const signature = sign('sha256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' });
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Client attestation for a wallet instance key, signed by the mock's built-in wallet provider
+   */
+  async function getClientAttestation(instanceKey: HolderKey, clientId = CLIENT_ID): Promise<string> {
+    const response = await request.post(`${MOCK_ISSUER_URL}/debug/wallet-attestations`, {
+      data: { client_id: clientId, jwk: instanceKey.publicJwk },
+    });
+    const { client_attestation, trusted } = await response.json();
+    test.skip(!trusted, 'Mock issuer does not trust its built-in wallet provider');
+    return client_attestation;
+  }
+
+  function createPop(instanceKey: HolderKey, payload: Record<string, unknown> = {}): string {
+    return signJwt(
+      instanceKey.privateKey,
+      { typ: 'oauth-client-attestation-pop+jwt' },
+      {
+        iss: CLIENT_ID,
+        aud: MOCK_ISSUER_URL,
+        jti: randomBytes(16).toString('base64url'),
+        iat: Math.floor(Date.now() / 1000),
+        ...payload,
+      }
+    );
+  }
+
+  async function requestToken(attestation: string, pop: string) {
+    const offer = await (await request.post(`${MOCK_ISSUER_URL}/offers`, { data: {} })).json();
+    return request.post(`${MOCK_ISSUER_URL}/token`, {
+      headers: { 'OAuth-Client-Attestation': attestation, 'OAuth-Client-Attestation-PoP': pop },
+      form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': offer.pre_authorized_code, client_id: CLIENT_ID },
+    });
+  }
+
+  test('authorization server metadata advertises attest_jwt_client_auth', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const metadata = await (await request.get(`${MOCK_ISSUER_URL}/.well-known/oauth-authorization-server`)).json();
+    expect(metadata.token_endpoint_auth_methods_supported).toContain('attest_jwt_client_auth');
+    expect(metadata.client_attestation_signing_alg_values_supported).toContain('ES256');
+    expect(metadata.client_attestation_pop_signing_alg_values_supported).toContain('ES256');
+  });
+
+  test('token endpoint accepts an attested client', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const instanceKey = createHolderKey();
+    const response = await requestToken(await getClientAttestation(instanceKey), createPop(instanceKey));
+
+    expect(response.status()).toBe(200);
+    expect((await response.json()).access_token).toBeTruthy();
+  });
+
+  test('PAR endpoint accepts an attested client', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const instanceKey = createHolderKey();
+    const response = await request.post(`${MOCK_ISSUER_URL}/par`, {
+      headers: {
+        'OAuth-Client-Attestation': await getClientAttestation(instanceKey),
+        'OAuth-Client-Attestation-PoP': createPop(instanceKey),
+      },
+      form: {
+        client_id: CLIENT_ID,
+        response_type: 'code',
+        redirect_uri: REDIRECT_URI,
+        scope: 'eu.europa.ec.eudi.pid.1',
+        code_challenge: createHash('sha256').update(randomBytes(32).toString('base64url')).digest('base64url'),
+        code_challenge_method: 'S256',
+      },
+    });
+
+    expect(response.status()).toBe(201);
+  });
+
+  test('attestation from an untrusted wallet provider is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const instanceKey = createHolderKey();
+    const rogueProvider = createHolderKey();
+    const attestation = signJwt(
+      rogueProvider.privateKey,
+      { typ: 'oauth-client-attestation+jwt' },
+      { iss: 'https://rogue.example', sub: CLIENT_ID, exp: Math.floor(Date.now() / 1000) + 3600, cnf: { jwk: instanceKey.publicJwk } }
+    );
+    const response = await requestToken(attestation, createPop(instanceKey));
+
+    expect(response.status()).toBe(401);
+    const error = await response.json();
+    expect(error.error).toBe('invalid_client');
+    expect(error.error_description).toContain('trusted wallet provider');
+  });
+
+  test('PoP signed by another key than the attested one is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const attestation = await getClientAttestation(createHolderKey());
+    const response = await requestToken(attestation, createPop(createHolderKey()));
+
+    expect(response.status()).toBe(401);
+    expect((await response.json()).error_description).toContain('attested key');
+  });
+
+  test('PoP addressed to another audience is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const instanceKey = createHolderKey();
+    const response = await requestToken(
+      await getClientAttestation(instanceKey),
+      createPop(instanceKey, { aud: 'https://other.example' })
+    );
+
+    expect(response.status()).toBe(401);
+    expect((await response.json()).error_description).toContain('aud');
+  });
+
+  test('replayed PoP is rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const instanceKey = createHolderKey();
+    const attestation = await getClientAttestation(instanceKey);
+    const pop = createPop(instanceKey);
+    expect((await requestToken(attestation, pop)).status()).toBe(200);
+
+    const replay = await requestToken(attestation, pop);
+    expect(replay.status()).toBe(401);
+    expect((await replay.json()).error_description).toContain('jti');
+  });
+
+  test('client_id must be the attested client', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const instanceKey = createHolderKey();
+    const attestation = await getClientAttestation(instanceKey, 'another-wallet');
+    const response = await requestToken(attestation, createPop(instanceKey, { iss: 'another-wallet' }));
+
+    expect(response.status()).toBe(401);
+    expect((await response.json()).error_description).toContain('not the attested client');
+  });
+});
+
+test.describe('Mock Issuer - Scenario Control @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let control: MockIssuerControlHelper;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    control = new MockIssuerControlHelper(request, MOCK_ISSUER_URL);
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterEach(async () => {
+    if (mockIssuerAvailable) {
+      await control.reset();
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  test('control API requires the control token', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const anonymous = await request.post(`${MOCK_ISSUER_URL}/__control`, { data: { include_iaca: false } });
+    expect(anonymous.status()).toBe(401);
+
+    const wrongToken = new MockIssuerControlHelper(request, MOCK_ISSUER_URL, 'wrong-token');
+    await expect(wrongToken.getScenario()).rejects.toThrow('401');
+  });
+
+  test('invalid scenario fields are rejected without changing the scenario', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const before = await control.getScenario();
+    await expect(control.setScenario({ dpop_mode: 'sometimes' as 'required' })).rejects.toThrow('dpop_mode');
+    await expect(control.setScenario({ unknown_field: true } as object)).rejects.toThrow('Unknown scenario field');
+    expect(await control.getScenario()).toEqual(before);
+  });
+
+  test('IACA can be toggled at runtime', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await control.setScenario({ include_iaca: false });
+    expect((await request.get(`${MOCK_ISSUER_URL}/mdoc_iacas`)).status()).toBe(404);
+    const metadata = await (await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`)).json();
+    expect(metadata.mdoc_iacas_uri).toBeUndefined();
+
+    await control.setScenario({ include_iaca: true });
+    expect((await request.get(`${MOCK_ISSUER_URL}/mdoc_iacas`)).status()).toBe(200);
+  });
+
+  test('disabled endpoints answer 404', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await control.disableEndpoints('/nonce', '/.well-known/*');
+    expect((await request.post(`${MOCK_ISSUER_URL}/nonce`)).status()).toBe(404);
+    expect((await request.get(`${MOCK_ISSUER_URL}/.well-known/oauth-authorization-server`)).status()).toBe(404);
+    expect((await request.get(`${MOCK_ISSUER_URL}/health`)).status()).toBe(200);
+  });
+
+  test('metadata can be served malformed', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+    const metadataUrl = `${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`;
+
+    await control.setMalformedMetadata('invalid_json');
+    await expect((await request.get(metadataUrl)).json()).rejects.toThrow();
+
+    await control.setMalformedMetadata('missing_fields');
+    const incomplete = await (await request.get(metadataUrl)).json();
+    expect(incomplete.credential_endpoint).toBeUndefined();
+    expect(incomplete.credential_configurations_supported).toBeUndefined();
+
+    await control.setMalformedMetadata('wrong_issuer');
+    expect((await (await request.get(metadataUrl)).json()).credential_issuer).not.toBe(MOCK_ISSUER_URL);
+  });
+
+  test('injected faults fail the given number of requests', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await control.injectFault({ path: '/nonce', status: 503, times: 2 });
+    expect((await request.post(`${MOCK_ISSUER_URL}/nonce`)).status()).toBe(503);
+    expect((await request.post(`${MOCK_ISSUER_URL}/nonce`)).status()).toBe(503);
+    expect((await request.post(`${MOCK_ISSUER_URL}/nonce`)).status()).toBe(200);
+  });
+
+  test('injected latency delays responses', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await control.injectFault({ path: '/nonce', latency_ms: 500 });
+    const start = Date.now();
+    expect((await request.post(`${MOCK_ISSUER_URL}/nonce`)).status()).toBe(200);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(450);
+  });
+
+  test('credential configurations can be restricted and changed', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await control.setScenario({
+      credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'],
+      credential_configuration_overrides: { 'eu.europa.ec.eudi.pid_vc_sd_jwt': { scope: 'pid_scenario' } },
+    });
+
+    const metadata = await (await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`)).json();
+    expect(Object.keys(metadata.credential_configurations_supported)).toEqual(['eu.europa.ec.eudi.pid_vc_sd_jwt']);
+    expect(metadata.credential_configurations_supported['eu.europa.ec.eudi.pid_vc_sd_jwt'].scope).toBe('pid_scenario');
+
+    const offer = await request.post(`${MOCK_ISSUER_URL}/offers`, {
+      data: { credential_configuration_ids: ['eu.europa.ec.eudi.pid.1'] },
+    });
+    expect(offer.status()).toBe(400);
+  });
+
+  test('reset restores the startup scenario', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const before = await control.getScenario();
+    await control.setScenario({ batch_size: 1, dpop_mode: 'required', disabled_endpoints: ['/token'] });
+    expect(await control.reset()).toEqual(before);
+    expect((await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer`)).ok()).toBe(true);
+  });
+});
+
+test.describe('Mock Issuer - Virtual Issuers @api @mock @issuer', () => {
+  let request: APIRequestContext;
+  let control: MockIssuerControlHelper;
+  let mockIssuerAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    control = new MockIssuerControlHelper(request, MOCK_ISSUER_URL);
+    try {
+      const healthCheck = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mockIssuerAvailable = healthCheck.ok();
+    } catch {
+      mockIssuerAvailable = false;
+    }
+  });
+
+  test.afterEach(async () => {
+    if (mockIssuerAvailable) {
+      for (const issuer of await control.listIssuers()) {
+        await control.deleteIssuer(issuer.name);
+      }
+      await control.reset();
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  function decodeJwtPart(jwt: string, index: number) {
+    return JSON.parse(Buffer.from(jwt.split('.')[index], 'base64url').toString('utf8'));
+  }
+
+  test('virtual issuer metadata resolves under its own identifier', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const issuer = await control.createIssuer({ name: 'acme', display_name: 'ACME Issuer' });
+    expect(issuer.credential_issuer).toBe(`${MOCK_ISSUER_URL}/issuers/acme`);
+
+    const metadata = await (await request.get(`${issuer.credential_issuer}/.well-known/openid-credential-issuer`)).json();
+    expect(metadata.credential_issuer).toBe(issuer.credential_issuer);
+    expect(metadata.credential_endpoint).toBe(`${issuer.credential_issuer}/credential`);
+    expect(metadata.display.map((display: { name: string }) => display.name)).toContain('ACME Issuer');
+
+    const insertedWellKnown = await request.get(`${MOCK_ISSUER_URL}/.well-known/openid-credential-issuer/issuers/acme`);
+    expect(await insertedWellKnown.json()).toEqual(metadata);
+
+    const authorizationServer = await (await request.get(`${issuer.credential_issuer}/.well-known/oauth-authorization-server`)).json();
+    expect(authorizationServer.issuer).toBe(issuer.credential_issuer);
+    expect(authorizationServer.token_endpoint).toBe(`${issuer.credential_issuer}/token`);
+  });
+
+  test('virtual issuer has its own IACA and signing keys', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const issuer = await control.createIssuer({ name: 'own-keys' });
+    const [rootIacas, virtualIacas, rootJwks, virtualJwks] = await Promise.all(
+      [
+        `${MOCK_ISSUER_URL}/mdoc_iacas`,
+        `${issuer.credential_issuer}/mdoc_iacas`,
+        `${MOCK_ISSUER_URL}/.well-known/jwt-vc-issuer`,
+        `${issuer.credential_issuer}/.well-known/jwt-vc-issuer`,
+      ].map(async url => (await request.get(url)).json())
+    );
+
+    expect(virtualIacas.certificates[0]).not.toBe(rootIacas.certificates[0]);
+    expect(virtualIacas.metadata.issuer).toBe(issuer.credential_issuer);
+    expect(virtualJwks.issuer).toBe(issuer.credential_issuer);
+    expect(virtualJwks.jwks.keys[0].x).not.toBe(rootJwks.jwks.keys[0].x);
+  });
+
+  test('credentials are issued by the virtual issuer with its own key', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const issuer = await control.createIssuer({ name: 'issuing', credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'] });
+    const offerResponse = await request.post(`${issuer.credential_issuer}/offers`, {
+      data: { credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'] },
+    });
+    expect(offerResponse.status()).toBe(201);
+    const offer = await offerResponse.json();
+    expect(offer.credential_offer.credential_issuer).toBe(issuer.credential_issuer);
+
+    const tokenResponse = await request.post(`${issuer.credential_issuer}/token`, {
+      form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': offer.pre_authorized_code },
+    });
+    expect(tokenResponse.status()).toBe(200);
+    const token = await tokenResponse.json();
+
+    const holder = createHolderKey();
+    const credentialResponse = await request.post(`${issuer.credential_issuer}/credential`, {
+      headers: { Authorization: `Bearer ${token.access_token}` },
+      data: {
+        credential_configuration_id: 'eu.europa.ec.eudi.pid_vc_sd_jwt',
+        proof: { proof_type: 'jwt', jwt: createProofJwt(holder, token.c_nonce, { payload: { aud: issuer.credential_issuer } }) },
+      },
+    });
+    expect(credentialResponse.status()).toBe(200);
+
+    const [jwt] = (await credentialResponse.json()).credentials[0].credential.split('~');
+    expect(decodeJwtPart(jwt, 1).iss).toBe(issuer.credential_issuer);
+
+    const { jwks } = await (await request.get(`${issuer.credential_issuer}/.well-known/jwt-vc-issuer`)).json();
+    const [encodedHeader, encodedPayload, signature] = jwt.split('.');
+    const issuerJwk = jwks.keys.find((key: { kid: string }) => key.kid === decodeJwtPart(jwt, 0).kid);
+    expect(
+      verify('sha256', Buffer.from(`${encodedHeader}.${encodedPayload}`), { key: createPublicKey({ key: issuerJwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))
+    ).toBe(true);
+  });
+
+  test('virtual issuer issues with the overrides it advertises and serves its own logos', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await control.setScenario({
+      credential_configuration_overrides: { 'eu.europa.ec.eudi.pid_vc_sd_jwt': { vct: 'urn:eudi:pid:scenario' } },
+    });
+    const issuer = await control.createIssuer({ name: 'overriding', credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'] });
+
+    const metadata = await (await request.get(`${issuer.credential_issuer}/.well-known/openid-credential-issuer`)).json();
+    const configuration = metadata.credential_configurations_supported['eu.europa.ec.eudi.pid_vc_sd_jwt'];
+    expect(configuration.vct).toBe('urn:eudi:pid:scenario');
+    const logoUris: string[] = [...metadata.display, ...configuration.display].map((display: { logo: { uri: string } }) => display.logo.uri);
+    for (const uri of new Set(logoUris)) {
+      expect(uri.startsWith(`${issuer.credential_issuer}/`)).toBe(true);
+      const logo = await request.get(uri);
+      expect(logo.headers()['content-type']).toBe('image/png');
+    }
+
+    const offer = await (await request.post(`${issuer.credential_issuer}/offers`, {
+      data: { credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'] },
+    })).json();
+    const token = await (await request.post(`${issuer.credential_issuer}/token`, {
+      form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': offer.pre_authorized_code },
+    })).json();
+    const holder = createHolderKey();
+    const credentialResponse = await request.post(`${issuer.credential_issuer}/credential`, {
+      headers: { Authorization: `Bearer ${token.access_token}` },
+      data: {
+        credential_configuration_id: 'eu.europa.ec.eudi.pid_vc_sd_jwt',
+        proof: { proof_type: 'jwt', jwt: createProofJwt(holder, token.c_nonce, { payload: { aud: issuer.credential_issuer } }) },
+      },
+    });
+    expect(credentialResponse.status()).toBe(200);
+    const [jwt] = (await credentialResponse.json()).credentials[0].credential.split('~');
+    expect(decodeJwtPart(jwt, 1).vct).toBe('urn:eudi:pid:scenario');
+  });
+
+  test('access tokens of one issuer are not accepted by another', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    const issuer = await control.createIssuer({ name: 'isolated' });
+    const offer = await (await request.post(`${MOCK_ISSUER_URL}/offers`, {
+      data: { credential_configuration_ids: ['eu.europa.ec.eudi.pid_vc_sd_jwt'] },
+    })).json();
+
+    const otherToken = await request.post(`${issuer.credential_issuer}/token`, {
+      form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': offer.pre_authorized_code },
+    });
+    expect(otherToken.status()).toBe(400);
+
+    const token = await (await request.post(`${MOCK_ISSUER_URL}/token`, {
+      form: { grant_type: PRE_AUTHORIZED_GRANT_TYPE, 'pre-authorized_code': offer.pre_authorized_code },
+    })).json();
+    const credentialResponse = await request.post(`${issuer.credential_issuer}/credential`, {
+      headers: { Authorization: `Bearer ${token.access_token}` },
+      data: { credential_configuration_id: 'eu.europa.ec.eudi.pid_vc_sd_jwt' },
+    });
+    expect(credentialResponse.status()).toBe(401);
+  });
+
+  test('only trusted issuers sign metadata with a certificate chained to the trust anchor', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await control.setScenario({ signed_metadata: true });
+    const trusted = await control.createIssuer({ name: 'trusted' });
+    const untrusted = await control.createIssuer({ name: 'untrusted', trusted: false });
+
+    const { certificates } = await (await request.get(`${MOCK_ISSUER_URL}/metadata_trust_anchors`)).json();
+    const trustAnchor = new X509Certificate(certificates[0]);
+    const signerOf = async (issuerUrl: string) => {
+      const metadata = await (await request.get(`${issuerUrl}/.well-known/openid-credential-issuer`)).json();
+      expect(decodeJwtPart(metadata.signed_metadata, 1).sub).toBe(issuerUrl);
+      return new X509Certificate(Buffer.from(decodeJwtPart(metadata.signed_metadata, 0).x5c[0], 'base64'));
+    };
+
+    expect((await signerOf(trusted.credential_issuer)).verify(trustAnchor.publicKey)).toBe(true);
+    expect((await signerOf(untrusted.credential_issuer)).verify(trustAnchor.publicKey)).toBe(false);
+  });
+
+  test('virtual issuers are listed and can be deleted', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await control.createIssuer({ name: 'listed', trusted: false });
+    const [listed] = await control.listIssuers();
+    expect(listed).toMatchObject({ name: 'listed', credential_issuer: `${MOCK_ISSUER_URL}/issuers/listed`, trusted: false });
+
+    expect(await control.deleteIssuer('listed')).toBe(true);
+    expect(await control.deleteIssuer('listed')).toBe(false);
+    expect(await control.listIssuers()).toEqual([]);
+    expect((await request.get(`${MOCK_ISSUER_URL}/issuers/listed/.well-known/openid-credential-issuer`)).status()).toBe(404);
+  });
+
+  test('consent page of a virtual issuer posts the decision to that issuer', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await control.setScenario({ authorize_mode: 'consent' });
+    const issuer = await control.createIssuer({ name: 'consenting' });
+    const parResponse = await request.post(`${issuer.credential_issuer}/par`, {
+      form: {
+        client_id: 'wallet-e2e-test',
+        response_type: 'code',
+        redirect_uri: REDIRECT_URI,
+        scope: 'eu.europa.ec.eudi.pid.1',
+        code_challenge: createHash('sha256').update(randomBytes(32).toString('base64url')).digest('base64url'),
+        code_challenge_method: 'S256',
+      },
+    });
+    const { request_uri } = await parResponse.json();
+
+    const page = await (await request.get(`${issuer.credential_issuer}/authorize`, { params: { client_id: 'wallet-e2e-test', request_uri } })).text();
+    const action = page.match(/<form method="post" action="([^"]+)"/)![1];
+    expect(action).toBe(`${issuer.credential_issuer}/authorize`);
+
+    const decision = await request.post(action, { form: { request_uri, decision: 'approve' }, maxRedirects: 0 });
+    expect(decision.status()).toBe(302);
+    const location = new URL(decision.headers()['location']);
+    expect(location.searchParams.get('code')).toBeTruthy();
+    expect(location.searchParams.get('iss')).toBe(issuer.credential_issuer);
+  });
+
+  test('malformed issuer names answer 404 without stopping the mock', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    expect(await rawGet('/issuers/%E0%A4%A/.well-known/openid-credential-issuer')).toBe(404);
+    expect(await rawGet('/.well-known/openid-credential-issuer/issuers/%E0%A4%A')).toBe(404);
+    expect((await request.get(`${MOCK_ISSUER_URL}/health`)).ok()).toBe(true);
+  });
+
+  test('invalid and duplicate issuers are rejected', async () => {
+    test.skip(!mockIssuerAvailable, 'Mock issuer not available');
+
+    await control.createIssuer({ name: 'unique' });
+    await expect(control.createIssuer({ name: 'unique' })).rejects.toThrow('400');
+    await expect(control.createIssuer({ name: 'Not Valid' })).rejects.toThrow('400');
+    await expect(control.createIssuer({ name: 'unknown-config', credential_configuration_ids: ['no.such.config'] })).rejects.toThrow('400');
+
+    for (const displayName of [42, ['ACME'], { 'en-US': 42 }, { 'en-US': { name: 'ACME' } }]) {
+      const response = await request.post(`${MOCK_ISSUER_URL}/admin/issuers`, { data: { name: 'bad-display', display_name: displayName } });
+      expect(response.status(), JSON.stringify(displayName)).toBe(400);
+    }
+  });
+});
@@ -0,0 +1,1259 @@
+/**
+ * Mock Verifier Presentation Flow E2E Tests
+ *
+ * @tags @api @mock @verifier
+ *
+ * These tests drive the OpenID4VP flows of the mock verifier directly,
+ * acting as the wallet, so the mock can be relied on by wallet specs.
+ *
+ * Test environment requirements:
+ * - mock-verifier running on MOCK_VERIFIER_URL (default: http://localhost:9001)
+ * - mock-issuer running on MOCK_ISSUER_URL (default: http://localhost:9000), for the
+ *   credentials presented to the response endpoint
+ */
+
+import { test, expect, type APIRequestContext } from '@playwright/test';
+import * as http from 'http';
+import { createHash, createPublicKey, sign, verify, X509Certificate, type JsonWebKey, type KeyObject } from 'crypto';
+import { decodeCbor, Tagged } from '../../helpers/cbor';
+import { MockIssuerControlHelper } from '../../helpers/mock-issuer-control';
+import { TestWalletHelper, type SdJwtPresentationOptions } from '../../helpers/test-wallet';
+import { VerifierApiHelper } from '../../helpers/verifier-api';
+
+const MOCK_VERIFIER_URL = process.env.MOCK_VERIFIER_URL || 'http://localhost:9001';
+const MOCK_ISSUER_URL = process.env.MOCK_ISSUER_URL || 'http://localhost:9000';
+
+// DCQL query of a catalog entry, as far as the specs look at it
+interface CatalogQuery {
+  credentials: { id: string; format: string; claim_sets?: string[][] }[];
+  credential_sets?: { options: string[][]; required?: boolean }[];
+}
+
+function decodeJwtPart(jwt: string, index: number) {
+  return JSON.parse(Buffer.from(jwt.split('.')[index], 'base64url').toString('utf8'));
+}
+
+/**
+ * GET a raw request target, which API request contexts would normalize, returning the status
+ */
+function rawGet(target: string): Promise<number> {
+  const { hostname, port } = new URL(MOCK_VERIFIER_URL);
+  return new Promise((resolve, reject) => {
+    http
+      .get({ hostname, port, path: target }, res => {
+        res.resume();
+        resolve(res.statusCode!);
+      })
+      .on('error', reject);
+  });
+}
+
+function sha256Base64Url(data: string): string {
+  return createHash('sha256').update(data).digest('base64url');
+}
+
+/**
+ * Verify the ES256 signature of a compact JWS against a public JWK
+ */
+function verifiesWith(jwt: string, jwk: JsonWebKey): boolean {
+  const [encodedHeader, encodedPayload, signature] = jwt.split('.');
+  return verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key: createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature, 'base64url')
+  );
+}
+
+/**
+ * Sign a compact ES256 JWS, for credentials the specs forge themselves
+ */
+function signWith(key: KeyObject, header: Record<string, unknown>, payload: Record<string, unknown>): string {
+  const encode = (part: Record<string, unknown>) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  const signingInput = `${encode({ alg: 'ES256', ...header })}.${encode(payload)}`;
+  return `${signingInput}.${sign('sha256', Buffer.from(signingInput), { key, dsaEncoding: 'ieee-p1363' }).toString('base64url')}`;
+}
+
+test.describe('Mock Verifier - Request Objects @api @mock @verifier', () => {
+  let request: APIRequestContext;
+  let mockVerifierAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_VERIFIER_URL}/health`);
+      mockVerifierAvailable = healthCheck.ok();
+    } catch {
+      mockVerifierAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  async function createPresentationRequest(data: Record<string, unknown> = {}) {
+    const response = await request.post(`${MOCK_VERIFIER_URL}/presentation_request`, { data });
+    expect(response.ok()).toBe(true);
+    return response.json();
+  }
+
+  test('presentation request comes with an openid4vp authorization request by reference', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const created = await createPresentationRequest();
+    const authorizationRequest = new URL(created.authorization_request);
+
+    expect(authorizationRequest.protocol).toBe('openid4vp:');
+    expect(authorizationRequest.searchParams.get('client_id')).toBe(created.client_id);
+    expect(authorizationRequest.searchParams.get('request_uri')).toBe(created.request_uri);
+    expect(authorizationRequest.searchParams.has('request_uri_method')).toBe(false);
+    expect(created.client_id).toBe(`x509_san_dns:${new URL(MOCK_VERIFIER_URL).hostname}`);
+  });
+
+  test('request object is signed by an x5c certificate chained to the trust anchor', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const created = await createPresentationRequest();
+    const response = await request.get(created.request_uri);
+    expect(response.status()).toBe(200);
+    expect(response.headers()['content-type']).toBe('application/oauth-authz-req+jwt');
+
+    const jwt = await response.text();
+    const header = decodeJwtPart(jwt, 0);
+    expect(header.typ).toBe('oauth-authz-req+jwt');
+    expect(header.alg).toBe('ES256');
+    expect(header.x5c).toHaveLength(1);
+
+    const { certificates } = await (await request.get(`${MOCK_VERIFIER_URL}/trust_anchors`)).json();
+    const trustAnchor = new X509Certificate(certificates[0]);
+    const signer = new X509Certificate(Buffer.from(header.x5c[0], 'base64'));
+    expect(signer.checkIssued(trustAnchor)).toBe(true);
+    expect(signer.verify(trustAnchor.publicKey)).toBe(true);
+    expect(signer.subjectAltName).toContain(`DNS:${created.client_id.slice('x509_san_dns:'.length)}`);
+
+    const [encodedHeader, encodedPayload, signature] = jwt.split('.');
+    expect(
+      verify('sha256', Buffer.from(`${encodedHeader}.${encodedPayload}`), { key: signer.publicKey, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))
+    ).toBe(true);
+  });
+
+  test('request object asks for a vp_token with a DCQL query', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const created = await createPresentationRequest();
+    const payload = decodeJwtPart(await (await request.get(created.request_uri)).text(), 1);
+
+    expect(payload.client_id).toBe(created.client_id);
+    expect(payload.aud).toBe('https://self-issued.me/v2');
+    expect(payload.response_type).toBe('vp_token');
+    expect(payload.response_mode).toBe('direct_post');
+    expect(payload.response_uri).toContain(MOCK_VERIFIER_URL);
+    expect(payload.nonce).toBeTruthy();
+    expect(payload.state).toBeTruthy();
+    expect(payload.exp).toBeGreaterThan(payload.iat);
+    expect(payload.dcql_query.credentials[0].format).toBe('mso_mdoc');
+    expect(payload.client_metadata.vp_formats_supported).toBeDefined();
+    expect(payload.presentation_definition).toBeUndefined();
+  });
+
+  test('request_uri_method=post echoes the wallet_nonce', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const created = await createPresentationRequest({ request_uri_method: 'post' });
+    expect(new URL(created.authorization_request).searchParams.get('request_uri_method')).toBe('post');
+
+    const response = await request.post(created.request_uri, {
+      form: {
+        wallet_metadata: JSON.stringify({ request_object_signing_alg_values_supported: ['ES256'] }),
+        wallet_nonce: 'wallet-nonce-1',
+      },
+    });
+    expect(response.status()).toBe(200);
+    expect(response.headers()['content-type']).toBe('application/oauth-authz-req+jwt');
+    expect(decodeJwtPart(await response.text(), 1).wallet_nonce).toBe('wallet-nonce-1');
+  });
+
+  test('request object cannot be fetched with a method or algorithm the request does not support', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const getRequest = await createPresentationRequest();
+    expect((await request.post(getRequest.request_uri, { form: { wallet_nonce: 'n' } })).status()).toBe(405);
+
+    const postRequest = await createPresentationRequest({ request_uri_method: 'post' });
+    const unsupportedAlg = await request.post(postRequest.request_uri, {
+      form: { wallet_metadata: JSON.stringify({ request_object_signing_alg_values_supported: ['EdDSA'] }) },
+    });
+    expect(unsupportedAlg.status()).toBe(400);
+  });
+
+  test('unknown request_uri answers 404', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const response = await request.get(`${MOCK_VERIFIER_URL}/requests/unknown`);
+    expect(response.status()).toBe(404);
+    expect((await response.json()).error).toBe('invalid_request_uri');
+  });
+
+  test('malformed request target is rejected without stopping the mock', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    expect(await rawGet('//a:b:c')).toBe(400);
+    expect((await request.get(`${MOCK_VERIFIER_URL}/health`)).ok()).toBe(true);
+  });
+});
+
+test.describe('Mock Verifier - Client Identifier Prefixes @api @mock @verifier', () => {
+  let request: APIRequestContext;
+  let mockVerifierAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_VERIFIER_URL}/health`);
+      mockVerifierAvailable = healthCheck.ok();
+    } catch {
+      mockVerifierAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  /**
+   * Create a presentation request under a prefix and fetch its request object
+   */
+  async function requestFor(clientIdPrefix: string) {
+    const created = await (await request.post(`${MOCK_VERIFIER_URL}/presentation_request`, { data: { client_id_prefix: clientIdPrefix } })).json();
+    const jwt = await (await request.get(created.request_uri)).text();
+    return { created, jwt, header: decodeJwtPart(jwt, 0), payload: decodeJwtPart(jwt, 1) };
+  }
+
+  test('redirect_uri requests are unsigned and passed by value', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const { created, jwt, header, payload } = await requestFor('redirect_uri');
+    expect(created.client_id).toBe(`redirect_uri:${payload.response_uri}`);
+    expect(header.alg).toBe('none');
+    expect(jwt.endsWith('.')).toBe(true);
+
+    const authorizationRequest = new URL(created.authorization_request).searchParams;
+    expect(authorizationRequest.has('request_uri')).toBe(false);
+    expect(authorizationRequest.get('client_id')).toBe(created.client_id);
+    expect(authorizationRequest.get('response_uri')).toBe(payload.response_uri);
+    expect(JSON.parse(authorizationRequest.get('dcql_query')!)).toEqual(payload.dcql_query);
+  });
+
+  test('x509_hash client_id is the hash of the x5c certificate', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const { created, jwt, header } = await requestFor('x509_hash');
+    const certificate = Buffer.from(header.x5c[0], 'base64');
+    expect(created.client_id).toBe(`x509_hash:${createHash('sha256').update(certificate).digest('base64url')}`);
+    expect(verifiesWith(jwt, new X509Certificate(certificate).publicKey.export({ format: 'jwk' }))).toBe(true);
+  });
+
+  test('decentralized_identifier requests are signed with the key of the did:jwk', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const { created, jwt, header } = await requestFor('decentralized_identifier');
+    const did = created.client_id.slice('decentralized_identifier:'.length);
+    expect(did).toMatch(/^did:jwk:/);
+    expect(header.kid).toBe(`${did}#0`);
+
+    const didJwk = JSON.parse(Buffer.from(did.slice('did:jwk:'.length), 'base64url').toString('utf8'));
+    expect(verifiesWith(jwt, didJwk)).toBe(true);
+  });
+
+  test('verifier_attestation requests carry an attestation of the signing key', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const { created, jwt, header } = await requestFor('verifier_attestation');
+    const attestation = header.jwt;
+    expect(decodeJwtPart(attestation, 0).typ).toBe('verifier-attestation+jwt');
+
+    const { jwks } = await (await request.get(`${MOCK_VERIFIER_URL}/verifier_attestation_issuer`)).json();
+    expect(verifiesWith(attestation, jwks.keys[0])).toBe(true);
+
+    const claims = decodeJwtPart(attestation, 1);
+    expect(created.client_id).toBe(`verifier_attestation:${claims.sub}`);
+    expect(claims.exp).toBeGreaterThan(Date.now() / 1000);
+    expect(verifiesWith(jwt, claims.cnf.jwk)).toBe(true);
+  });
+
+  test('openid_federation requests carry a trust chain to the trust anchor', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const { created, jwt, header } = await requestFor('openid_federation');
+    expect(created.client_id).toBe(`openid_federation:${MOCK_VERIFIER_URL}`);
+
+    const [entityConfiguration, subordinateStatement, trustAnchorConfiguration] = header.trust_chain;
+    const trustAnchor = decodeJwtPart(trustAnchorConfiguration, 1);
+    const subordinate = decodeJwtPart(subordinateStatement, 1);
+    const entity = decodeJwtPart(entityConfiguration, 1);
+
+    expect(verifiesWith(trustAnchorConfiguration, trustAnchor.jwks.keys[0])).toBe(true);
+    expect(subordinate.iss).toBe(trustAnchor.sub);
+    expect(verifiesWith(subordinateStatement, trustAnchor.jwks.keys[0])).toBe(true);
+    expect(entity.sub).toBe(MOCK_VERIFIER_URL);
+    expect(entity.authority_hints).toEqual([trustAnchor.sub]);
+    expect(verifiesWith(entityConfiguration, subordinate.jwks.keys[0])).toBe(true);
+
+    const requestKey = entity.metadata.openid_credential_verifier.jwks.keys.find((key: { kid: string }) => key.kid === header.kid);
+    expect(verifiesWith(jwt, requestKey)).toBe(true);
+  });
+
+  test('federation entity statements are served at their endpoints', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const entityResponse = await request.get(`${MOCK_VERIFIER_URL}/.well-known/openid-federation`);
+    expect(entityResponse.headers()['content-type']).toBe('application/entity-statement+jwt');
+    const entity = decodeJwtPart(await entityResponse.text(), 1);
+
+    const [trustAnchorId] = entity.authority_hints;
+    const trustAnchor = decodeJwtPart(await (await request.get(`${trustAnchorId}/.well-known/openid-federation`)).text(), 1);
+    const fetchEndpoint = trustAnchor.metadata.federation_entity.federation_fetch_endpoint;
+
+    const subordinate = await request.get(fetchEndpoint, { params: { sub: MOCK_VERIFIER_URL } });
+    expect(decodeJwtPart(await subordinate.text(), 1).jwks).toEqual(entity.jwks);
+    expect((await request.get(fetchEndpoint, { params: { sub: 'https://unknown.example.com' } })).status()).toBe(404);
+  });
+
+  test('unknown prefixes are rejected', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const response = await request.post(`${MOCK_VERIFIER_URL}/presentation_request`, { data: { client_id_prefix: 'pre-registered' } });
+    expect(response.status()).toBe(400);
+  });
+});
+
+test.describe('Mock Verifier - DCQL Queries @api @mock @verifier', () => {
+  let request: APIRequestContext;
+  let mockVerifierAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    try {
+      const healthCheck = await request.get(`${MOCK_VERIFIER_URL}/health`);
+      mockVerifierAvailable = healthCheck.ok();
+    } catch {
+      mockVerifierAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  /**
+   * Create a presentation request and return the dcql_query of its request object
+   */
+  async function requestedQuery(data: Record<string, unknown>) {
+    const response = await request.post(`${MOCK_VERIFIER_URL}/presentation_request`, { data });
+    expect(response.ok()).toBe(true);
+    const created = await response.json();
+    return decodeJwtPart(await (await request.get(created.request_uri)).text(), 1).dcql_query;
+  }
+
+  test('catalog covers credential sets, claim sets and both formats', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const catalog: Record<string, { dcql_query: CatalogQuery }> = await (await request.get(`${MOCK_VERIFIER_URL}/queries`)).json();
+    const queries = Object.values(catalog).map(entry => entry.dcql_query);
+    const credentials = queries.flatMap(query => query.credentials);
+
+    expect(new Set(credentials.map(credential => credential.format))).toEqual(new Set(['mso_mdoc', 'dc+sd-jwt']));
+    expect(queries.some(query => query.credential_sets?.some(set => set.required === false))).toBe(true);
+    expect(credentials.some(credential => credential.claim_sets)).toBe(true);
+    expect(catalog.pid_any_format.dcql_query.credential_sets![0].options).toEqual([['pid_sd_jwt'], ['pid_mdoc']]);
+  });
+
+  test('request object carries the named catalog query', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const catalog = await (await request.get(`${MOCK_VERIFIER_URL}/queries`)).json();
+    for (const name of ['pid_sd_jwt', 'pid_with_optional_ehic', 'mdl_age_or_name']) {
+      expect(await requestedQuery({ query: name })).toEqual(catalog[name].dcql_query);
+    }
+  });
+
+  test('presentation types are requested with their catalog query', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const types = await (await request.get(`${MOCK_VERIFIER_URL}/presentation_types`)).json();
+    const catalog = await (await request.get(`${MOCK_VERIFIER_URL}/queries`)).json();
+    const mdl = types['org.iso.18013.5.1.mDL'];
+
+    const query = await requestedQuery({ presentation_type: 'org.iso.18013.5.1.mDL' });
+    expect(query).toEqual(catalog[mdl.query].dcql_query);
+    expect(query.credentials[0].meta.doctype_value).toBe('org.iso.18013.5.1.mDL');
+    expect(query.credentials[0].claims.map((claim: { path: string[] }) => claim.path[1])).toEqual(mdl.required_fields);
+  });
+
+  test('custom queries and trusted authorities are passed to the wallet', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const custom = {
+      credentials: [{ id: 'ehic', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:ehic:1'] }, claims: [{ path: ['issuing_country'] }] }],
+    };
+    expect(await requestedQuery({ dcql_query: custom })).toEqual(custom);
+
+    const trustedAuthorities = [{ type: 'aki', values: ['s9tIpPmhxdiuNkHMEWNpYim8S8Y'] }];
+    const restricted = await requestedQuery({ query: 'pid_any_format', trusted_authorities: trustedAuthorities });
+    for (const credential of restricted.credentials) {
+      expect(credential.trusted_authorities).toEqual(trustedAuthorities);
+    }
+  });
+
+  test('invalid queries are rejected with the problems found', async () => {
+    test.skip(!mockVerifierAvailable, 'Mock verifier not available');
+
+    const create = (data: Record<string, unknown>) => request.post(`${MOCK_VERIFIER_URL}/presentation_request`, { data });
+
+    const invalid = await create({
+      dcql_query: {
+        credentials: [{ id: 'pid', format: 'mso_mdoc', meta: {}, claims: [{ id: 'name', path: ['family_name'] }], claim_sets: [['age']] }],
+        credential_sets: [{ options: [['mdl']] }],
+      },
+    });
+    expect(invalid.status()).toBe(400);
+    const { error_description } = await invalid.json();
+    expect(error_description).toContain('doctype_value');
+    expect(error_description).toContain('claims path');
+    expect(error_description).toContain('unknown claims: age');
+    expect(error_description).toContain('credential_sets[0]');
+
+    expect((await create({ query: 'no_such_query' })).status()).toBe(400);
+    expect((await create({ presentation_type: 'no.such.type' })).status()).toBe(400);
+    expect((await create({ trusted_authorities: [{ type: 'x509', values: [] }] })).status()).toBe(400);
+  });
+});
+
+test.describe('Mock Verifier - Response Endpoint @api @mock @verifier', () => {
+  let request: APIRequestContext;
+  let wallet: TestWalletHelper;
+  let mocksAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    wallet = new TestWalletHelper(request, MOCK_ISSUER_URL);
+    try {
+      const verifierHealth = await request.get(`${MOCK_VERIFIER_URL}/health`);
+      const issuerHealth = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mocksAvailable = verifierHealth.ok() && issuerHealth.ok();
+    } catch {
+      mocksAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  /**
+   * Create a presentation request and return it with the parameters of its request object
+   */
+  async function createPresentationRequest(query: string) {
+    const created = await (await request.post(`${MOCK_VERIFIER_URL}/presentation_request`, { data: { query } })).json();
+    const requestObject = decodeJwtPart(await (await request.get(created.request_uri)).text(), 1);
+    return { ...created, nonce: requestObject.nonce, state: requestObject.state, response_uri: requestObject.response_uri };
+  }
+
+  async function getResult(requestId: string) {
+    const response = await request.get(`${MOCK_VERIFIER_URL}/results/${requestId}`);
+    expect(response.ok()).toBe(true);
+    return response.json();
+  }
+
+  test('SD-JWT VC presentation with key binding is verified', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const sdJwt = await wallet.issue('eu.europa.ec.eudi.pid_vc_sd_jwt');
+    const presentationRequest = await createPresentationRequest('pid_sd_jwt');
+    const presentation = wallet.presentSdJwt(sdJwt, {
+      clientId: presentationRequest.client_id,
+      nonce: presentationRequest.nonce,
+      disclose: [['family_name'], ['given_name'], ['birthdate'], ['address', 'street_address']],
+    });
+
+    const response = await wallet.respond(presentationRequest.response_uri, {
+      vp_token: { pid_sd_jwt: [presentation] },
+      state: presentationRequest.state,
+    });
+    expect(response.status()).toBe(200);
+
+    const result = await getResult(presentationRequest.request_id);
+    expect(result.valid).toBe(true);
+    expect(result.checks).toEqual({ state: true, presentations: true, dcql_query: true });
+    const [verdict] = result.credentials.pid_sd_jwt;
+    expect(verdict.failures).toEqual([]);
+    expect(Object.values(verdict.checks).every(Boolean)).toBe(true);
+    expect(verdict.vct).toBe('urn:eudi:pid:1');
+    expect(verdict.issuer).toBe(MOCK_ISSUER_URL);
+    // Only the selected claims are disclosed
+    expect(verdict.claims.family_name).toBe('Mustermann');
+    expect(verdict.claims.address).toEqual({ street_address: 'Heidestrasse 17' });
+    expect(verdict.claims.nationalities).toBeUndefined();
+  });
+
+  test('SD-JWT VC of an issuer identifier with a path is verified', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const control = new MockIssuerControlHelper(request, MOCK_ISSUER_URL);
+    const issuer = await control.createIssuer({ name: 'path-issuer' });
+    try {
+      const sdJwt = await new TestWalletHelper(request, issuer.credential_issuer).issue('eu.europa.ec.eudi.pid_vc_sd_jwt');
+      const presentationRequest = await createPresentationRequest('pid_sd_jwt');
+      const presentation = wallet.presentSdJwt(sdJwt, { clientId: presentationRequest.client_id, nonce: presentationRequest.nonce });
+      await wallet.respond(presentationRequest.response_uri, { vp_token: { pid_sd_jwt: [presentation] }, state: presentationRequest.state });
+
+      const [verdict] = (await getResult(presentationRequest.request_id)).credentials.pid_sd_jwt;
+      expect(verdict.issuer).toBe(issuer.credential_issuer);
+      expect(verdict.checks.issuer_signature).toBe(true);
+    } finally {
+      await control.deleteIssuer('path-issuer');
+    }
+  });
+
+  test('mdoc DeviceResponse is verified against the session transcript', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const issuerSigned = await wallet.issue('eu.europa.ec.eudi.pid.1');
+    const presentationRequest = await createPresentationRequest('pid_mdoc');
+    const presentation = wallet.presentMdoc(issuerSigned, {
+      clientId: presentationRequest.client_id,
+      nonce: presentationRequest.nonce,
+      responseUri: presentationRequest.response_uri,
+      disclose: { 'eu.europa.ec.eudi.pid.1': ['family_name', 'given_name', 'birth_date'] },
+    });
+
+    await wallet.respond(presentationRequest.response_uri, { vp_token: { pid_mdoc: [presentation] }, state: presentationRequest.state });
+
+    const result = await getResult(presentationRequest.request_id);
+    expect(result.valid).toBe(true);
+    const [verdict] = result.credentials.pid_mdoc;
+    expect(verdict.checks).toEqual({ issuer_signature: true, doc_type: true, validity: true, status: true, value_digests: true, device_signature: true });
+    expect(verdict.doctype).toBe('eu.europa.ec.eudi.pid.1');
+    expect(verdict.claims['eu.europa.ec.eudi.pid.1']).toEqual({ family_name: 'Mustermann', given_name: 'Erika', birth_date: '1964-08-12' });
+  });
+
+  test('key binding JWT for another verifier or request is rejected', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const sdJwt = await wallet.issue('eu.europa.ec.eudi.pid_vc_sd_jwt');
+    const presentationRequest = await createPresentationRequest('pid_sd_jwt');
+    const presentation = wallet.presentSdJwt(sdJwt, {
+      clientId: presentationRequest.client_id,
+      nonce: presentationRequest.nonce,
+      keyBinding: { payload: { aud: 'x509_san_dns:other.example', nonce: 'replayed-nonce', sd_hash: 'not-the-sd-hash' } },
+    });
+
+    await wallet.respond(presentationRequest.response_uri, { vp_token: { pid_sd_jwt: [presentation] }, state: presentationRequest.state });
+
+    const result = await getResult(presentationRequest.request_id);
+    expect(result.valid).toBe(false);
+    expect(result.checks.presentations).toBe(false);
+    const [verdict] = result.credentials.pid_sd_jwt;
+    expect(verdict.checks).toMatchObject({ kb_signature: true, aud: false, nonce: false, sd_hash: false, issuer_signature: true });
+    expect(verdict.failures).toHaveLength(3);
+  });
+
+  test('disclosures of the wrong shape and issuer JWTs of another typ are rejected', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    // An array element disclosed as a claim and a claim disclosed as an array element
+    const claimDisclosure = Buffer.from(JSON.stringify(['salt-1', 'given_name', 'Erika'])).toString('base64url');
+    const elementDisclosure = Buffer.from(JSON.stringify(['salt-2', 'DE'])).toString('base64url');
+    const issuerJwt = signWith(
+      wallet.privateKey,
+      { typ: 'JWT' },
+      {
+        iss: MOCK_ISSUER_URL,
+        vct: 'urn:eudi:pid:1',
+        _sd_alg: 'sha-256',
+        _sd: [sha256Base64Url(elementDisclosure)],
+        nationalities: [{ '...': sha256Base64Url(claimDisclosure) }],
+        cnf: { jwk: wallet.publicJwk },
+      }
+    );
+    const presentationRequest = await createPresentationRequest('pid_sd_jwt');
+    const presentation = wallet.presentSdJwt(`${issuerJwt}~${claimDisclosure}~${elementDisclosure}~`, {
+      clientId: presentationRequest.client_id,
+      nonce: presentationRequest.nonce,
+    });
+    await wallet.respond(presentationRequest.response_uri, { vp_token: { pid_sd_jwt: [presentation] }, state: presentationRequest.state });
+
+    const [verdict] = (await getResult(presentationRequest.request_id)).credentials.pid_sd_jwt;
+    expect(verdict.checks).toMatchObject({ typ: false, disclosures: false, kb_signature: true, sd_hash: true });
+    expect(verdict.claims.given_name).toBeUndefined();
+    expect(verdict.claims.nationalities).toEqual([]);
+  });
+
+  test('SD-JWT VC of an untrusted issuer is rejected without fetching its metadata', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const issuerJwt = signWith(
+      wallet.privateKey,
+      { typ: 'dc+sd-jwt' },
+      { iss: 'https://self-issued.example', vct: 'urn:eudi:pid:1', _sd_alg: 'sha-256', given_name: 'Erika', cnf: { jwk: wallet.publicJwk } }
+    );
+    const presentationRequest = await createPresentationRequest('pid_sd_jwt');
+    const presentation = wallet.presentSdJwt(`${issuerJwt}~`, { clientId: presentationRequest.client_id, nonce: presentationRequest.nonce });
+    await wallet.respond(presentationRequest.response_uri, { vp_token: { pid_sd_jwt: [presentation] }, state: presentationRequest.state });
+
+    const result = await getResult(presentationRequest.request_id);
+    expect(result.valid).toBe(false);
+    const [verdict] = result.credentials.pid_sd_jwt;
+    expect(verdict.checks).toMatchObject({ typ: true, issuer_signature: false, kb_signature: true });
+    expect(verdict.failures).toEqual([expect.stringContaining('https://self-issued.example is not a trusted issuer')]);
+  });
+
+  test('mdoc device signature over another request is rejected', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const issuerSigned = await wallet.issue('eu.europa.ec.eudi.pid.1');
+    const presentationRequest = await createPresentationRequest('pid_mdoc');
+    const otherRequest = await createPresentationRequest('pid_mdoc');
+    const presentation = wallet.presentMdoc(issuerSigned, {
+      clientId: otherRequest.client_id,
+      nonce: otherRequest.nonce,
+      responseUri: otherRequest.response_uri,
+    });
+
+    await wallet.respond(presentationRequest.response_uri, { vp_token: { pid_mdoc: [presentation] }, state: presentationRequest.state });
+
+    const [verdict] = (await getResult(presentationRequest.request_id)).credentials.pid_mdoc;
+    expect(verdict.valid).toBe(false);
+    expect(verdict.checks).toMatchObject({ issuer_signature: true, value_digests: true, device_signature: false });
+  });
+
+  test('SD-JWT VC revoked in the status list of its issuer is rejected', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const sdJwt = await wallet.issue('eu.europa.ec.eudi.pid_vc_sd_jwt');
+    const { idx } = decodeJwtPart(sdJwt.split('~')[0], 1).status.status_list;
+    const present = async () => {
+      const presentationRequest = await createPresentationRequest('pid_sd_jwt');
+      const presentation = wallet.presentSdJwt(sdJwt, { clientId: presentationRequest.client_id, nonce: presentationRequest.nonce });
+      await wallet.respond(presentationRequest.response_uri, { vp_token: { pid_sd_jwt: [presentation] }, state: presentationRequest.state });
+      return (await getResult(presentationRequest.request_id)).credentials.pid_sd_jwt[0];
+    };
+    expect((await present()).checks.status).toBe(true);
+
+    expect((await request.post(`${MOCK_ISSUER_URL}/admin/status`, { data: { idx, status: 'invalid' } })).ok()).toBe(true);
+    const verdict = await present();
+    expect(verdict.valid).toBe(false);
+    expect(verdict.checks).toMatchObject({ issuer_signature: true, status: false, kb_signature: true });
+    expect(verdict.failures).toEqual([`credential status is invalid (entry ${idx} of ${MOCK_ISSUER_URL}/status-lists/1)`]);
+  });
+
+  test('mdoc suspended in the status list of its issuer is rejected', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const issuerSigned = await wallet.issue('eu.europa.ec.eudi.pid.1');
+    const issuerAuth = (decodeCbor(Buffer.from(issuerSigned, 'base64url')) as Map<string, unknown>).get('issuerAuth') as unknown[];
+    const mso = decodeCbor((decodeCbor(issuerAuth[2] as Buffer) as Tagged).value as Buffer) as Map<string, unknown>;
+    const idx = ((mso.get('status') as Map<string, unknown>).get('status_list') as Map<string, unknown>).get('idx') as number;
+    expect((await request.post(`${MOCK_ISSUER_URL}/admin/status`, { data: { idx, status: 'suspended' } })).ok()).toBe(true);
+
+    const presentationRequest = await createPresentationRequest('pid_mdoc');
+    const presentation = wallet.presentMdoc(issuerSigned, {
+      clientId: presentationRequest.client_id,
+      nonce: presentationRequest.nonce,
+      responseUri: presentationRequest.response_uri,
+    });
+    await wallet.respond(presentationRequest.response_uri, { vp_token: { pid_mdoc: [presentation] }, state: presentationRequest.state });
+
+    const [verdict] = (await getResult(presentationRequest.request_id)).credentials.pid_mdoc;
+    expect(verdict.valid).toBe(false);
+    expect(verdict.checks).toMatchObject({ issuer_signature: true, status: false, device_signature: true });
+    expect(verdict.failures).toEqual([`credential status is suspended (entry ${idx} of ${MOCK_ISSUER_URL}/status-lists/1)`]);
+  });
+
+  test('valid presentations that miss requested claims do not satisfy the query', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const sdJwt = await wallet.issue('eu.europa.ec.eudi.pid_vc_sd_jwt');
+    const presentationRequest = await createPresentationRequest('pid_sd_jwt');
+    const presentation = wallet.presentSdJwt(sdJwt, {
+      clientId: presentationRequest.client_id,
+      nonce: presentationRequest.nonce,
+      disclose: [['family_name']],
+    });
+
+    await wallet.respond(presentationRequest.response_uri, { vp_token: { pid_sd_jwt: [presentation] }, state: presentationRequest.state });
+
+    const result = await getResult(presentationRequest.request_id);
+    expect(result.valid).toBe(false);
+    expect(result.checks).toEqual({ state: true, presentations: true, dcql_query: false });
+    expect(result.failures[0]).toContain('given_name');
+  });
+
+  test('wallet error responses and mismatched state are recorded', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const presentationRequest = await createPresentationRequest('pid_mdoc');
+    const response = await wallet.respond(presentationRequest.response_uri, {
+      error: 'access_denied',
+      error_description: 'User declined',
+      state: 'not-the-state',
+    });
+    expect(response.status()).toBe(200);
+
+    const result = await getResult(presentationRequest.request_id);
+    expect(result.valid).toBe(false);
+    expect(result.checks.state).toBe(false);
+    expect(result.wallet_error).toEqual({ error: 'access_denied', error_description: 'User declined' });
+  });
+
+  test('result exists only once a response was received, and only one response is accepted', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const presentationRequest = await createPresentationRequest('pid_mdoc');
+    expect((await request.get(`${MOCK_VERIFIER_URL}/results/${presentationRequest.request_id}`)).status()).toBe(404);
+
+    const missingToken = await wallet.respond(presentationRequest.response_uri, { state: presentationRequest.state });
+    expect(missingToken.status()).toBe(400);
+
+    await wallet.respond(presentationRequest.response_uri, { error: 'access_denied', state: presentationRequest.state });
+    const replay = await wallet.respond(presentationRequest.response_uri, { error: 'access_denied', state: presentationRequest.state });
+    expect(replay.status()).toBe(400);
+    expect((await replay.json()).error).toBe('invalid_request');
+
+    expect((await request.get(`${MOCK_VERIFIER_URL}/results/${presentationRequest.request_id}`)).status()).toBe(200);
+  });
+
+  test('only one of concurrent responses is accepted', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const sdJwt = await wallet.issue('eu.europa.ec.eudi.pid_vc_sd_jwt');
+    const presentationRequest = await createPresentationRequest('pid_sd_jwt');
+    const presentation = wallet.presentSdJwt(sdJwt, { clientId: presentationRequest.client_id, nonce: presentationRequest.nonce });
+    const form = new URLSearchParams({ vp_token: JSON.stringify({ pid_sd_jwt: [presentation] }), state: presentationRequest.state }).toString();
+
+    // The first response is still sending its body while the second one arrives in full
+    const { hostname, port, pathname } = new URL(presentationRequest.response_uri);
+    const slow = http.request({
+      hostname,
+      port,
+      path: pathname,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Content-Length': Buffer.byteLength(form) },
+    });
+    const slowStatus = new Promise<number>((resolve, reject) => {
+      slow.on('response', res => {
+        res.resume();
+        resolve(res.statusCode!);
+      });
+      slow.on('error', reject);
+    });
+    slow.write(form.slice(0, 10));
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    const fast = await wallet.respond(presentationRequest.response_uri, { vp_token: { pid_sd_jwt: [presentation] }, state: presentationRequest.state });
+    slow.end(form.slice(10));
+    expect([fast.status(), await slowStatus]).toEqual([200, 400]);
+  });
+});
+
+test.describe('Mock Verifier - Encrypted Responses @api @mock @verifier', () => {
+  let request: APIRequestContext;
+  let wallet: TestWalletHelper;
+  let mocksAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    wallet = new TestWalletHelper(request, MOCK_ISSUER_URL);
+    try {
+      const verifierHealth = await request.get(`${MOCK_VERIFIER_URL}/health`);
+      const issuerHealth = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mocksAvailable = verifierHealth.ok() && issuerHealth.ok();
+    } catch {
+      mocksAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  /**
+   * Create a direct_post.jwt presentation request and return it with its request object claims
+   */
+  async function createEncryptedRequest(query: string) {
+    const response = await request.post(`${MOCK_VERIFIER_URL}/presentation_request`, { data: { query, response_mode: 'direct_post.jwt' } });
+    expect(response.ok()).toBe(true);
+    const created = await response.json();
+    return { ...created, requestObject: decodeJwtPart(await (await request.get(created.request_uri)).text(), 1) };
+  }
+
+  async function presentSdJwt(presentationRequest: Awaited<ReturnType<typeof createEncryptedRequest>>) {
+    const sdJwt = await wallet.issue('eu.europa.ec.eudi.pid_vc_sd_jwt');
+    const presentation = wallet.presentSdJwt(sdJwt, {
+      clientId: presentationRequest.client_id,
+      nonce: presentationRequest.requestObject.nonce,
+    });
+    return { vp_token: { pid_sd_jwt: [presentation] }, state: presentationRequest.requestObject.state };
+  }
+
+  test('request publishes an ECDH-ES key and the supported enc values', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const { response_mode, requestObject } = await createEncryptedRequest('pid_sd_jwt');
+    expect(response_mode).toBe('direct_post.jwt');
+    expect(requestObject.response_mode).toBe('direct_post.jwt');
+
+    const [key] = requestObject.client_metadata.jwks.keys;
+    expect(key).toMatchObject({ kty: 'EC', crv: 'P-256', use: 'enc', alg: 'ECDH-ES' });
+    expect(key.d).toBeUndefined();
+    expect(requestObject.client_metadata.encrypted_response_enc_values_supported).toEqual(['A128GCM', 'A256GCM']);
+
+    // Every request gets its own key
+    const other = await createEncryptedRequest('pid_sd_jwt');
+    expect(other.requestObject.client_metadata.jwks.keys[0].kid).not.toBe(key.kid);
+  });
+
+  test('encrypted SD-JWT VC response is decrypted and verified', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const presentationRequest = await createEncryptedRequest('pid_sd_jwt');
+    const jwe = wallet.encryptResponse(await presentSdJwt(presentationRequest), presentationRequest.requestObject.client_metadata, { enc: 'A256GCM' });
+    const response = await wallet.respond(presentationRequest.requestObject.response_uri, { response: jwe });
+    expect(response.status()).toBe(200);
+
+    const result = await (await request.get(`${MOCK_VERIFIER_URL}/results/${presentationRequest.request_id}`)).json();
+    expect(result.valid).toBe(true);
+    expect(result.checks).toEqual({ encryption: true, state: true, presentations: true, dcql_query: true });
+  });
+
+  test('mdoc session transcript of an encrypted response includes the key thumbprint', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const issuerSigned = await wallet.issue('eu.europa.ec.eudi.pid.1');
+    const presentationRequest = await createEncryptedRequest('pid_mdoc');
+    const { client_metadata, nonce, state, response_uri } = presentationRequest.requestObject;
+    const present = (jwkThumbprint?: Buffer) =>
+      wallet.presentMdoc(issuerSigned, { clientId: presentationRequest.client_id, nonce, responseUri: response_uri, jwkThumbprint });
+
+    const thumbprint = Buffer.from(client_metadata.jwks.keys[0].kid, 'base64url');
+    const jwe = wallet.encryptResponse({ vp_token: { pid_mdoc: [present(thumbprint)] }, state }, client_metadata);
+    expect((await wallet.respond(response_uri, { response: jwe })).status()).toBe(200);
+    const result = await (await request.get(`${MOCK_VERIFIER_URL}/results/${presentationRequest.request_id}`)).json();
+    expect(result.credentials.pid_mdoc[0].checks.device_signature).toBe(true);
+    expect(result.valid).toBe(true);
+
+    // A transcript without the thumbprint is the one of an unencrypted response
+    const unbound = await createEncryptedRequest('pid_mdoc');
+    const unboundPresentation = wallet.presentMdoc(issuerSigned, {
+      clientId: unbound.client_id,
+      nonce: unbound.requestObject.nonce,
+      responseUri: unbound.requestObject.response_uri,
+    });
+    await wallet.respond(unbound.requestObject.response_uri, {
+      response: wallet.encryptResponse({ vp_token: { pid_mdoc: [unboundPresentation] }, state: unbound.requestObject.state }, unbound.requestObject.client_metadata),
+    });
+    const unboundResult = await (await request.get(`${MOCK_VERIFIER_URL}/results/${unbound.request_id}`)).json();
+    expect(unboundResult.credentials.pid_mdoc[0].checks.device_signature).toBe(false);
+  });
+
+  test('unsupported enc is rejected and recorded', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const presentationRequest = await createEncryptedRequest('pid_sd_jwt');
+    const jwe = wallet.encryptResponse(await presentSdJwt(presentationRequest), presentationRequest.requestObject.client_metadata, { enc: 'A192GCM' });
+    const response = await wallet.respond(presentationRequest.requestObject.response_uri, { response: jwe });
+
+    expect(response.status()).toBe(400);
+    const error = await response.json();
+    expect(error.error).toBe('invalid_request');
+    expect(error.error_description).toContain('A192GCM');
+
+    const result = await (await request.get(`${MOCK_VERIFIER_URL}/results/${presentationRequest.request_id}`)).json();
+    expect(result.valid).toBe(false);
+    expect(result.checks).toEqual({ encryption: false });
+  });
+
+  test('responses encrypted to another key are rejected', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const otherRequest = await createEncryptedRequest('pid_sd_jwt');
+    const otherKey = otherRequest.requestObject.client_metadata.jwks.keys[0];
+
+    // Announced under its own kid, and disguised with the kid of the request's key
+    for (const disguised of [false, true]) {
+      const presentationRequest = await createEncryptedRequest('pid_sd_jwt');
+      const { client_metadata, response_uri } = presentationRequest.requestObject;
+      const jwe = wallet.encryptResponse(await presentSdJwt(presentationRequest), client_metadata, {
+        jwk: otherKey,
+        kid: disguised ? client_metadata.jwks.keys[0].kid : undefined,
+      });
+      const response = await wallet.respond(response_uri, { response: jwe });
+
+      expect(response.status()).toBe(400);
+      expect((await response.json()).error_description).toContain(disguised ? 'does not decrypt' : 'is not the encryption key');
+    }
+  });
+
+  test('unencrypted responses to direct_post.jwt requests are rejected', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const presentationRequest = await createEncryptedRequest('pid_sd_jwt');
+    const response = await wallet.respond(presentationRequest.requestObject.response_uri, await presentSdJwt(presentationRequest));
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error_description).toContain('response parameter');
+  });
+});
+
+test.describe('Mock Verifier - Sessions @api @mock @verifier', () => {
+  let request: APIRequestContext;
+  let wallet: TestWalletHelper;
+  let verifier: VerifierApiHelper;
+  let mocksAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    wallet = new TestWalletHelper(request, MOCK_ISSUER_URL);
+    verifier = new VerifierApiHelper(request, MOCK_VERIFIER_URL);
+    try {
+      const verifierHealth = await request.get(`${MOCK_VERIFIER_URL}/health`);
+      const issuerHealth = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mocksAvailable = verifierHealth.ok() && issuerHealth.ok();
+    } catch {
+      mocksAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  /**
+   * Fetch the request object as a wallet would and answer it with an SD-JWT VC presentation
+   */
+  async function presentPid(requestUri: string, disclose?: string[][]) {
+    const requestObject = decodeJwtPart(await (await request.get(requestUri)).text(), 1);
+    const sdJwt = await wallet.issue('eu.europa.ec.eudi.pid_vc_sd_jwt');
+    const presentation = wallet.presentSdJwt(sdJwt, { clientId: requestObject.client_id, nonce: requestObject.nonce, disclose });
+    return wallet.respond(requestObject.response_uri, { vp_token: { pid_sd_jwt: [presentation] }, state: requestObject.state });
+  }
+
+  test('session goes from created through request_fetched to verified', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const created = await verifier.createPresentationRequest({ query: 'pid_sd_jwt' });
+    const session = await verifier.getSession(created.request_id);
+    expect(session.status).toBe('created');
+    expect(Date.parse(session.expires_at) - Date.parse(session.created_at)).toBeGreaterThanOrEqual((created.expires_in - 1) * 1000);
+    expect(await verifier.getResult(created.request_id)).toBeNull();
+
+    await presentPid(created.request_uri);
+
+    const result = await verifier.waitForPresentation(created.request_id);
+    expect(result.valid).toBe(true);
+    expect(verifier.disclosedClaims(result, 'pid_sd_jwt')[0]).toMatchObject({ family_name: 'Mustermann', given_name: 'Erika' });
+
+    const completed = await verifier.getSession(created.request_id);
+    expect(completed.status).toBe('verified');
+    expect(completed.request_fetched_at).toBeTruthy();
+    expect(Date.parse(completed.response_received_at!)).toBeGreaterThanOrEqual(Date.parse(completed.request_fetched_at!));
+    expect(completed.result).toEqual(result);
+  });
+
+  test('session of a response that does not verify ends as failed', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const created = await verifier.createPresentationRequest({ query: 'pid_sd_jwt' });
+    await presentPid(created.request_uri, [['family_name']]);
+
+    const session = await verifier.waitForStatus(created.request_id);
+    expect(session.status).toBe('failed');
+    expect(session.result!.checks.dcql_query).toBe(false);
+    await expect(verifier.waitForPresentation(created.request_id)).rejects.toThrow('DCQL query is not satisfied');
+  });
+
+  test('session expires after expires_in without a response', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const created = await verifier.createPresentationRequest({ query: 'pid_sd_jwt', expires_in: 1 });
+    expect(created.expires_in).toBe(1);
+    const requestObject = decodeJwtPart(await (await request.get(created.request_uri)).text(), 1);
+    expect((await verifier.getSession(created.request_id)).status).toBe('request_fetched');
+
+    const session = await verifier.waitForStatus(created.request_id, ['expired'], { timeout: 5000 });
+    expect(session.result).toBeUndefined();
+    expect((await request.get(created.request_uri)).status()).toBe(404);
+    const late = await wallet.respond(requestObject.response_uri, { error: 'access_denied', state: requestObject.state });
+    expect(late.status()).toBe(400);
+    expect((await late.json()).error_description).toContain('expired');
+  });
+
+  test('invalid lifetimes and unknown sessions are rejected', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    for (const expiresIn of [0, -5, 1.5, '60']) {
+      const response = await request.post(`${MOCK_VERIFIER_URL}/presentation_request`, { data: { expires_in: expiresIn } });
+      expect(response.status()).toBe(400);
+    }
+    expect((await request.get(`${MOCK_VERIFIER_URL}/sessions/req-unknown`)).status()).toBe(404);
+  });
+});
+
+test.describe('Mock Verifier - Relying Party Pages @api @mock @verifier', () => {
+  let request: APIRequestContext;
+  let wallet: TestWalletHelper;
+  let verifier: VerifierApiHelper;
+  let mocksAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    wallet = new TestWalletHelper(request, MOCK_ISSUER_URL);
+    verifier = new VerifierApiHelper(request, MOCK_VERIFIER_URL);
+    try {
+      const verifierHealth = await request.get(`${MOCK_VERIFIER_URL}/health`);
+      const issuerHealth = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mocksAvailable = verifierHealth.ok() && issuerHealth.ok();
+    } catch {
+      mocksAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  /**
+   * Open a relying party page, returning the URL of its session page
+   */
+  async function openPage(url: string): Promise<string> {
+    const response = await request.get(url, { maxRedirects: 0 });
+    expect(response.status()).toBe(302);
+    return response.headers()['location'];
+  }
+
+  function unescapeHtml(value: string): string {
+    return value.replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+  }
+
+  /**
+   * The authorization request the page links to, unescaped
+   */
+  function linkedAuthorizationRequest(html: string): string {
+    return unescapeHtml(html.match(/id="authorization-request" href="([^"]+)"/)![1]);
+  }
+
+  /**
+   * Answer an authorization request as a wallet would, with an SD-JWT VC presentation
+   */
+  async function presentPid(authorizationRequest: string) {
+    const requestUri = new URL(authorizationRequest).searchParams.get('request_uri')!;
+    const requestObject = decodeJwtPart(await (await request.get(requestUri)).text(), 1);
+    const sdJwt = await wallet.issue('eu.europa.ec.eudi.pid_vc_sd_jwt');
+    const presentation = wallet.presentSdJwt(sdJwt, { clientId: requestObject.client_id, nonce: requestObject.nonce });
+    return wallet.respond(requestObject.response_uri, { vp_token: { pid_sd_jwt: [presentation] }, state: requestObject.state });
+  }
+
+  test('cross-device page shows the QR code, then the disclosed claims', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const pageUrl = await openPage(verifier.relyingPartyUrl('cross_device', { query: 'pid_sd_jwt' }));
+    const requestId = verifier.requestIdOfPage(pageUrl);
+    const page = await (await request.get(pageUrl)).text();
+    expect(page).toContain('data-status="created"');
+    expect(page).toContain(`<img id="qr-code" src="/rp/sessions/${requestId}/qr.png"`);
+    const authorizationRequest = linkedAuthorizationRequest(page);
+    expect(authorizationRequest.startsWith('openid4vp://?')).toBe(true);
+    expect(new URL(authorizationRequest).searchParams.get('request_uri')).toBe(`${MOCK_VERIFIER_URL}/requests/${requestId}`);
+
+    const qrCode = await request.get(`${MOCK_VERIFIER_URL}/rp/sessions/${requestId}/qr.png`);
+    expect(qrCode.headers()['content-type']).toBe('image/png');
+    expect((await qrCode.body()).subarray(1, 4).toString('ascii')).toBe('PNG');
+
+    const response = await presentPid(authorizationRequest);
+    expect(response.ok()).toBe(true);
+    expect(await response.json()).toEqual({});
+    expect((await verifier.getSession(requestId)).flow).toBe('cross_device');
+
+    const completed = await (await request.get(pageUrl)).text();
+    expect(completed).toContain('data-status="verified"');
+    expect(completed).toContain('<dt>pid_sd_jwt.family_name</dt><dd>Mustermann</dd>');
+    expect(completed).not.toContain('qr-code');
+    expect(completed).not.toContain('<script>');
+  });
+
+  test('same-device page redirects to the wallet and shows the result for the response code', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const pageUrl = await openPage(
+      verifier.relyingPartyUrl('same_device', { query: 'pid_sd_jwt', wallet_url: 'https://wallet.example/authorize' })
+    );
+    const page = await (await request.get(pageUrl)).text();
+    expect(page).not.toContain('qr-code');
+    const authorizationRequest = linkedAuthorizationRequest(page);
+    expect(authorizationRequest.startsWith('https://wallet.example/authorize/?client_id=')).toBe(true);
+    // The page sends the browser on to the wallet, keeping the link for when it does not
+    const refresh = page.match(/<meta http-equiv="refresh" content="0; url=([^"]+)">/)![1];
+    expect(unescapeHtml(refresh)).toBe(authorizationRequest);
+
+    const response = await presentPid(authorizationRequest);
+    const { redirect_uri: redirectUri } = await response.json();
+    expect(redirectUri.startsWith(`${pageUrl}?response_code=`)).toBe(true);
+
+    const redirected = await (await request.get(redirectUri)).text();
+    expect(redirected).toContain('data-status="verified"');
+    expect(redirected).toContain('<dt>pid_sd_jwt.given_name</dt><dd>Erika</dd>');
+
+    expect(redirected).not.toContain('http-equiv="refresh"');
+
+    // Without the response code of the redirect the page does not reveal the claims
+    const completed = await (await request.get(pageUrl)).text();
+    expect(completed).not.toContain('id="claims"');
+    expect(completed).not.toContain('http-equiv="refresh"');
+    const guessed = await (await request.get(`${pageUrl}?response_code=guessed`)).text();
+    expect(guessed).not.toContain('id="claims"');
+    expect(guessed).toContain('id="notice"');
+  });
+
+  test('invalid page parameters and unknown sessions are rejected', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    for (const parameter of ['query=unknown', 'expires_in=0', 'client_id_prefix=unknown']) {
+      const response = await request.get(`${verifier.relyingPartyUrl('cross_device')}?${parameter}`, { maxRedirects: 0 });
+      expect(response.status()).toBe(400);
+    }
+    expect((await request.get(`${MOCK_VERIFIER_URL}/rp/sessions/req-unknown`)).status()).toBe(404);
+
+    // Sessions created through the API have no relying party page
+    const created = await verifier.createPresentationRequest({ query: 'pid_sd_jwt' });
+    expect((await request.get(`${MOCK_VERIFIER_URL}/rp/sessions/${created.request_id}`)).status()).toBe(404);
+  });
+});
+
+test.describe('Mock Verifier - Transaction Data @api @mock @verifier', () => {
+  let request: APIRequestContext;
+  let wallet: TestWalletHelper;
+  let verifier: VerifierApiHelper;
+  let mocksAvailable = false;
+
+  test.beforeAll(async ({ playwright }) => {
+    request = await playwright.request.newContext();
+    wallet = new TestWalletHelper(request, MOCK_ISSUER_URL);
+    verifier = new VerifierApiHelper(request, MOCK_VERIFIER_URL);
+    try {
+      const verifierHealth = await request.get(`${MOCK_VERIFIER_URL}/health`);
+      const issuerHealth = await request.get(`${MOCK_ISSUER_URL}/health`);
+      mocksAvailable = verifierHealth.ok() && issuerHealth.ok();
+    } catch {
+      mocksAvailable = false;
+    }
+  });
+
+  test.afterAll(async () => {
+    await request.dispose();
+  });
+
+  test('requests carry the transaction data entries of the chosen types', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const types = await (await request.get(`${MOCK_VERIFIER_URL}/transaction_data_types`)).json();
+    expect(Object.keys(types)).toEqual(['payment_data', 'qes_authorization', 'qcert_creation_acceptance']);
+
+    const created = await verifier.createPresentationRequest({
+      query: 'pid_sd_jwt',
+      transaction_data: [{ type: 'payment_data' }, { type: 'qes_authorization', credential_ids: ['pid_sd_jwt'] }],
+    });
+    const [payment, signature] = verifier.transactionData(created);
+    expect(payment).toMatchObject({ type: 'payment_data', credential_ids: ['pid_sd_jwt'], payment_data: { payee: 'Test Merchant' } });
+    expect(signature).toMatchObject({ type: 'qes_authorization', signatureQualifier: 'eu_eidas_qes' });
+    expect(signature.documentDigests).toHaveLength(1);
+
+    const requestObject = decodeJwtPart(await (await request.get(created.request_uri)).text(), 1);
+    expect(requestObject.transaction_data).toEqual(created.transaction_data);
+
+    // Relying party pages take the types as a comma-separated list
+    const page = await request.get(verifier.relyingPartyUrl('cross_device', { query: 'pid_sd_jwt', transaction_data: ['qcert_creation_acceptance'] }), {
+      maxRedirects: 0,
+    });
+    const requestId = verifier.requestIdOfPage(page.headers()['location']);
+    const pageRequestObject = decodeJwtPart(await (await request.get(`${MOCK_VERIFIER_URL}/requests/${requestId}`)).text(), 1);
+    expect(pageRequestObject.transaction_data).toHaveLength(1);
+    expect(JSON.parse(Buffer.from(pageRequestObject.transaction_data[0], 'base64url').toString('utf8')).type).toBe('qcert_creation_acceptance');
+  });
+
+  test('presentation with matching transaction_data_hashes verifies', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const sdJwt = await wallet.issue('eu.europa.ec.eudi.pid_vc_sd_jwt');
+    for (const transactionDataHashesAlg of [undefined, 'sha-384'] as const) {
+      const created = await verifier.createPresentationRequest({
+        query: 'pid_sd_jwt',
+        transaction_data: [
+          { type: 'payment_data', ...(transactionDataHashesAlg ? { transaction_data_hashes_alg: [transactionDataHashesAlg] } : {}) },
+          { type: 'qes_authorization', ...(transactionDataHashesAlg ? { transaction_data_hashes_alg: ['sha-256', transactionDataHashesAlg] } : {}) },
+        ],
+      });
+      const requestObject = decodeJwtPart(await (await request.get(created.request_uri)).text(), 1);
+      const presentation = wallet.presentSdJwt(sdJwt, {
+        clientId: requestObject.client_id,
+        nonce: requestObject.nonce,
+        transactionData: requestObject.transaction_data,
+        transactionDataHashesAlg,
+      });
+      await wallet.respond(requestObject.response_uri, { vp_token: { pid_sd_jwt: [presentation] }, state: requestObject.state });
+
+      const result = await verifier.waitForPresentation(created.request_id);
+      expect(result.credentials.pid_sd_jwt[0].checks.transaction_data).toBe(true);
+    }
+  });
+
+  test('presentation without the matching transaction_data_hashes fails', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const sdJwt = await wallet.issue('eu.europa.ec.eudi.pid_vc_sd_jwt');
+    const cases: [string, (transactionData: string[]) => SdJwtPresentationOptions['keyBinding'], string][] = [
+      ['no hashes', () => undefined, 'has no transaction_data_hashes'],
+      ['one entry missing', data => ({ payload: { transaction_data_hashes: [sha256Base64Url(data[0])] } }), '1 missing and 0 unexpected'],
+      ['hash of other data', data => ({ payload: { transaction_data_hashes: [...data, 'other'].map(sha256Base64Url) } }), '0 missing and 1 unexpected'],
+      ['unsupported algorithm', () => ({ payload: { transaction_data_hashes: [], transaction_data_hashes_alg: 'md5' } }), 'md5 is not supported'],
+      ['algorithm not allowed', () => ({ payload: { transaction_data_hashes: [], transaction_data_hashes_alg: 'sha-512' } }), 'sha-512 is not allowed'],
+    ];
+    for (const [name, keyBinding, failure] of cases) {
+      const created = await verifier.createPresentationRequest({
+        query: 'pid_sd_jwt',
+        transaction_data: [{ type: 'payment_data' }, { type: 'qcert_creation_acceptance' }],
+      });
+      const requestObject = decodeJwtPart(await (await request.get(created.request_uri)).text(), 1);
+      const presentation = wallet.presentSdJwt(sdJwt, {
+        clientId: requestObject.client_id,
+        nonce: requestObject.nonce,
+        keyBinding: keyBinding(requestObject.transaction_data),
+      });
+      await wallet.respond(requestObject.response_uri, { vp_token: { pid_sd_jwt: [presentation] }, state: requestObject.state });
+
+      const session = await verifier.waitForStatus(created.request_id);
+      expect(session.status, name).toBe('failed');
+      const [verdict] = session.result!.credentials.pid_sd_jwt;
+      expect(verdict.checks.transaction_data, name).toBe(false);
+      expect(verdict.failures.join('; '), name).toContain(failure);
+    }
+  });
+
+  test('invalid transaction data is rejected', async () => {
+    test.skip(!mocksAvailable, 'Mock issuer or verifier not available');
+
+    const invalid: Record<string, unknown>[] = [
+      { query: 'pid_sd_jwt', transaction_data: [] },
+      { query: 'pid_sd_jwt', transaction_data: [{ type: 'unknown' }] },
+      { query: 'pid_sd_jwt', transaction_data: [{ type: 'payment_data', credential_ids: ['mdl'] }] },
+      { query: 'pid_sd_jwt', transaction_data: [{ type: 'payment_data', transaction_data_hashes_alg: ['md5'] }] },
+      // mdoc presentations cannot carry transaction_data_hashes
+      { query: 'pid_mdoc', transaction_data: [{ type: 'payment_data' }] },
+    ];
+    for (const data of invalid) {
+      const response = await request.post(`${MOCK_VERIFIER_URL}/presentation_request`, { data });
+      expect(response.status()).toBe(400);
+      expect((await response.json()).error_description).toContain('transaction_data');
+    }
+  });
+});
@@ -59,7 +59,9 @@ test.describe('Verifier Trust - Mock Verifier Availability @api @trust @verifier
     const metadata = await response.json();
     expect(metadata.client_id).toBeTruthy();
     expect(metadata.client_name).toBe('Test Verifier');
-    expect(metadata.vp_formats).toBeDefined();
+    expect(Object.keys(metadata.vp_formats_supported)).toEqual(['mso_mdoc', 'dc+sd-jwt']);
+    expect(metadata.vp_formats_supported['dc+sd-jwt']['kb-jwt_alg_values']).toEqual(['ES256']);
+    expect(metadata.presentation_definition_uri_supported).toBeUndefined();
   });
 
   test('mock verifier exposes openid-configuration', async () => {